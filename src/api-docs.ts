@@ -0,0 +1,607 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+import { collectSourceFiles, parseSource, SOURCE_EXTENSIONS } from './source-files.js';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'options', 'head', 'all'];
+
+/**
+ * Schemas attached to a route, as declared in Fastify route options
+ */
+export interface RouteSchema {
+    body?: unknown;
+    querystring?: unknown;
+    params?: unknown;
+    headers?: unknown;
+    response?: Record<string, unknown>;
+    /** Source text of the schema when it is not a plain literal */
+    source?: string;
+}
+
+/**
+ * An HTTP route found in the project, with its mount prefixes applied
+ */
+export interface ApiRoute {
+    method: string;
+    path: string;
+    params: string[];
+    file: string;
+    line: number;
+    schema?: RouteSchema;
+}
+
+/**
+ * Routes registered on one router/app/plugin, before prefixes are applied
+ */
+interface RouteRegistration {
+    method: string;
+    path: string;
+    line: number;
+    schema?: RouteSchema;
+}
+
+/**
+ * `parent.use(prefix, child)` or `parent.register(child, { prefix })`
+ */
+interface Mount {
+    parent: string;
+    child: string;
+    prefix: string;
+}
+
+interface ScanState {
+    routes: Map<string, { file: string; registrations: RouteRegistration[] }>;
+    mounts: Mount[];
+}
+
+interface FileScope {
+    file: string;
+    sourceFile: ts.SourceFile;
+    /** Local name -> target key for imported bindings */
+    imports: Map<string, { file?: string; name: string }>;
+    /** Exported name -> local name */
+    exports: Map<string, string>;
+}
+
+function literalText(node: ts.Node | undefined): string | undefined {
+    if (node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))) {
+        return node.text;
+    }
+    return undefined;
+}
+
+/**
+ * Converts a literal AST node (object, array, string, number, boolean, null) to a value
+ * @returns undefined when the node contains anything that is not a literal
+ */
+function literalValue(node: ts.Node): unknown {
+    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+    if (ts.isNumericLiteral(node)) return Number(node.text);
+    if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+    if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+    if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+    if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+        return -Number(node.operand.text);
+    }
+    if (ts.isAsExpression(node) || ts.isParenthesizedExpression(node) || ts.isSatisfiesExpression(node)) {
+        return literalValue(node.expression);
+    }
+    if (ts.isArrayLiteralExpression(node)) {
+        const values = node.elements.map(literalValue);
+        return values.includes(undefined) ? undefined : values;
+    }
+    if (ts.isObjectLiteralExpression(node)) {
+        const result: Record<string, unknown> = {};
+        for (const property of node.properties) {
+            if (!ts.isPropertyAssignment(property)) return undefined;
+            const key = ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) || ts.isNumericLiteral(property.name)
+                ? property.name.text
+                : undefined;
+            const value = literalValue(property.initializer);
+            if (key === undefined || value === undefined) return undefined;
+            result[key] = value;
+        }
+        return result;
+    }
+    return undefined;
+}
+
+function getProperty(object: ts.ObjectLiteralExpression, name: string): ts.Expression | undefined {
+    for (const property of object.properties) {
+        if (ts.isPropertyAssignment(property) && property.name.getText() === name) {
+            return property.initializer;
+        }
+        if (ts.isShorthandPropertyAssignment(property) && property.name.text === name) {
+            return property.name;
+        }
+    }
+    return undefined;
+}
+
+function readSchema(options: ts.Expression | undefined): RouteSchema | undefined {
+    if (!options || !ts.isObjectLiteralExpression(options)) {
+        return undefined;
+    }
+    const schemaNode = getProperty(options, 'schema');
+    if (!schemaNode) {
+        return undefined;
+    }
+    const value = literalValue(schemaNode);
+    if (value && typeof value === 'object') {
+        const schema = value as Record<string, unknown>;
+        return {
+            body: schema.body,
+            querystring: schema.querystring ?? schema.query,
+            params: schema.params,
+            headers: schema.headers,
+            response: schema.response as Record<string, unknown> | undefined,
+        };
+    }
+    return { source: schemaNode.getText() };
+}
+
+/**
+ * Resolves a relative import specifier to a project source file
+ */
+async function resolveModule(fromFile: string, specifier: string): Promise<string | undefined> {
+    if (!specifier.startsWith('.')) {
+        return undefined;
+    }
+    const base = path.resolve(path.dirname(fromFile), specifier);
+    // ESM TypeScript projects import './routes.js' for './routes.ts'
+    const withoutJs = base.replace(/\.(c|m)?js$/, '');
+    const candidates = [
+        base,
+        ...SOURCE_EXTENSIONS.map(extension => `${withoutJs}${extension}`),
+        ...SOURCE_EXTENSIONS.map(extension => path.join(base, `index${extension}`)),
+    ];
+    for (const candidate of candidates) {
+        try {
+            if ((await fs.stat(candidate)).isFile()) {
+                return candidate;
+            }
+        } catch {
+            // Try the next candidate
+        }
+    }
+    return undefined;
+}
+
+async function collectModuleBindings(scope: FileScope): Promise<void> {
+    const { sourceFile } = scope;
+    for (const statement of sourceFile.statements) {
+        // import router from './routes'; import { users as u } from './routes'
+        if (ts.isImportDeclaration(statement) && statement.importClause) {
+            const specifier = literalText(statement.moduleSpecifier);
+            const file = specifier ? await resolveModule(scope.file, specifier) : undefined;
+            const clause = statement.importClause;
+            if (clause.name) {
+                scope.imports.set(clause.name.text, { file, name: 'default' });
+            }
+            if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+                for (const element of clause.namedBindings.elements) {
+                    scope.imports.set(element.name.text, { file, name: (element.propertyName ?? element.name).text });
+                }
+            }
+        }
+
+        if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                // const router = require('./routes'); const { users } = require('./routes')
+                const init = declaration.initializer;
+                if (init && ts.isCallExpression(init) && ts.isIdentifier(init.expression) && init.expression.text === 'require') {
+                    const specifier = literalText(init.arguments[0]);
+                    const file = specifier ? await resolveModule(scope.file, specifier) : undefined;
+                    if (ts.isIdentifier(declaration.name)) {
+                        scope.imports.set(declaration.name.text, { file, name: 'default' });
+                    } else if (ts.isObjectBindingPattern(declaration.name)) {
+                        for (const element of declaration.name.elements) {
+                            if (ts.isIdentifier(element.name)) {
+                                const imported = element.propertyName && ts.isIdentifier(element.propertyName)
+                                    ? element.propertyName.text
+                                    : element.name.text;
+                                scope.imports.set(element.name.text, { file, name: imported });
+                            }
+                        }
+                    }
+                }
+                if (ts.isIdentifier(declaration.name) && hasExportModifier(statement)) {
+                    scope.exports.set(declaration.name.text, declaration.name.text);
+                }
+            }
+        }
+
+        if (ts.isFunctionDeclaration(statement) && hasExportModifier(statement)) {
+            const isDefault = ts.getModifiers(statement)?.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword);
+            const local = statement.name?.text ?? 'default';
+            scope.exports.set(isDefault ? 'default' : local, local);
+        }
+
+        // export default router; export default fp(plugin)
+        if (ts.isExportAssignment(statement)) {
+            const local = unwrapIdentifier(statement.expression);
+            if (local) {
+                scope.exports.set('default', local);
+            }
+        }
+
+        if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+            for (const element of statement.exportClause.elements) {
+                scope.exports.set(element.name.text, (element.propertyName ?? element.name).text);
+            }
+        }
+
+        // module.exports = router; module.exports = { users, orders }; exports.users = users
+        if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression)
+            && statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+            const { left, right } = statement.expression;
+            if (left.getText() === 'module.exports' && ts.isObjectLiteralExpression(right)) {
+                for (const property of right.properties) {
+                    if (ts.isShorthandPropertyAssignment(property)) {
+                        scope.exports.set(property.name.text, property.name.text);
+                    } else if (ts.isPropertyAssignment(property) && ts.isIdentifier(property.initializer)) {
+                        scope.exports.set(property.name.getText(), property.initializer.text);
+                    }
+                }
+            } else if (left.getText() === 'module.exports') {
+                const local = unwrapIdentifier(right);
+                if (local) {
+                    scope.exports.set('default', local);
+                }
+            } else if (ts.isPropertyAccessExpression(left) && /^(module\.)?exports$/.test(left.expression.getText())) {
+                const local = unwrapIdentifier(right);
+                if (local) {
+                    scope.exports.set(left.name.text, local);
+                }
+            }
+        }
+    }
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+    return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword) ?? false);
+}
+
+/**
+ * Finds the identifier behind wrappers such as fastify-plugin's fp(plugin)
+ */
+function unwrapIdentifier(node: ts.Expression): string | undefined {
+    if (ts.isIdentifier(node)) return node.text;
+    if (ts.isCallExpression(node) && node.arguments.length > 0) return unwrapIdentifier(node.arguments[0]);
+    if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node)) return unwrapIdentifier(node.expression);
+    return undefined;
+}
+
+function functionKey(scope: FileScope, fn: ts.SignatureDeclaration): string {
+    if (ts.isFunctionDeclaration(fn) && fn.name) {
+        return `${scope.file}::${fn.name.text}`;
+    }
+    if (ts.isFunctionDeclaration(fn)) {
+        return `${scope.file}::default`;
+    }
+    const parent = fn.parent;
+    if (parent && ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+        return `${scope.file}::${parent.name.text}`;
+    }
+    return `${scope.file}::<anonymous@${fn.pos}>`;
+}
+
+/**
+ * Maps the identifier a route is registered on to a router key. Plugin parameters
+ * (`async function users(fastify) { fastify.get(...) }`) map to the enclosing function.
+ */
+function receiverKey(scope: FileScope, receiver: ts.Identifier): string {
+    for (let node: ts.Node | undefined = receiver.parent; node; node = node.parent) {
+        if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node)) {
+            const first = node.parameters[0];
+            if (first && ts.isIdentifier(first.name) && first.name.text === receiver.text) {
+                return functionKey(scope, node);
+            }
+        }
+    }
+    return localKey(scope, receiver.text);
+}
+
+function localKey(scope: FileScope, local: string): string {
+    const imported = scope.imports.get(local);
+    if (imported?.file) {
+        return `${imported.file}::@${imported.name}`;
+    }
+    return `${scope.file}::${local}`;
+}
+
+/**
+ * Maps a mount target expression (identifier or inline plugin function) to a router key
+ */
+function targetKey(scope: FileScope, target: ts.Expression): string | undefined {
+    if (ts.isArrowFunction(target) || ts.isFunctionExpression(target)) {
+        return functionKey(scope, target);
+    }
+    const local = unwrapIdentifier(target);
+    return local ? localKey(scope, local) : undefined;
+}
+
+function addRoute(state: ScanState, scope: FileScope, key: string, registration: RouteRegistration): void {
+    const entry = state.routes.get(key) ?? { file: scope.file, registrations: [] };
+    entry.registrations.push(registration);
+    state.routes.set(key, entry);
+}
+
+function scanCalls(state: ScanState, scope: FileScope): void {
+    const { sourceFile } = scope;
+    const lineOf = (node: ts.Node) => sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1;
+
+    const visit = (node: ts.Node) => {
+        if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+            const method = node.expression.name.text;
+            const target = node.expression.expression;
+            const args = node.arguments;
+
+            // router.route('/users').get(list).post(create)
+            let routeChain: ts.Expression = target;
+            while (ts.isCallExpression(routeChain) && ts.isPropertyAccessExpression(routeChain.expression)
+                && routeChain.expression.name.text !== 'route') {
+                routeChain = routeChain.expression.expression;
+            }
+            if (HTTP_METHODS.includes(method) && ts.isCallExpression(routeChain)
+                && ts.isPropertyAccessExpression(routeChain.expression)
+                && routeChain.expression.name.text === 'route'
+                && ts.isIdentifier(routeChain.expression.expression)) {
+                const routePath = literalText(routeChain.arguments[0]);
+                if (routePath !== undefined) {
+                    addRoute(state, scope, receiverKey(scope, routeChain.expression.expression), {
+                        method: method.toUpperCase(),
+                        path: routePath,
+                        line: lineOf(node),
+                    });
+                }
+            } else if (ts.isIdentifier(target)) {
+                const key = receiverKey(scope, target);
+                const routePath = literalText(args[0]);
+
+                // app.get('/path', handler) / fastify.get('/path', { schema }, handler)
+                if (HTTP_METHODS.includes(method) && routePath !== undefined && args.length >= 2
+                    && (routePath.startsWith('/') || routePath === '*')) {
+                    addRoute(state, scope, key, {
+                        method: method.toUpperCase(),
+                        path: routePath,
+                        line: lineOf(node),
+                        schema: args.length >= 3 ? readSchema(args[1]) : undefined,
+                    });
+                }
+
+                // fastify.route({ method: ['GET', 'HEAD'], url: '/path', schema })
+                if (method === 'route' && args[0] && ts.isObjectLiteralExpression(args[0])) {
+                    const options = args[0];
+                    const url = literalText(getProperty(options, 'url') ?? getProperty(options, 'path'));
+                    const methodValue = literalValue(getProperty(options, 'method') ?? ts.factory.createNull());
+                    const methods = (Array.isArray(methodValue) ? methodValue : [methodValue])
+                        .filter((value): value is string => typeof value === 'string');
+                    if (url !== undefined) {
+                        for (const routeMethod of methods) {
+                            addRoute(state, scope, key, {
+                                method: routeMethod.toUpperCase(),
+                                path: url,
+                                line: lineOf(node),
+                                schema: readSchema(options),
+                            });
+                        }
+                    }
+                }
+
+                // app.use('/api', router) / app.use(router)
+                if (method === 'use') {
+                    const prefix = routePath ?? '';
+                    for (const child of routePath !== undefined ? args.slice(1) : args) {
+                        const childKey = targetKey(scope, child);
+                        if (childKey) {
+                            state.mounts.push({ parent: key, child: childKey, prefix });
+                        }
+                    }
+                }
+
+                // fastify.register(plugin, { prefix: '/v1' })
+                if (method === 'register' && args[0]) {
+                    const childKey = targetKey(scope, args[0]);
+                    const options = args[1];
+                    const prefix = options && ts.isObjectLiteralExpression(options)
+                        ? literalText(getProperty(options, 'prefix')) ?? ''
+                        : '';
+                    if (childKey) {
+                        state.mounts.push({ parent: key, child: childKey, prefix });
+                    }
+                }
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+}
+
+function joinPaths(prefix: string, routePath: string): string {
+    const joined = `${prefix.replace(/\/+$/, '')}/${routePath.replace(/^\/+/, '')}`;
+    return joined.length > 1 ? joined.replace(/\/+$/, '') : '/';
+}
+
+/**
+ * Statically scans a project for Express and Fastify route registrations.
+ *
+ * Routes are attributed to the router, app or plugin they are registered on, and
+ * prefixes from `use('/prefix', router)` and `register(plugin, { prefix })` are
+ * applied along the mount chain, across files connected by relative imports.
+ */
+export async function scanApiRoutes(projectPath: string): Promise<ApiRoute[]> {
+    const state: ScanState = { routes: new Map(), mounts: [] };
+    const scopes: FileScope[] = [];
+
+    for (const file of await collectSourceFiles(projectPath)) {
+        const content = await fs.readFile(file, 'utf-8');
+        // Skip files that cannot register routes
+        if (!/\.(get|post|put|patch|delete|options|head|all|route|use|register)\s*\(/.test(content)) {
+            continue;
+        }
+        const scope: FileScope = { file, sourceFile: parseSource(file, content), imports: new Map(), exports: new Map() };
+        await collectModuleBindings(scope);
+        scopes.push(scope);
+    }
+    scopes.forEach(scope => scanCalls(state, scope));
+
+    // Imported bindings were keyed as "file::@exportName"; point them at the exporting local
+    const scopeByFile = new Map(scopes.map(scope => [scope.file, scope]));
+    const canonical = (key: string): string => {
+        const match = key.match(/^(.*)::@(.*)$/);
+        if (!match) return key;
+        const [, file, exported] = match;
+        const local = scopeByFile.get(file)?.exports.get(exported);
+        return local ? localKey(scopeByFile.get(file)!, local) : `${file}::${exported}`;
+    };
+    const routes = new Map<string, { file: string; registrations: RouteRegistration[] }>();
+    for (const [key, entry] of state.routes) {
+        const target = canonical(key);
+        const existing = routes.get(target);
+        routes.set(target, existing
+            ? { file: existing.file, registrations: [...existing.registrations, ...entry.registrations] }
+            : entry);
+    }
+    const mounts = state.mounts.map(mount => ({ ...mount, parent: canonical(mount.parent), child: canonical(mount.child) }));
+
+    const mountedKeys = new Set(mounts.map(mount => mount.child));
+    const result: ApiRoute[] = [];
+    const emit = (key: string, prefix: string, visiting: Set<string>) => {
+        if (visiting.has(key)) return;
+        visiting.add(key);
+        const entry = routes.get(key);
+        for (const registration of entry?.registrations ?? []) {
+            const fullPath = joinPaths(prefix, registration.path);
+            result.push({
+                method: registration.method,
+                path: fullPath,
+                params: Array.from(fullPath.matchAll(/:([A-Za-z0-9_]+)/g), match => match[1]),
+                file: path.relative(projectPath, entry!.file).split(path.sep).join('/'),
+                line: registration.line,
+                schema: registration.schema,
+            });
+        }
+        for (const mount of mounts.filter(candidate => candidate.parent === key)) {
+            emit(mount.child, joinPaths(prefix, mount.prefix), visiting);
+        }
+        visiting.delete(key);
+    };
+
+    const roots = new Set([...routes.keys(), ...mounts.map(mount => mount.parent)].filter(key => !mountedKeys.has(key)));
+    roots.forEach(root => emit(root, '', new Set()));
+
+    return result.sort((a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method));
+}
+
+/**
+ * Renders the route list as API.md
+ */
+export function renderApiDocumentation(routes: ApiRoute[], options: { title?: string; openApiFile?: string } = {}): string {
+    if (routes.length === 0) {
+        return `# API Documentation
+
+No Express or Fastify route registrations were found in this project.
+`;
+    }
+
+    const table = routes.map(route => `| ${route.method} | \`${route.path}\` | \`${route.file}:${route.line}\` |`).join('\n');
+    const details = routes.map(route => {
+        const sections = [`### ${route.method} ${route.path}`, `Defined in \`${route.file}:${route.line}\``];
+        if (route.params.length > 0) {
+            sections.push(`Path parameters: ${route.params.map(param => `\`${param}\``).join(', ')}`);
+        }
+        if (route.schema) {
+            const schema = route.schema.source ?? JSON.stringify(route.schema, null, 2);
+            sections.push(`Schema:\n\`\`\`${route.schema.source ? 'ts' : 'json'}\n${schema}\n\`\`\``);
+        }
+        return sections.join('\n\n');
+    }).join('\n\n');
+
+    return `# ${options.title ?? 'API'} Documentation
+
+Generated from route registrations in the source code.${options.openApiFile ? ` An OpenAPI 3.1 description is available in \`${options.openApiFile}\`.` : ''}
+
+## Endpoints
+
+| Method | Path | Source |
+|--------|------|--------|
+${table}
+
+${details}
+`;
+}
+
+function schemaProperties(schema: unknown): [string, unknown, boolean][] {
+    if (!schema || typeof schema !== 'object') return [];
+    const { properties, required } = schema as { properties?: Record<string, unknown>; required?: string[] };
+    return Object.entries(properties ?? {}).map(([name, value]) => [name, value, required?.includes(name) ?? false]);
+}
+
+/**
+ * Builds an OpenAPI 3.1 document from the scanned routes
+ */
+export function buildOpenApiDocument(routes: ApiRoute[], info: { title: string; version: string }): Record<string, unknown> {
+    const paths: Record<string, Record<string, unknown>> = {};
+
+    for (const route of routes) {
+        const openApiPath = route.path.replace(/:([A-Za-z0-9_]+)/g, '{$1}').replace(/\*$/, '{wildcard}');
+        const methods = route.method === 'ALL'
+            ? ['get', 'post', 'put', 'patch', 'delete']
+            : [route.method.toLowerCase()];
+        const schema = route.schema;
+
+        const paramSchemas = new Map(schemaProperties(schema?.params).map(([name, value]) => [name, value]));
+        const parameters = [
+            ...route.params.map(name => ({
+                name,
+                in: 'path',
+                required: true,
+                schema: paramSchemas.get(name) ?? { type: 'string' },
+            })),
+            ...schemaProperties(schema?.querystring).map(([name, value, required]) => ({
+                name,
+                in: 'query',
+                required,
+                schema: value,
+            })),
+            ...schemaProperties(schema?.headers).map(([name, value, required]) => ({
+                name,
+                in: 'header',
+                required,
+                schema: value,
+            })),
+        ];
+
+        const responses: Record<string, unknown> = {};
+        for (const [status, responseSchema] of Object.entries(schema?.response ?? {})) {
+            responses[status] = {
+                description: `${status} response`,
+                content: { 'application/json': { schema: responseSchema } },
+            };
+        }
+        if (Object.keys(responses).length === 0) {
+            responses.default = { description: 'Response' };
+        }
+
+        for (const method of methods) {
+            paths[openApiPath] ??= {};
+            paths[openApiPath][method] = {
+                operationId: `${method}${openApiPath.replace(/[^A-Za-z0-9]+(.)?/g, (_, next: string | undefined) => next?.toUpperCase() ?? '')}`,
+                ...(parameters.length > 0 ? { parameters } : {}),
+                ...(schema?.body !== undefined
+                    ? { requestBody: { content: { 'application/json': { schema: schema.body } } } }
+                    : {}),
+                responses,
+                'x-source': `${route.file}:${route.line}`,
+            };
+        }
+    }
+
+    return {
+        openapi: '3.1.0',
+        info,
+        paths,
+    };
+}
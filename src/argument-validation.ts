@@ -0,0 +1,113 @@
+import { JsonSchema, JsonSchemaNode } from './type-generation.js';
+
+/**
+ * Arguments checked against a schema, with defaults filled in
+ */
+export interface ValidatedArguments {
+    value: unknown;
+    /** One message per invalid field, prefixed with its path; empty when valid */
+    errors: string[];
+}
+
+function describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+    switch (type) {
+        case 'string':
+            return typeof value === 'string';
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'integer':
+            return Number.isInteger(value);
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'array':
+            return Array.isArray(value);
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'null':
+            return value === null;
+        default:
+            return true;
+    }
+}
+
+function childPath(parent: string, key: string): string {
+    return parent ? `${parent}.${key}` : key;
+}
+
+function checkNode(schema: JsonSchemaNode, value: unknown, at: string, errors: string[]): unknown {
+    const label = at || 'arguments';
+    if (schema === true) {
+        return value;
+    }
+    if (schema === false) {
+        errors.push(`${label}: is not allowed`);
+        return value;
+    }
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(type, value))) {
+            errors.push(`${label}: expected ${types.join(' or ')}, got ${describeValue(value)}`);
+            return value;
+        }
+    }
+    if (schema.enum && !schema.enum.some(allowed => allowed === value)) {
+        errors.push(`${label}: expected one of: ${schema.enum.map(String).join(', ')}, got ${JSON.stringify(value)}`);
+        return value;
+    }
+    if (typeof value === 'number' && typeof schema.minimum === 'number' && value < schema.minimum) {
+        errors.push(`${label}: must be at least ${schema.minimum}, got ${value}`);
+        return value;
+    }
+
+    if (Array.isArray(value) && schema.items !== undefined && !Array.isArray(schema.items)) {
+        const items = schema.items;
+        return value.map((item, index) => checkNode(items, item, `${label}[${index}]`, errors));
+    }
+    if (matchesType('object', value) && (schema.properties || schema.required || schema.additionalProperties !== undefined)) {
+        return checkObject(schema, value as Record<string, unknown>, at, errors);
+    }
+    return value;
+}
+
+function checkObject(schema: JsonSchema, value: Record<string, unknown>, at: string, errors: string[]): Record<string, unknown> {
+    const properties = schema.properties ?? {};
+    const result: Record<string, unknown> = {};
+
+    for (const [key, property] of Object.entries(properties)) {
+        if (value[key] !== undefined) {
+            result[key] = checkNode(property, value[key], childPath(at, key), errors);
+        } else if (typeof property === 'object' && property.default !== undefined) {
+            result[key] = structuredClone(property.default);
+        } else if (schema.required?.includes(key)) {
+            errors.push(`${childPath(at, key)}: is required`);
+        }
+    }
+    for (const [key, item] of Object.entries(value)) {
+        if (Object.hasOwn(properties, key) || item === undefined) {
+            continue;
+        }
+        result[key] = schema.additionalProperties === undefined
+            ? item
+            : checkNode(schema.additionalProperties, item, childPath(at, key), errors);
+    }
+    return result;
+}
+
+/**
+ * Checks a value against the subset of JSON Schema that tool input schemas use: type
+ * (including type lists and integer), enum, minimum, required, properties,
+ * additionalProperties and a single items schema. Missing properties that declare a default get a copy of it.
+ */
+export function validateArguments(schema: JsonSchema, value: unknown): ValidatedArguments {
+    const errors: string[] = [];
+    const checked = checkNode(schema, value, '', errors);
+    return { value: checked, errors };
+}
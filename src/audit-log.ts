@@ -0,0 +1,103 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export const REDACTED = '[REDACTED]';
+
+// Argument and environment names whose values are credentials, e.g. NPM_TOKEN, apiKey, password
+const SECRET_KEY_PATTERN = /passw(?:or)?d|passphrase|secret|token|api[-_]?key|access[-_]?key|private[-_]?key|credential|cookie|authorization|(?:^|[-_])auth$/i;
+
+// Credentials recognisable by their shape wherever they appear in a string
+const SECRET_VALUE_PATTERNS: [RegExp, string][] = [
+    [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`],
+    [/(\/\/[^/\s:@]*:)[^/\s@]+@/g, `$1${REDACTED}@`],
+    [/(--?[\w-]*(?:passw(?:or)?d|secret|token|api[-_]?key)[\w-]*[= ])\S+/gi, `$1${REDACTED}`],
+    [/\b(?:npm_[A-Za-z0-9]{36}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,}|AKIA[0-9A-Z]{16}|sk-[A-Za-z0-9_-]{20,})\b/g, REDACTED],
+];
+
+function redactString(value: string): string {
+    return SECRET_VALUE_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+}
+
+/**
+ * Copies a value with credentials replaced by [REDACTED]: values of secret-looking keys,
+ * and tokens, URL passwords and `--token=` style options inside strings
+ */
+export function redactSecrets(value: unknown): unknown {
+    if (typeof value === 'string') {
+        return redactString(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(redactSecrets);
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+            key,
+            SECRET_KEY_PATTERN.test(key) && entry !== null && entry !== undefined && entry !== '' ? REDACTED : redactSecrets(entry),
+        ]));
+    }
+    return value;
+}
+
+/**
+ * How a tool call ended: `failure` when the tool reported an error result, `error` when it
+ * threw, `cancelled` when the client or a shutdown cancelled it
+ */
+export type AuditOutcome = 'success' | 'failure' | 'error' | 'cancelled';
+
+/**
+ * One line of the audit log
+ */
+export interface AuditRecord {
+    /** When the call started */
+    time: string;
+    /** Client session that made the call */
+    session: string;
+    tool: string;
+    /** Arguments as validated, with defaults applied and secrets redacted */
+    arguments: unknown;
+    /** Files and directories the call created, modified or deleted */
+    paths: { path: string; change: string }[];
+    /** Commands the call ran, with secrets redacted */
+    commands: { command: string; cwd: string }[];
+    durationMs: number;
+    outcome: AuditOutcome;
+    /** Error message for failed, erroring and cancelled calls */
+    error?: string;
+}
+
+/**
+ * Append-only log of tool calls, one JSON object per line. Entries are never rewritten,
+ * so the file can be shipped to or tailed by other tools.
+ */
+export class AuditLog {
+    private pending: Promise<void> = Promise.resolve();
+
+    constructor(private readonly file: string) { }
+
+    getFile(): string {
+        return this.file;
+    }
+
+    /**
+     * Appends a record after those already queued
+     * @throws Error when the file cannot be written
+     */
+    append(record: AuditRecord): Promise<void> {
+        const line = `${JSON.stringify(record)}\n`;
+        const write = this.pending.then(async () => {
+            await fs.mkdir(path.dirname(this.file), { recursive: true });
+            // Arguments can hold private paths and data, so only the owner may read the log
+            await fs.appendFile(this.file, line, { mode: 0o600 });
+        });
+        // A failed write must not block the records after it
+        this.pending = write.catch(() => undefined);
+        return write;
+    }
+
+    /**
+     * Resolves once every queued record is written
+     */
+    flush(): Promise<void> {
+        return this.pending;
+    }
+}
@@ -0,0 +1,520 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+import { collectSourceFiles, parseSource, SOURCE_EXTENSIONS } from './source-files.js';
+
+/**
+ * A single prop of a component, as declared in its props type
+ */
+export interface PropDoc {
+    name: string;
+    type: string;
+    optional: boolean;
+    defaultValue?: string;
+    description?: string;
+}
+
+/**
+ * An exported custom hook found alongside a component
+ */
+export interface HookDoc {
+    name: string;
+    signature: string;
+    description?: string;
+}
+
+export interface ComponentDoc {
+    name: string;
+    filePath: string;
+    kind: 'function' | 'class';
+    exportKind: 'default' | 'named' | 'none';
+    description?: string;
+    /** Name of the props type, when it is a named type */
+    propsTypeName?: string;
+    props: PropDoc[];
+    /** Base types of the props that could not be resolved within the file */
+    unresolvedTypes: string[];
+    hooks: HookDoc[];
+    examples: string[];
+}
+
+/**
+ * Produces a literal example value for a TypeScript type, used in generated usage snippets
+ */
+export function getExampleValue(type: string): string {
+    const normalized = type.trim();
+    switch (normalized.toLowerCase()) {
+        case 'string':
+            return '"example"';
+        case 'number':
+            return '42';
+        case 'boolean':
+            return 'true';
+        case 'array':
+        case 'string[]':
+            return '["item1", "item2"]';
+        case 'object':
+            return '{ key: "value" }';
+    }
+
+    if (normalized.includes('=>')) {
+        return '() => {}';
+    }
+    // String literal union such as 'primary' | 'secondary'
+    const literal = normalized.match(/^\s*(['"])([^'"]*)\1/);
+    if (literal) {
+        return `"${literal[2]}"`;
+    }
+    return 'undefined';
+}
+
+/**
+ * Locates the file that declares a component.
+ *
+ * Files named after the component (`Name.tsx`, `Name/index.tsx`, ...) are tried
+ * first; otherwise every source file in the project is parsed and searched for
+ * a declaration with that name.
+ *
+ * @returns The file path, or undefined if no declaration was found
+ */
+export async function findComponentFile(projectPath: string, componentName: string): Promise<string | undefined> {
+    const files = await collectSourceFiles(projectPath);
+
+    const rank = (filePath: string) => SOURCE_EXTENSIONS.indexOf(path.extname(filePath));
+    const byName = files
+        .filter(filePath => {
+            const base = path.basename(filePath, path.extname(filePath));
+            return base === componentName || (base === 'index' && path.basename(path.dirname(filePath)) === componentName);
+        })
+        .sort((a, b) => rank(a) - rank(b));
+
+    for (const filePath of byName) {
+        const sourceFile = parseSource(filePath, await fs.readFile(filePath, 'utf-8'));
+        if (findComponentDeclaration(sourceFile, componentName)) {
+            return filePath;
+        }
+    }
+
+    for (const filePath of files.sort((a, b) => rank(a) - rank(b))) {
+        const content = await fs.readFile(filePath, 'utf-8');
+        // Cheap pre-filter before parsing
+        if (!content.includes(componentName)) {
+            continue;
+        }
+        if (findComponentDeclaration(parseSource(filePath, content), componentName)) {
+            return filePath;
+        }
+    }
+
+    return undefined;
+}
+
+interface ComponentDeclaration {
+    node: ts.Node;
+    kind: 'function' | 'class';
+    propsType?: ts.TypeNode;
+    /** Parameter holding the props, used to read destructuring defaults */
+    propsParameter?: ts.ParameterDeclaration;
+    statement: ts.Statement;
+}
+
+function getFunctionLike(node: ts.Expression | undefined): ts.SignatureDeclaration | undefined {
+    if (!node) {
+        return undefined;
+    }
+    if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+        return node;
+    }
+    if (ts.isParenthesizedExpression(node)) {
+        return getFunctionLike(node.expression);
+    }
+    // memo(fn), forwardRef(fn), React.memo(React.forwardRef(fn))
+    if (ts.isCallExpression(node)) {
+        return getFunctionLike(node.arguments[0]);
+    }
+    return undefined;
+}
+
+function typeName(node: ts.EntityName | ts.Expression): string {
+    if (ts.isIdentifier(node)) return node.text;
+    if (ts.isQualifiedName(node)) return node.right.text;
+    if (ts.isPropertyAccessExpression(node)) return node.name.text;
+    return '';
+}
+
+/**
+ * Finds the props type argument in wrappers such as React.FC<P>, forwardRef<R, P>(...) or memo<P>(...)
+ */
+function getWrapperPropsType(declaration: ts.VariableDeclaration): ts.TypeNode | undefined {
+    const annotation = declaration.type;
+    if (annotation && ts.isTypeReferenceNode(annotation) && annotation.typeArguments?.length) {
+        return annotation.typeArguments[0];
+    }
+
+    let initializer = declaration.initializer;
+    while (initializer && ts.isCallExpression(initializer)) {
+        const callee = typeName(initializer.expression);
+        if (callee === 'forwardRef' && initializer.typeArguments?.length === 2) {
+            return initializer.typeArguments[1];
+        }
+        if (callee === 'memo' && initializer.typeArguments?.length) {
+            return initializer.typeArguments[0];
+        }
+        initializer = initializer.arguments[0];
+    }
+    return undefined;
+}
+
+function findComponentDeclaration(sourceFile: ts.SourceFile, componentName: string): ComponentDeclaration | undefined {
+    for (const statement of sourceFile.statements) {
+        if (ts.isFunctionDeclaration(statement) && statement.name?.text === componentName) {
+            const parameter = statement.parameters[0];
+            return { node: statement, kind: 'function', propsType: parameter?.type, propsParameter: parameter, statement };
+        }
+
+        if (ts.isClassDeclaration(statement) && statement.name?.text === componentName) {
+            const base = statement.heritageClauses
+                ?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)
+                ?.types[0];
+            return { node: statement, kind: 'class', propsType: base?.typeArguments?.[0], statement };
+        }
+
+        if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                if (!ts.isIdentifier(declaration.name) || declaration.name.text !== componentName) {
+                    continue;
+                }
+                const fn = getFunctionLike(declaration.initializer);
+                const parameter = fn?.parameters[0];
+                return {
+                    node: declaration,
+                    kind: 'function',
+                    propsType: getWrapperPropsType(declaration) ?? parameter?.type,
+                    propsParameter: parameter,
+                    statement,
+                };
+            }
+        }
+    }
+    return undefined;
+}
+
+function getJsDocDescription(node: ts.Node): string | undefined {
+    const text = ts.getJSDocCommentsAndTags(node)
+        .filter(ts.isJSDoc)
+        .map(doc => ts.getTextOfJSDocComment(doc.comment))
+        .filter(Boolean)
+        .join('\n')
+        .trim();
+    return text || undefined;
+}
+
+function getJsDocTagValues(node: ts.Node, ...tagNames: string[]): string[] {
+    return ts.getJSDocTags(node)
+        .filter(tag => tagNames.includes(tag.tagName.text))
+        .map(tag => (ts.getTextOfJSDocComment(tag.comment) ?? '').trim())
+        .filter(Boolean);
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return ts.canHaveModifiers(node) && (ts.getModifiers(node)?.some(modifier => modifier.kind === kind) ?? false);
+}
+
+/**
+ * Collects prop members from a props type, following named types declared in the same file
+ */
+function collectProps(
+    sourceFile: ts.SourceFile,
+    typeNode: ts.TypeNode,
+    props: Map<string, PropDoc>,
+    unresolved: string[],
+    seen = new Set<string>()
+): void {
+    if (ts.isParenthesizedTypeNode(typeNode)) {
+        collectProps(sourceFile, typeNode.type, props, unresolved, seen);
+        return;
+    }
+    if (ts.isIntersectionTypeNode(typeNode)) {
+        typeNode.types.forEach(member => collectProps(sourceFile, member, props, unresolved, seen));
+        return;
+    }
+    if (ts.isTypeLiteralNode(typeNode)) {
+        collectMembers(sourceFile, typeNode.members, props);
+        return;
+    }
+    if (ts.isTypeReferenceNode(typeNode)) {
+        const name = typeName(typeNode.typeName);
+        // Utility wrappers whose first argument carries the members
+        if (['Readonly', 'Partial', 'PropsWithChildren'].includes(name) && typeNode.typeArguments?.length) {
+            const inner = new Map<string, PropDoc>();
+            collectProps(sourceFile, typeNode.typeArguments[0], inner, unresolved, seen);
+            if (name === 'PropsWithChildren') {
+                inner.set('children', { name: 'children', type: 'React.ReactNode', optional: true });
+            }
+            for (const [propName, prop] of inner) {
+                props.set(propName, name === 'Partial' ? { ...prop, optional: true } : prop);
+            }
+            return;
+        }
+        if (seen.has(name)) {
+            return;
+        }
+        seen.add(name);
+
+        for (const statement of sourceFile.statements) {
+            if (ts.isInterfaceDeclaration(statement) && statement.name.text === name) {
+                statement.heritageClauses?.forEach(clause =>
+                    clause.types.forEach(base => {
+                        const baseName = typeName(base.expression);
+                        const before = unresolved.length;
+                        collectProps(
+                            sourceFile,
+                            ts.factory.createTypeReferenceNode(baseName, base.typeArguments),
+                            props,
+                            unresolved,
+                            seen
+                        );
+                        if (unresolved.length > before) {
+                            unresolved.splice(before, unresolved.length - before, base.getText(sourceFile));
+                        }
+                    })
+                );
+                collectMembers(sourceFile, statement.members, props);
+                return;
+            }
+            if (ts.isTypeAliasDeclaration(statement) && statement.name.text === name) {
+                collectProps(sourceFile, statement.type, props, unresolved, seen);
+                return;
+            }
+        }
+    }
+
+    // Imported or otherwise non-local type
+    unresolved.push(typeNode.pos >= 0 ? typeNode.getText(sourceFile) : typeName((typeNode as ts.TypeReferenceNode).typeName));
+}
+
+function collectMembers(sourceFile: ts.SourceFile, members: ts.NodeArray<ts.TypeElement>, props: Map<string, PropDoc>): void {
+    for (const member of members) {
+        if (!member.name || !(ts.isPropertySignature(member) || ts.isMethodSignature(member))) {
+            continue;
+        }
+        const name = member.name.getText(sourceFile).replace(/^['"]|['"]$/g, '');
+        let type = 'any';
+        if (ts.isPropertySignature(member) && member.type) {
+            type = member.type.getText(sourceFile);
+        } else if (ts.isMethodSignature(member)) {
+            const parameters = member.parameters.map(parameter => parameter.getText(sourceFile)).join(', ');
+            type = `(${parameters}) => ${member.type?.getText(sourceFile) ?? 'void'}`;
+        }
+        props.set(name, {
+            name,
+            type: type.replace(/\s+/g, ' '),
+            optional: Boolean(member.questionToken),
+            defaultValue: getJsDocTagValues(member, 'default', 'defaultValue')[0],
+            description: getJsDocDescription(member),
+        });
+    }
+}
+
+/**
+ * Reads default values from `{ a = 1 }` destructuring, `Name.defaultProps = {...}`
+ * and `static defaultProps = {...}`
+ */
+function collectDefaults(sourceFile: ts.SourceFile, componentName: string, declaration: ComponentDeclaration): Map<string, string> {
+    const defaults = new Map<string, string>();
+    const addObjectLiteral = (literal: ts.Expression | undefined) => {
+        if (literal && ts.isObjectLiteralExpression(literal)) {
+            for (const property of literal.properties) {
+                if (ts.isPropertyAssignment(property)) {
+                    defaults.set(property.name.getText(sourceFile), property.initializer.getText(sourceFile));
+                }
+            }
+        }
+    };
+
+    const binding = declaration.propsParameter?.name;
+    if (binding && ts.isObjectBindingPattern(binding)) {
+        for (const element of binding.elements) {
+            if (element.initializer) {
+                const name = (element.propertyName ?? element.name).getText(sourceFile);
+                defaults.set(name, element.initializer.getText(sourceFile));
+            }
+        }
+    }
+
+    if (ts.isClassDeclaration(declaration.node)) {
+        for (const member of declaration.node.members) {
+            if (ts.isPropertyDeclaration(member) && member.name.getText(sourceFile) === 'defaultProps'
+                && hasModifier(member, ts.SyntaxKind.StaticKeyword)) {
+                addObjectLiteral(member.initializer);
+            }
+        }
+    }
+
+    for (const statement of sourceFile.statements) {
+        if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression)
+            && statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+            && statement.expression.left.getText(sourceFile) === `${componentName}.defaultProps`) {
+            addObjectLiteral(statement.expression.right);
+        }
+    }
+
+    return defaults;
+}
+
+function getExportKind(sourceFile: ts.SourceFile, componentName: string, declaration: ComponentDeclaration): ComponentDoc['exportKind'] {
+    if (hasModifier(declaration.statement, ts.SyntaxKind.ExportKeyword)) {
+        return hasModifier(declaration.statement, ts.SyntaxKind.DefaultKeyword) ? 'default' : 'named';
+    }
+    for (const statement of sourceFile.statements) {
+        if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+            const exported = statement.expression;
+            if (exported.getText(sourceFile) === componentName
+                || (ts.isCallExpression(exported) && exported.arguments[0]?.getText(sourceFile) === componentName)) {
+                return 'default';
+            }
+        }
+        if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+            const specifier = statement.exportClause.elements.find(element =>
+                (element.propertyName ?? element.name).text === componentName
+            );
+            if (specifier) {
+                return specifier.name.text === 'default' ? 'default' : 'named';
+            }
+        }
+    }
+    return 'none';
+}
+
+function collectHooks(sourceFile: ts.SourceFile): HookDoc[] {
+    const hooks: HookDoc[] = [];
+    const isHookName = (name: string) => /^use[A-Z0-9]/.test(name);
+    const signatureOf = (name: string, fn: ts.SignatureDeclaration) => {
+        const parameters = fn.parameters.map(parameter => parameter.getText(sourceFile)).join(', ');
+        return `${name}(${parameters})${fn.type ? `: ${fn.type.getText(sourceFile)}` : ''}`.replace(/\s+/g, ' ');
+    };
+
+    for (const statement of sourceFile.statements) {
+        if (!hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+            continue;
+        }
+        if (ts.isFunctionDeclaration(statement) && statement.name && isHookName(statement.name.text)) {
+            hooks.push({
+                name: statement.name.text,
+                signature: signatureOf(statement.name.text, statement),
+                description: getJsDocDescription(statement),
+            });
+        }
+        if (ts.isVariableStatement(statement)) {
+            for (const declaration of statement.declarationList.declarations) {
+                const fn = getFunctionLike(declaration.initializer);
+                if (ts.isIdentifier(declaration.name) && isHookName(declaration.name.text) && fn) {
+                    hooks.push({
+                        name: declaration.name.text,
+                        signature: signatureOf(declaration.name.text, fn),
+                        description: getJsDocDescription(statement),
+                    });
+                }
+            }
+        }
+    }
+    return hooks;
+}
+
+/**
+ * Extracts props, defaults, hooks and examples for a component from its source file
+ * @returns undefined if the file does not declare the component
+ */
+export async function analyzeComponent(filePath: string, componentName: string): Promise<ComponentDoc | undefined> {
+    const sourceFile = parseSource(filePath, await fs.readFile(filePath, 'utf-8'));
+    const declaration = findComponentDeclaration(sourceFile, componentName);
+    if (!declaration) {
+        return undefined;
+    }
+
+    const props = new Map<string, PropDoc>();
+    const unresolvedTypes: string[] = [];
+    if (declaration.propsType) {
+        collectProps(sourceFile, declaration.propsType, props, unresolvedTypes);
+    }
+
+    const defaults = collectDefaults(sourceFile, componentName, declaration);
+    for (const [name, value] of defaults) {
+        const prop = props.get(name);
+        if (prop) {
+            prop.defaultValue = value;
+        } else {
+            props.set(name, { name, type: 'unknown', optional: true, defaultValue: value });
+        }
+    }
+
+    // JSDoc sits on the variable statement for `const X = ...`
+    const docNode = ts.isVariableDeclaration(declaration.node) ? declaration.statement : declaration.node;
+
+    return {
+        name: componentName,
+        filePath,
+        kind: declaration.kind,
+        exportKind: getExportKind(sourceFile, componentName, declaration),
+        description: getJsDocDescription(docNode),
+        propsTypeName: declaration.propsType && ts.isTypeReferenceNode(declaration.propsType)
+            ? declaration.propsType.getText(sourceFile)
+            : undefined,
+        props: Array.from(props.values()),
+        unresolvedTypes,
+        hooks: collectHooks(sourceFile),
+        examples: getJsDocTagValues(docNode, 'example'),
+    };
+}
+
+function escapeTableCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Renders component documentation as markdown
+ * @param importPath Module specifier used in the usage example, e.g. "./components/Button"
+ */
+export function renderComponentDoc(doc: ComponentDoc, importPath: string): string {
+    const propsSection = doc.props.length > 0
+        ? `| Name | Type | Required | Default | Description |
+|------|------|----------|---------|-------------|
+${doc.props.map(prop =>
+            `| \`${prop.name}\` | \`${escapeTableCell(prop.type)}\` | ${prop.optional || prop.defaultValue !== undefined ? 'No' : 'Yes'} | ${prop.defaultValue !== undefined ? `\`${escapeTableCell(prop.defaultValue)}\`` : '-'} | ${escapeTableCell(prop.description ?? '')} |`
+        ).join('\n')}`
+        : 'This component does not accept any props.';
+
+    const unresolvedNote = doc.unresolvedTypes.length > 0
+        ? `\n\nAlso accepts the props of ${doc.unresolvedTypes.map(type => `\`${type}\``).join(', ')}, declared outside this file.`
+        : '';
+
+    const hooksSection = doc.hooks.length > 0
+        ? `\n## Hooks\n${doc.hooks.map(hook => `- \`${hook.signature}\`${hook.description ? ` - ${hook.description}` : ''}`).join('\n')}\n`
+        : '';
+
+    const importStatement = doc.exportKind === 'named'
+        ? `import { ${doc.name} } from '${importPath}';`
+        : `import ${doc.name} from '${importPath}';`;
+    const requiredProps = doc.props.filter(prop => !prop.optional && prop.defaultValue === undefined && prop.name !== 'children');
+    const usage = `<${doc.name}${requiredProps.map(prop => ` ${prop.name}={${getExampleValue(prop.type)}}`).join('')} />`;
+
+    const examples = doc.examples.length > 0
+        ? `\n### Examples\n${doc.examples.map(example => `\`\`\`tsx\n${example}\n\`\`\``).join('\n\n')}\n`
+        : '';
+
+    return `# ${doc.name} Component
+
+## Overview
+${doc.description ?? (doc.kind === 'function' ? 'A functional React component' : 'A class-based React component')}
+
+## Props${doc.propsTypeName ? ` (\`${doc.propsTypeName}\`)` : ''}
+${propsSection}${unresolvedNote}
+${hooksSection}
+## Usage
+\`\`\`tsx
+${importStatement}
+
+${usage}
+\`\`\`
+${examples}`;
+}
@@ -0,0 +1,101 @@
+import { getExampleValue } from './component-docs.js';
+import { analyzeProject, findProjectRoot } from './project-analysis.js';
+
+export type ComponentTestRunner = 'jest' | 'vitest';
+
+/**
+ * Chooses the runner for generated component tests: the project's own Jest or
+ * Vitest setup, else Vitest for Vite projects and Jest otherwise
+ */
+export async function detectComponentTestRunner(componentDir: string, boundary?: string): Promise<ComponentTestRunner> {
+    const projectPath = await findProjectRoot(componentDir, boundary);
+    if (!projectPath) {
+        return 'jest';
+    }
+    const analysis = await analyzeProject(projectPath, boundary);
+    if (analysis.testRunner?.name === 'vitest' || analysis.testRunner?.name === 'jest') {
+        return analysis.testRunner.name;
+    }
+    return analysis.frameworks.includes('vite') ? 'vitest' : 'jest';
+}
+
+/**
+ * The prop name of a props map key; keys may mark optional props as "label?"
+ */
+export function propName(key: string): string {
+    return key.replace(/\?$/, '');
+}
+
+/**
+ * Renders props as JSX attributes with example values, e.g. ` label={'example'} count={0}`
+ */
+function exampleAttributes(props: Record<string, string>): string {
+    return Object.entries(props)
+        .map(([key, type]) => ` ${propName(key)}={${getExampleValue(type)}}`)
+        .join('');
+}
+
+/**
+ * A React Testing Library smoke test that renders the component with example props
+ */
+export function renderComponentTest(name: string, props: Record<string, string>, runner: ComponentTestRunner): string {
+    return `${runner === 'vitest' ? "import { describe, expect, it } from 'vitest';\n" : ''}import { render } from '@testing-library/react';
+import ${name} from './${name}';
+
+describe('${name}', () => {
+    it('renders', () => {
+        const { container } = render(<${name}${exampleAttributes(props)} />);
+        expect(container.firstChild).not.toBeNull();
+    });
+});
+`;
+}
+
+/**
+ * A Storybook Component Story Format 3 story with args derived from the prop types
+ */
+export function renderComponentStory(name: string, props: Record<string, string>): string {
+    const args = Object.entries(props)
+        .map(([key, type]) => `\n        ${propName(key)}: ${getExampleValue(type)},`)
+        .join('');
+
+    return `import type { Meta, StoryObj } from '@storybook/react';
+import ${name} from './${name}';
+
+const meta = {
+    title: 'Components/${name}',
+    component: ${name},${args ? `\n    args: {${args}\n    },` : ''}
+} satisfies Meta<typeof ${name}>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+export const Default: Story = {};
+`;
+}
+
+/**
+ * A CSS module with the root class the generated component uses
+ */
+export function renderCssModule(): string {
+    return `.root {
+}
+`;
+}
+
+/**
+ * A barrel file re-exporting the component as default and by name. An existing barrel
+ * keeps its contents and only gains the named export, as it may already have a default.
+ */
+export function renderComponentBarrel(name: string, existing: string | null = null): string {
+    if (existing === null) {
+        return `export { default } from './${name}';
+export { default as ${name} } from './${name}';
+`;
+    }
+    if (new RegExp(`\\bexport\\s*\\{[^}]*\\b${name}\\b[^}]*\\}`).test(existing)) {
+        return existing;
+    }
+    const line = `export { default as ${name} } from './${name}';\n`;
+    return existing.trim() ? `${existing.trimEnd()}\n${line}` : line;
+}
@@ -0,0 +1,265 @@
+import { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { createHash } from 'crypto';
+import * as os from 'os';
+import * as path from 'path';
+import { isLogLevel, LOG_LEVELS } from './logger.js';
+
+export type TransportMode = 'stdio' | 'http';
+
+export const TRANSPORT_MODES: TransportMode[] = ['stdio', 'http'];
+
+/**
+ * Runtime configuration for the server, assembled from CLI arguments and environment variables
+ */
+export interface ServerConfig {
+    /** Directories that tools are allowed to read from and write to */
+    allowedRoots: string[];
+    /** Directories searched for user-defined project and component templates */
+    templateDirs: string[];
+    /** npm registry URL, or a directory of package metadata JSON files, for version lookups */
+    registry: string;
+    /**
+     * Advisory source: a bulk advisory endpoint URL or a JSON file in the same format.
+     * Defaults to the registry's own endpoint.
+     */
+    advisories?: string;
+    /** JSON file persisting the documentation index */
+    docsIndex: string;
+    /** JSON file listing external tool plugins to load */
+    plugins?: string;
+    /** stdio serves the one client that started the server; http serves any number of clients */
+    transport: TransportMode;
+    /** Interface the HTTP transport binds to */
+    host: string;
+    /** Port the HTTP transport listens on; 0 picks a free one */
+    port: number;
+    /** Bearer token HTTP clients must send; without one only loopback hosts may be bound */
+    authToken?: string;
+    /** Minimum level of log entries written to stderr, and sent to clients until they set their own */
+    logLevel: LoggingLevel;
+    /** JSON lines file every tool call is appended to */
+    auditLog: string;
+}
+
+/**
+ * Environment variable holding allowed workspace roots, separated by the platform path delimiter
+ */
+export const ALLOWED_ROOTS_ENV = 'OMNIBUS_ALLOWED_ROOTS';
+
+/**
+ * Environment variable holding template directories, separated by the platform path delimiter
+ */
+export const TEMPLATE_DIRS_ENV = 'OMNIBUS_TEMPLATE_DIRS';
+
+/**
+ * Environment variable holding the registry URL or metadata directory
+ */
+export const REGISTRY_ENV = 'OMNIBUS_REGISTRY';
+
+/**
+ * Environment variable holding the advisory endpoint URL or file
+ */
+export const ADVISORIES_ENV = 'OMNIBUS_ADVISORIES';
+
+/**
+ * Environment variable holding the documentation index file
+ */
+export const DOCS_INDEX_ENV = 'OMNIBUS_DOCS_INDEX';
+
+/**
+ * Environment variable holding the plugins config file
+ */
+export const PLUGINS_ENV = 'OMNIBUS_PLUGINS';
+
+/**
+ * Environment variables selecting and configuring the transport
+ */
+export const TRANSPORT_ENV = 'OMNIBUS_TRANSPORT';
+export const HOST_ENV = 'OMNIBUS_HOST';
+export const PORT_ENV = 'OMNIBUS_PORT';
+
+/**
+ * Environment variable holding the HTTP bearer token. There is no flag for it, so the
+ * token never shows up in process listings.
+ */
+export const AUTH_TOKEN_ENV = 'OMNIBUS_AUTH_TOKEN';
+
+/**
+ * Environment variable holding the minimum log level
+ */
+export const LOG_LEVEL_ENV = 'OMNIBUS_LOG_LEVEL';
+
+/**
+ * Environment variable holding the audit log file
+ */
+export const AUDIT_LOG_ENV = 'OMNIBUS_AUDIT_LOG';
+
+export const DEFAULT_REGISTRY = 'https://registry.npmjs.org';
+
+/**
+ * Template directory looked up in every allowed root when none is configured
+ */
+export const DEFAULT_TEMPLATE_DIR = path.join('.omnibus', 'templates');
+
+/**
+ * Documentation index in the state directory when none is configured
+ */
+export const DEFAULT_DOCS_INDEX = 'docs-index.json';
+
+/**
+ * Audit log in the state directory when none is configured
+ */
+export const DEFAULT_AUDIT_LOG = 'audit.jsonl';
+
+export const DEFAULT_HOST = '127.0.0.1';
+export const DEFAULT_PORT = 3000;
+
+/**
+ * Collects the values of a repeatable `--flag <value>` / `--flag=<value>` argument
+ */
+function readRepeatedFlag(argv: string[], flag: string): string[] {
+    const values: string[] = [];
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === flag) {
+            const value = argv[++i];
+            if (!value) {
+                throw new Error(`${flag} requires an argument`);
+            }
+            values.push(value);
+        } else if (arg.startsWith(`${flag}=`)) {
+            values.push(arg.slice(flag.length + 1));
+        }
+    }
+    return values;
+}
+
+/**
+ * Whether a registry or advisory source is a URL rather than a local path
+ */
+export function isUrl(source: string): boolean {
+    return /^https?:\/\//i.test(source);
+}
+
+/**
+ * Whether a host name or address only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+    return host === 'localhost' || host === '::1' || host === '[::1]' || /^127(\.\d{1,3}){3}$/.test(host);
+}
+
+function resolveSource(source: string): string {
+    return isUrl(source) ? source : path.resolve(source);
+}
+
+/**
+ * Directory for files the server keeps about a set of roots, outside every root so tools
+ * cannot write to them: `node-omnibus-server/<root name>-<hash of the roots>` under
+ * XDG_STATE_HOME (default ~/.local/state), or LOCALAPPDATA on Windows
+ */
+export function stateDirectory(allowedRoots: string[], env: NodeJS.ProcessEnv = process.env): string {
+    const home = os.homedir();
+    const base = env.XDG_STATE_HOME
+        || (process.platform === 'win32' ? env.LOCALAPPDATA : undefined)
+        || (home ? path.join(home, '.local', 'state') : os.tmpdir());
+    const hash = createHash('sha256').update(allowedRoots.join('\0')).digest('hex').slice(0, 12);
+    return path.join(base, 'node-omnibus-server', `${path.basename(allowedRoots[0]) || 'root'}-${hash}`);
+}
+
+function readPathList(env: NodeJS.ProcessEnv, name: string): string[] {
+    return env[name]?.split(path.delimiter).filter(Boolean) ?? [];
+}
+
+/**
+ * Builds the server configuration.
+ *
+ * Allowed roots come from repeated `--root <dir>` / `--root=<dir>` arguments, then from
+ * OMNIBUS_ALLOWED_ROOTS. When neither is given the current working directory is used.
+ *
+ * Template directories come from repeated `--templates <dir>` arguments, then from
+ * OMNIBUS_TEMPLATE_DIRS, defaulting to `.omnibus/templates` in each allowed root.
+ *
+ * The registry comes from `--registry <url|dir>`, then OMNIBUS_REGISTRY, defaulting to
+ * the public npm registry; the advisory source from `--advisories <url|file>`, then
+ * OMNIBUS_ADVISORIES. Local paths let audits run against fixtures without network access.
+ *
+ * The documentation index comes from `--docs-index <file>`, then OMNIBUS_DOCS_INDEX,
+ * defaulting to `docs-index.json` in the state directory.
+ *
+ * The plugins config file comes from `--plugins <file>`, then OMNIBUS_PLUGINS. There is no
+ * default: plugins run with the server's permissions, so loading them is always explicit.
+ *
+ * The transport comes from `--transport <stdio|http>`, then OMNIBUS_TRANSPORT, defaulting to
+ * stdio. HTTP binds `--host`/OMNIBUS_HOST (default 127.0.0.1) and `--port`/OMNIBUS_PORT
+ * (default 3000), and requires OMNIBUS_AUTH_TOKEN when the host is not a loopback address.
+ *
+ * The log level comes from `--log-level <level>`, then OMNIBUS_LOG_LEVEL, defaulting to info.
+ * The audit log comes from `--audit-log <file>`, then OMNIBUS_AUDIT_LOG, defaulting to
+ * `audit.jsonl` in the state directory.
+ * @throws Error for a flag without a value, an unknown transport or log level, an invalid
+ * port, or a non-loopback host without a token
+ */
+export function loadConfig(
+    argv: string[] = process.argv.slice(2),
+    env: NodeJS.ProcessEnv = process.env
+): ServerConfig {
+    let roots = readRepeatedFlag(argv, '--root');
+    if (roots.length === 0) {
+        roots = readPathList(env, ALLOWED_ROOTS_ENV);
+    }
+    if (roots.length === 0) {
+        roots.push(process.cwd());
+    }
+    const allowedRoots = roots.map(root => path.resolve(root));
+
+    let templateDirs = readRepeatedFlag(argv, '--templates');
+    if (templateDirs.length === 0) {
+        templateDirs = readPathList(env, TEMPLATE_DIRS_ENV);
+    }
+    if (templateDirs.length === 0) {
+        templateDirs = allowedRoots.map(root => path.join(root, DEFAULT_TEMPLATE_DIR));
+    }
+
+    const registry = readRepeatedFlag(argv, '--registry').pop() ?? env[REGISTRY_ENV] ?? DEFAULT_REGISTRY;
+    const advisories = readRepeatedFlag(argv, '--advisories').pop() ?? env[ADVISORIES_ENV];
+    const docsIndex = readRepeatedFlag(argv, '--docs-index').pop() ?? env[DOCS_INDEX_ENV]
+        ?? path.join(stateDirectory(allowedRoots, env), DEFAULT_DOCS_INDEX);
+    const plugins = readRepeatedFlag(argv, '--plugins').pop() ?? env[PLUGINS_ENV];
+
+    const transport = readRepeatedFlag(argv, '--transport').pop() ?? env[TRANSPORT_ENV] ?? 'stdio';
+    if (!TRANSPORT_MODES.includes(transport as TransportMode)) {
+        throw new Error(`Unknown transport ${transport}; expected one of: ${TRANSPORT_MODES.join(', ')}`);
+    }
+    const host = readRepeatedFlag(argv, '--host').pop() ?? env[HOST_ENV] ?? DEFAULT_HOST;
+    const portValue = readRepeatedFlag(argv, '--port').pop() ?? env[PORT_ENV] ?? String(DEFAULT_PORT);
+    const port = Number(portValue);
+    if (!/^\d+$/.test(portValue) || port > 65535) {
+        throw new Error(`Invalid port ${portValue}; expected a number from 0 to 65535`);
+    }
+    const authToken = env[AUTH_TOKEN_ENV] || undefined;
+    if (transport === 'http' && !authToken && !isLoopbackHost(host)) {
+        throw new Error(`Set ${AUTH_TOKEN_ENV} to serve HTTP on ${host}; without a token only loopback hosts can be bound`);
+    }
+
+    const logLevel = readRepeatedFlag(argv, '--log-level').pop() ?? env[LOG_LEVEL_ENV] ?? 'info';
+    if (!isLogLevel(logLevel)) {
+        throw new Error(`Unknown log level ${logLevel}; expected one of: ${LOG_LEVELS.join(', ')}`);
+    }
+    const auditLog = readRepeatedFlag(argv, '--audit-log').pop() ?? env[AUDIT_LOG_ENV]
+        ?? path.join(stateDirectory(allowedRoots, env), DEFAULT_AUDIT_LOG);
+
+    return {
+        allowedRoots,
+        templateDirs: templateDirs.map(dir => path.resolve(dir)),
+        registry: resolveSource(registry),
+        advisories: advisories ? resolveSource(advisories) : undefined,
+        docsIndex: path.resolve(docsIndex),
+        plugins: plugins ? path.resolve(plugins) : undefined,
+        transport: transport as TransportMode,
+        host,
+        port,
+        authToken,
+        logLevel,
+        auditLog: path.resolve(auditLog),
+    };
+}
@@ -0,0 +1,744 @@
+import axios from 'axios';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import semver from 'semver';
+import { isUrl } from './config.js';
+import { LOCKFILE_NAMES } from './package-manager.js';
+
+export type AuditCheck = 'outdated' | 'duplicates' | 'peers' | 'vulnerabilities';
+
+export const AUDIT_CHECKS: AuditCheck[] = ['outdated', 'duplicates', 'peers', 'vulnerabilities'];
+
+export type DependencyType = 'dependencies' | 'devDependencies' | 'optionalDependencies';
+
+export type Severity = 'critical' | 'high' | 'moderate' | 'low' | 'info';
+
+const SEVERITIES: Severity[] = ['critical', 'high', 'moderate', 'low', 'info'];
+
+export interface InstalledPackage {
+    name: string;
+    version: string;
+    /** Install location such as `node_modules/a/node_modules/b`, when the lockfile records it */
+    location?: string;
+    /** Only needed by devDependencies */
+    dev?: boolean;
+    peerDependencies?: Record<string, string>;
+    optionalPeers?: string[];
+}
+
+export interface DependencyTree {
+    /** Lockfile the tree was read from; node_modules is scanned when there is none */
+    lockfile?: string;
+    /** Directory install locations are relative to */
+    root: string;
+    packages: InstalledPackage[];
+    /** Resolved versions by `name@range`, for lockfiles that record them (yarn) */
+    resolutions: Map<string, string>;
+}
+
+export interface OutdatedPackage {
+    name: string;
+    type: DependencyType;
+    range: string;
+    /** Installed version; missing when the package is not installed */
+    current?: string;
+    /** Highest version satisfying the declared range */
+    wanted?: string;
+    latest?: string;
+}
+
+export interface DuplicatePackage {
+    name: string;
+    versions: { version: string; locations: string[] }[];
+}
+
+export interface PeerConflict {
+    /** The package declaring the peer dependency, as name@version */
+    package: string;
+    peer: string;
+    range: string;
+    installed?: string;
+    problem: 'missing' | 'incompatible';
+}
+
+export interface Vulnerability {
+    name: string;
+    severity: Severity;
+    title: string;
+    url?: string;
+    vulnerableVersions: string;
+    /** Installed versions the advisory applies to */
+    installed: string[];
+}
+
+export interface DependencyAudit {
+    path: string;
+    lockfile?: string;
+    registry: string;
+    outdated?: OutdatedPackage[];
+    duplicates?: DuplicatePackage[];
+    peerConflicts?: PeerConflict[];
+    vulnerabilities?: Vulnerability[];
+    summary: {
+        outdated?: number;
+        duplicates?: number;
+        peerConflicts?: number;
+        vulnerabilities?: Partial<Record<Severity, number>>;
+    };
+    /** Lookups that failed; the rest of the report is still valid */
+    errors: string[];
+}
+
+export interface AuditSources {
+    /** Registry URL, or a directory holding `<name>.json` metadata files */
+    registry: string;
+    /**
+     * Bulk advisory endpoint URL or JSON file. Defaults to the registry's endpoint, or
+     * `advisories.json` in a registry directory.
+     */
+    advisories?: string;
+}
+
+export interface AuditOptions {
+    checks?: AuditCheck[];
+    /** Include devDependencies (default true) */
+    includeDev?: boolean;
+    /** Directory the lockfile search stops at, usually the allowed root containing the project */
+    boundary?: string;
+}
+
+interface PackageJson {
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+    optionalDependencies?: Record<string, string>;
+    peerDependencies?: Record<string, string>;
+    peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+}
+
+interface PackageLockEntry {
+    name?: string;
+    version?: string;
+    link?: boolean;
+    dev?: boolean;
+    peerDependencies?: Record<string, string>;
+    peerDependenciesMeta?: Record<string, { optional?: boolean }>;
+}
+
+// Lockfile v1 nests dependencies instead of listing install locations
+interface PackageLockV1Entry {
+    version?: string;
+    dev?: boolean;
+    dependencies?: Record<string, PackageLockV1Entry>;
+}
+
+interface PackageLock {
+    packages?: Record<string, PackageLockEntry>;
+    dependencies?: Record<string, PackageLockV1Entry>;
+}
+
+interface Packument {
+    versions: string[];
+    distTags: Record<string, string>;
+}
+
+interface Advisory {
+    title: string;
+    severity: Severity;
+    url?: string;
+    vulnerable_versions: string;
+}
+
+const REQUEST_TIMEOUT_MS = 30000;
+const REGISTRY_CONCURRENCY = 8;
+
+async function readJson<T>(filePath: string): Promise<T> {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+function optionalPeers(meta: PackageJson['peerDependenciesMeta']): string[] | undefined {
+    const optional = Object.entries(meta ?? {}).filter(([, value]) => value?.optional).map(([name]) => name);
+    return optional.length > 0 ? optional : undefined;
+}
+
+/**
+ * Reads installed packages from a package-lock.json or npm-shrinkwrap.json (v1 to v3)
+ */
+function parsePackageLock(lock: PackageLock): InstalledPackage[] {
+    const packages: InstalledPackage[] = [];
+    if (lock.packages) {
+        for (const [location, entry] of Object.entries(lock.packages)) {
+            // Skip the root, workspace sources and links to them
+            const marker = location.lastIndexOf('node_modules/');
+            if (marker === -1 || entry.link || !entry.version) {
+                continue;
+            }
+            packages.push({
+                name: entry.name ?? location.slice(marker + 'node_modules/'.length),
+                version: entry.version,
+                location,
+                dev: entry.dev,
+                peerDependencies: entry.peerDependencies,
+                optionalPeers: optionalPeers(entry.peerDependenciesMeta),
+            });
+        }
+        return packages;
+    }
+
+    const walk = (dependencies: Record<string, PackageLockV1Entry> | undefined, prefix: string) => {
+        for (const [name, entry] of Object.entries(dependencies ?? {})) {
+            const location = `${prefix}node_modules/${name}`;
+            if (entry.version && semver.valid(entry.version)) {
+                packages.push({ name, version: entry.version, location, dev: entry.dev });
+            }
+            walk(entry.dependencies, `${location}/`);
+        }
+    };
+    walk(lock.dependencies, '');
+    return packages;
+}
+
+function unquote(value: string): string {
+    return value.trim().replace(/^(['"])(.*)\1$/, '$2');
+}
+
+/**
+ * Reads `key: value` entries nested under `section:` in a YAML-like lockfile block
+ */
+function readSection(block: string, section: string): Record<string, string> {
+    const lines = block.split('\n');
+    const start = lines.findIndex(line => line.trim() === `${section}:`);
+    if (start === -1) {
+        return {};
+    }
+    const indent = lines[start].search(/\S/);
+    const entries: Record<string, string> = {};
+    for (const line of lines.slice(start + 1)) {
+        if (line.trim() === '') continue;
+        if (line.search(/\S/) <= indent) break;
+        const match = /^\s+((?:"[^"]+")|(?:'[^']+')|[^\s:]+):?\s+(.+)$/.exec(line);
+        if (match) {
+            entries[unquote(match[1])] = unquote(match[2]);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Names marked `optional: true` under `peerDependenciesMeta:` in a YAML-like block
+ */
+function readOptionalPeers(block: string): string[] | undefined {
+    const meta = /^(\s*)peerDependenciesMeta:\s*\n((?:\1\s+.*\n?)*)/m.exec(block);
+    if (!meta) {
+        return undefined;
+    }
+    const optional = Array.from(meta[2].matchAll(/^\s+((?:"[^"]+")|(?:'[^']+')|[^\s:]+):\s*\n\s+optional:\s*true/gm), match => unquote(match[1]));
+    return optional.length > 0 ? optional : undefined;
+}
+
+function splitSpec(spec: string): [string, string] {
+    const at = spec.indexOf('@', spec.startsWith('@') ? 1 : 0);
+    return at === -1 ? [spec, ''] : [spec.slice(0, at), spec.slice(at + 1)];
+}
+
+/**
+ * Reads a yarn.lock, classic (v1) or Berry
+ */
+function parseYarnLock(text: string): { packages: InstalledPackage[]; resolutions: Map<string, string> } {
+    const packages: InstalledPackage[] = [];
+    const resolutions = new Map<string, string>();
+    const seen = new Set<string>();
+
+    for (const block of text.split(/\n(?=[^\s#])/)) {
+        const header = block.split('\n')[0];
+        // Workspace packages are linked (Berry's linkType: soft), not installed
+        if (!header.endsWith(':') || header.startsWith('__metadata') || /^\s+linkType:\s*soft/m.test(block)) {
+            continue;
+        }
+        const version = /^\s+version:?\s+"?([^"\s]+)"?/m.exec(block)?.[1];
+        if (!version || !semver.valid(version)) {
+            continue;
+        }
+        const specs = header.slice(0, -1).split(/,\s*/).map(spec => spec.trim().replace(/^"|"$/g, ''));
+        const name = splitSpec(specs[0])[0];
+        for (const spec of specs) {
+            const [specName, range] = splitSpec(spec);
+            resolutions.set(`${specName}@${range.replace(/^npm:/, '')}`, version);
+        }
+        if (seen.has(`${name}@${version}`)) {
+            continue;
+        }
+        seen.add(`${name}@${version}`);
+        const peers = readSection(block, 'peerDependencies');
+        packages.push({
+            name,
+            version,
+            peerDependencies: Object.keys(peers).length > 0 ? peers : undefined,
+            optionalPeers: readOptionalPeers(block),
+        });
+    }
+    return { packages, resolutions };
+}
+
+/**
+ * Reads the `packages:` section of a pnpm-lock.yaml (lockfile v5 to v9)
+ */
+function parsePnpmLock(text: string): InstalledPackage[] {
+    const section = /^packages:\s*\n([\s\S]*?)(?=^\S|(?![\s\S]))/m.exec(text)?.[1] ?? '';
+    const packages: InstalledPackage[] = [];
+    const seen = new Set<string>();
+
+    for (const block of section.split(/\n(?=  \S)/)) {
+        const header = block.split('\n')[0].trim();
+        if (!header.endsWith(':')) {
+            continue;
+        }
+        // Keys look like /name/1.0.0_peer (v5), /name@1.0.0(peer) (v6) or name@1.0.0 (v9)
+        const key = unquote(header.slice(0, -1)).replace(/^\//, '').replace(/\(.*$/, '');
+        const v6 = /^(@[^/]+\/[^@]+|[^@]+)@(.+)$/.exec(key);
+        const [name, version] = v6
+            ? [v6[1], v6[2]]
+            : [key.slice(0, key.lastIndexOf('/')), key.slice(key.lastIndexOf('/') + 1).replace(/_.*$/, '')];
+        if (!semver.valid(version) || seen.has(`${name}@${version}`)) {
+            continue;
+        }
+        seen.add(`${name}@${version}`);
+        const peers = readSection(block, 'peerDependencies');
+        packages.push({
+            name,
+            version,
+            dev: /^\s+dev:\s*true/m.test(block) || undefined,
+            peerDependencies: Object.keys(peers).length > 0 ? peers : undefined,
+            optionalPeers: readOptionalPeers(block),
+        });
+    }
+    return packages;
+}
+
+/**
+ * Lists installed packages by reading package.json files under node_modules
+ */
+async function scanNodeModules(root: string): Promise<InstalledPackage[]> {
+    const packages: InstalledPackage[] = [];
+    const visit = async (relativeDir: string, depth: number) => {
+        const dir = path.join(root, relativeDir, 'node_modules');
+        let entries: string[];
+        try {
+            entries = await fs.readdir(dir);
+        } catch {
+            return;
+        }
+        const names: string[] = [];
+        for (const entry of entries) {
+            if (entry.startsWith('.')) continue;
+            if (entry.startsWith('@')) {
+                const scoped = await fs.readdir(path.join(dir, entry)).catch(() => [] as string[]);
+                names.push(...scoped.map(child => `${entry}/${child}`));
+            } else {
+                names.push(entry);
+            }
+        }
+        for (const name of names) {
+            const location = path.posix.join(relativeDir, 'node_modules', name);
+            try {
+                const manifest = await readJson<PackageJson & { version?: string }>(path.join(root, location, 'package.json'));
+                if (manifest.version) {
+                    packages.push({
+                        name,
+                        version: manifest.version,
+                        location,
+                        peerDependencies: manifest.peerDependencies,
+                        optionalPeers: optionalPeers(manifest.peerDependenciesMeta),
+                    });
+                }
+            } catch {
+                continue;
+            }
+            if (depth < 10) {
+                await visit(location, depth + 1);
+            }
+        }
+    };
+    await visit('', 0);
+    return packages;
+}
+
+/**
+ * Finds the nearest lockfile at or above the project directory, up to `boundary`
+ */
+async function findLockfile(projectPath: string, boundary?: string): Promise<string | undefined> {
+    for (let current = path.resolve(projectPath); ; current = path.dirname(current)) {
+        for (const name of LOCKFILE_NAMES) {
+            if (await exists(path.join(current, name))) {
+                return path.join(current, name);
+            }
+        }
+        if (path.dirname(current) === current || current === boundary) {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Reads the installed dependency tree from the project's lockfile (npm, yarn or pnpm),
+ * or from node_modules when there is no lockfile or it is bun's binary format
+ * @param boundary Directory the lockfile search stops at, usually the allowed root containing the project
+ */
+export async function readDependencyTree(projectPath: string, boundary?: string): Promise<DependencyTree> {
+    const lockfile = await findLockfile(projectPath, boundary);
+    const name = lockfile ? path.basename(lockfile) : undefined;
+    const root = lockfile ? path.dirname(lockfile) : projectPath;
+    const tree: DependencyTree = { lockfile, root, packages: [], resolutions: new Map() };
+
+    if (name === 'package-lock.json' || name === 'npm-shrinkwrap.json') {
+        tree.packages = parsePackageLock(await readJson<PackageLock>(lockfile!));
+    } else if (name === 'yarn.lock') {
+        Object.assign(tree, parseYarnLock(await fs.readFile(lockfile!, 'utf-8')));
+    } else if (name === 'pnpm-lock.yaml') {
+        tree.packages = parsePnpmLock(await fs.readFile(lockfile!, 'utf-8'));
+    } else {
+        tree.lockfile = undefined;
+        tree.packages = await scanNodeModules(projectPath);
+        tree.root = projectPath;
+    }
+    return tree;
+}
+
+/**
+ * The next directory Node searches for node_modules: out of the enclosing
+ * `node_modules/<name>`, or up one directory inside a workspace
+ */
+function parentLocation(location: string): string {
+    const nested = location.lastIndexOf('/node_modules/');
+    if (nested !== -1) {
+        return location.slice(0, nested);
+    }
+    if (location.startsWith('node_modules/')) {
+        return '';
+    }
+    const parent = path.posix.dirname(location);
+    return parent === '.' ? '' : parent;
+}
+
+/**
+ * Finds the version of `name` visible from an install location, following Node's lookup
+ * through parent node_modules directories. Without locations, falls back to yarn's
+ * recorded resolutions, node_modules on disk, then a single installed version.
+ */
+export async function resolveInstalled(
+    tree: DependencyTree,
+    name: string,
+    fromLocation: string,
+    range?: string
+): Promise<string | undefined> {
+    const installed = tree.packages.filter(pkg => pkg.name === name);
+    if (installed.some(pkg => pkg.location !== undefined)) {
+        for (let dir = fromLocation; ; dir = parentLocation(dir)) {
+            const found = installed.find(pkg => pkg.location === path.posix.join(dir, 'node_modules', name));
+            if (found) {
+                return found.version;
+            }
+            if (dir === '') {
+                return undefined;
+            }
+        }
+    }
+    if (range && tree.resolutions.has(`${name}@${range}`)) {
+        return tree.resolutions.get(`${name}@${range}`);
+    }
+    try {
+        const manifest = await readJson<{ version?: string }>(path.join(tree.root, fromLocation, 'node_modules', name, 'package.json'));
+        if (manifest.version) {
+            return manifest.version;
+        }
+    } catch {
+        // Not on disk
+    }
+    const versions = new Set(installed.map(pkg => pkg.version));
+    return versions.size === 1 ? [...versions][0] : undefined;
+}
+
+/**
+ * Fetches package metadata and advisories from a registry URL or a local fixture
+ */
+export class RegistryClient {
+    constructor(private readonly sources: AuditSources) {}
+
+    /**
+     * @throws Error when the package cannot be fetched
+     */
+    async getPackument(name: string): Promise<Packument> {
+        let data: { versions?: Record<string, unknown>; 'dist-tags'?: Record<string, string> };
+        if (isUrl(this.sources.registry)) {
+            const url = `${this.sources.registry.replace(/\/$/, '')}/${name.replace('/', '%2f')}`;
+            const response = await axios.get(url, {
+                timeout: REQUEST_TIMEOUT_MS,
+                headers: { Accept: 'application/vnd.npm.install-v1+json; q=1.0, application/json; q=0.8' },
+            });
+            data = response.data;
+        } else {
+            data = await readJson(path.join(this.sources.registry, `${name}.json`));
+        }
+        return { versions: Object.keys(data.versions ?? {}), distTags: data['dist-tags'] ?? {} };
+    }
+
+    /**
+     * Looks up advisories for the given versions, keeping those that apply to them
+     * @throws Error when the advisory source cannot be read
+     */
+    async getAdvisories(versions: Record<string, string[]>): Promise<Record<string, Advisory[]>> {
+        const source = this.sources.advisories ?? (isUrl(this.sources.registry)
+            ? `${this.sources.registry.replace(/\/$/, '')}/-/npm/v1/security/advisories/bulk`
+            : path.join(this.sources.registry, 'advisories.json'));
+
+        let advisories: Record<string, Advisory[]>;
+        if (isUrl(source)) {
+            const response = await axios.post(source, versions, { timeout: REQUEST_TIMEOUT_MS });
+            advisories = response.data;
+        } else {
+            advisories = await readJson(source);
+        }
+
+        const applicable: Record<string, Advisory[]> = {};
+        for (const name of Object.keys(versions)) {
+            const matching = (advisories[name] ?? []).filter(advisory =>
+                versions[name].some(version => semver.satisfies(version, advisory.vulnerable_versions)));
+            if (matching.length > 0) {
+                applicable[name] = matching;
+            }
+        }
+        return applicable;
+    }
+}
+
+function errorMessage(error: unknown): string {
+    if (axios.isAxiosError(error) && error.response) {
+        return `${error.response.status} ${error.response.statusText} from ${error.config?.url}`;
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+async function findOutdated(
+    packageJson: PackageJson,
+    tree: DependencyTree,
+    projectLocation: string,
+    client: RegistryClient,
+    includeDev: boolean,
+    errors: string[]
+): Promise<OutdatedPackage[]> {
+    const types: DependencyType[] = includeDev
+        ? ['dependencies', 'devDependencies', 'optionalDependencies']
+        : ['dependencies', 'optionalDependencies'];
+    const declared = types.flatMap(type =>
+        Object.entries(packageJson[type] ?? {}).map(([name, range]) => ({ name, range, type })));
+
+    const results = await mapWithConcurrency(declared, REGISTRY_CONCURRENCY, async ({ name, range, type }): Promise<OutdatedPackage | undefined> => {
+        // npm:real-name@range aliases are looked up under the real name
+        const alias = /^npm:(@?[^@]+)@?(.*)$/.exec(range);
+        const registryName = alias ? alias[1] : name;
+        const registryRange = alias ? alias[2] || '*' : range;
+        if (!semver.validRange(registryRange) && !/^[a-z][\w.-]*$/i.test(registryRange)) {
+            // git, file:, link: and workspace: specifiers have no registry versions
+            return undefined;
+        }
+
+        let packument: Packument;
+        try {
+            packument = await client.getPackument(registryName);
+        } catch (error) {
+            errors.push(`Cannot fetch ${registryName}: ${errorMessage(error)}`);
+            return undefined;
+        }
+        const current = await resolveInstalled(tree, name, projectLocation, range);
+        const wanted = semver.validRange(registryRange)
+            ? semver.maxSatisfying(packument.versions, registryRange) ?? undefined
+            : packument.distTags[registryRange];
+        const latest = packument.distTags.latest;
+        if (current && current === wanted && current === latest) {
+            return undefined;
+        }
+        return { name, type, range, current, wanted, latest };
+    });
+    return results.filter((result): result is OutdatedPackage => result !== undefined);
+}
+
+/**
+ * Orders versions by semver precedence. Versions of file: or git sources are not
+ * semver; they sort after the others, by name.
+ */
+function compareVersions(a: string, b: string): number {
+    const validA = semver.valid(a) !== null;
+    const validB = semver.valid(b) !== null;
+    if (validA && validB) {
+        return semver.compare(a, b);
+    }
+    if (validA !== validB) {
+        return validA ? -1 : 1;
+    }
+    return a.localeCompare(b);
+}
+
+function findDuplicates(packages: InstalledPackage[]): DuplicatePackage[] {
+    const byName = new Map<string, Map<string, string[]>>();
+    for (const pkg of packages) {
+        const versions = byName.get(pkg.name) ?? new Map<string, string[]>();
+        versions.set(pkg.version, [...versions.get(pkg.version) ?? [], ...pkg.location ? [pkg.location] : []]);
+        byName.set(pkg.name, versions);
+    }
+    return Array.from(byName.entries())
+        .filter(([, versions]) => versions.size > 1)
+        .map(([name, versions]) => ({
+            name,
+            versions: Array.from(versions.entries())
+                .sort(([a], [b]) => compareVersions(a, b))
+                .map(([version, locations]) => ({ version, locations })),
+        }))
+        .sort((a, b) => b.versions.length - a.versions.length || a.name.localeCompare(b.name));
+}
+
+/**
+ * Fills in peer dependencies from installed package.json files, for lockfiles that
+ * do not record them (yarn classic, npm v1)
+ */
+async function readPeersFromNodeModules(tree: DependencyTree): Promise<void> {
+    for (const pkg of tree.packages) {
+        const location = pkg.location ?? path.posix.join('node_modules', pkg.name);
+        try {
+            const manifest = await readJson<PackageJson & { version?: string }>(path.join(tree.root, location, 'package.json'));
+            if (manifest.version === pkg.version) {
+                pkg.peerDependencies = manifest.peerDependencies;
+                pkg.optionalPeers = optionalPeers(manifest.peerDependenciesMeta);
+            }
+        } catch {
+            continue;
+        }
+    }
+}
+
+/**
+ * Checks the peer dependencies of `declarers` against the versions installed in `tree`
+ */
+async function findPeerConflicts(tree: DependencyTree, declarers: InstalledPackage[]): Promise<PeerConflict[]> {
+    const conflicts: PeerConflict[] = [];
+    for (const pkg of declarers) {
+        for (const [peer, range] of Object.entries(pkg.peerDependencies ?? {})) {
+            if (!semver.validRange(range)) {
+                continue;
+            }
+            const installed = await resolveInstalled(tree, peer, pkg.location ?? '');
+            if (!installed) {
+                if (!pkg.optionalPeers?.includes(peer)) {
+                    conflicts.push({ package: `${pkg.name}@${pkg.version}`, peer, range, problem: 'missing' });
+                }
+            } else if (!semver.satisfies(installed, range, { includePrerelease: true })) {
+                conflicts.push({ package: `${pkg.name}@${pkg.version}`, peer, range, installed, problem: 'incompatible' });
+            }
+        }
+    }
+    // The same package can be installed in several places
+    const unique = new Map(conflicts.map(conflict => [JSON.stringify(conflict), conflict]));
+    return Array.from(unique.values());
+}
+
+async function findVulnerabilities(packages: InstalledPackage[], client: RegistryClient): Promise<Vulnerability[]> {
+    const versions: Record<string, string[]> = {};
+    for (const pkg of packages) {
+        versions[pkg.name] = Array.from(new Set([...versions[pkg.name] ?? [], pkg.version]));
+    }
+
+    const advisories = await client.getAdvisories(versions);
+    return Object.entries(advisories)
+        .flatMap(([name, list]) => list.map(advisory => ({
+            name,
+            severity: SEVERITIES.includes(advisory.severity) ? advisory.severity : 'info',
+            title: advisory.title,
+            url: advisory.url,
+            vulnerableVersions: advisory.vulnerable_versions,
+            installed: versions[name].filter(version => semver.satisfies(version, advisory.vulnerable_versions)),
+        })))
+        .sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Audits a project's dependencies: outdated direct dependencies (current, wanted and
+ * latest), packages installed in several versions, unmet peer dependencies, and known
+ * vulnerabilities in the installed tree
+ * @throws Error when the directory has no readable package.json
+ */
+export async function auditDependencies(
+    projectPath: string,
+    sources: AuditSources,
+    options: AuditOptions = {}
+): Promise<DependencyAudit> {
+    const packageJson = await readJson<PackageJson>(path.join(projectPath, 'package.json'));
+    const checks = options.checks ?? AUDIT_CHECKS;
+    const includeDev = options.includeDev ?? true;
+    const client = new RegistryClient(sources);
+    const tree = await readDependencyTree(projectPath, options.boundary);
+    const packages = includeDev ? tree.packages : tree.packages.filter(pkg => !pkg.dev);
+    const projectLocation = path.relative(tree.root, projectPath).split(path.sep).join('/');
+
+    const audit: DependencyAudit = {
+        path: projectPath,
+        lockfile: tree.lockfile,
+        registry: sources.registry,
+        summary: {},
+        errors: [],
+    };
+    if (!tree.lockfile) {
+        audit.errors.push('No lockfile found; the installed tree was read from node_modules');
+    }
+
+    if (checks.includes('outdated')) {
+        audit.outdated = await findOutdated(packageJson, tree, projectLocation, client, includeDev, audit.errors);
+        audit.summary.outdated = audit.outdated.length;
+    }
+    if (checks.includes('duplicates')) {
+        audit.duplicates = findDuplicates(packages);
+        audit.summary.duplicates = audit.duplicates.length;
+    }
+    if (checks.includes('peers')) {
+        if (tree.lockfile && !tree.packages.some(pkg => pkg.peerDependencies)) {
+            if (await exists(path.join(tree.root, 'node_modules'))) {
+                await readPeersFromNodeModules(tree);
+            } else {
+                audit.errors.push(`${path.basename(tree.lockfile)} records no peer dependencies; install the project to check them from node_modules`);
+            }
+        }
+        audit.peerConflicts = await findPeerConflicts(tree, packages);
+        audit.summary.peerConflicts = audit.peerConflicts.length;
+    }
+    if (checks.includes('vulnerabilities')) {
+        try {
+            audit.vulnerabilities = await findVulnerabilities(packages, client);
+            audit.summary.vulnerabilities = {};
+            for (const vulnerability of audit.vulnerabilities) {
+                audit.summary.vulnerabilities[vulnerability.severity] = (audit.summary.vulnerabilities[vulnerability.severity] ?? 0) + 1;
+            }
+        } catch (error) {
+            audit.errors.push(`Cannot check vulnerabilities: ${errorMessage(error)}`);
+        }
+    }
+    return audit;
+}
@@ -0,0 +1,298 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as path from 'path';
+import { readDependencyTree, resolveInstalled } from './dependency-audit.js';
+import { PackageJsonObject } from './package-json.js';
+import {
+    CommandSpec,
+    installAllCommand,
+    installCommand,
+    PackageManagerName,
+    uninstallCommand,
+} from './package-manager.js';
+import { validatePackageSpecifier } from './process.js';
+
+export type DependencyOperation = 'uninstall' | 'upgrade' | 'pin' | 'move' | 'add';
+
+export const DEPENDENCY_OPERATIONS: DependencyOperation[] = ['uninstall', 'upgrade', 'pin', 'move', 'add'];
+
+export type DependencyField = 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies';
+
+// Also the order a package declared in several fields is looked up in
+export const DEPENDENCY_FIELDS: DependencyField[] = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'];
+
+// Fields a package can be moved between
+const MOVE_FIELDS: DependencyField[] = ['dependencies', 'devDependencies'];
+
+/**
+ * Declared ranges and locked versions of a project at one point in time
+ */
+export interface DependencySnapshot {
+    declared: Record<DependencyField, Record<string, string>>;
+    lockfile?: string;
+    /** Installed versions by package name */
+    locked: Map<string, string[]>;
+}
+
+export interface DeclaredChange {
+    name: string;
+    field: DependencyField;
+    /** Range before the operation; missing when the entry was added */
+    before?: string;
+    /** Range after the operation; missing when the entry was removed */
+    after?: string;
+}
+
+export interface LockedChange {
+    name: string;
+    before: string[];
+    after: string[];
+}
+
+export interface DependencyChangeSummary {
+    packageJson: DeclaredChange[];
+    lockfile?: string;
+    installed: {
+        added: string[];
+        removed: string[];
+        changed: LockedChange[];
+    };
+}
+
+/**
+ * What an operation will do: an optional in-place edit of package.json, then commands
+ */
+export interface DependencyPlan {
+    /** Declared changes made directly to package.json before the commands run */
+    edits: DeclaredChange[];
+    commands: CommandSpec[];
+}
+
+export interface DependencyPlanOptions {
+    /** Target field for add and move */
+    field?: DependencyField;
+    /** Directory the lockfile search stops at, usually the allowed root containing the project */
+    boundary?: string;
+}
+
+function splitSpecifier(specifier: string): { name: string; version?: string } {
+    const versionIndex = specifier.indexOf('@', specifier.startsWith('@') ? 1 : 0);
+    return versionIndex === -1
+        ? { name: specifier }
+        : { name: specifier.slice(0, versionIndex), version: specifier.slice(versionIndex + 1) };
+}
+
+function readDeclared(packageJson: PackageJsonObject): DependencySnapshot['declared'] {
+    const declared = {} as DependencySnapshot['declared'];
+    for (const field of DEPENDENCY_FIELDS) {
+        declared[field] = { ...(packageJson[field] as Record<string, string> | undefined) };
+    }
+    return declared;
+}
+
+/**
+ * The field a declared package is saved in, for commands that need to keep it there
+ */
+function declaredField(declared: DependencySnapshot['declared'], name: string): DependencyField | undefined {
+    return DEPENDENCY_FIELDS.find(field => Object.hasOwn(declared[field], name));
+}
+
+/**
+ * Package manager flags that save to a field; dependencies is the default
+ */
+function fieldOptions(field: DependencyField): { dev?: boolean; peer?: boolean; optional?: boolean } {
+    return {
+        dev: field === 'devDependencies',
+        peer: field === 'peerDependencies',
+        optional: field === 'optionalDependencies',
+    };
+}
+
+/**
+ * Reads what a project declares in package.json and what its lockfile (or node_modules) installs
+ * @param boundary Directory the lockfile search stops at, usually the allowed root containing the project
+ */
+export async function snapshotDependencies(
+    projectPath: string,
+    packageJson: PackageJsonObject,
+    boundary?: string
+): Promise<DependencySnapshot> {
+    const tree = await readDependencyTree(projectPath, boundary);
+    const locked = new Map<string, string[]>();
+    for (const pkg of tree.packages) {
+        const versions = locked.get(pkg.name) ?? [];
+        if (!versions.includes(pkg.version)) {
+            versions.push(pkg.version);
+        }
+        locked.set(pkg.name, versions);
+    }
+    return { declared: readDeclared(packageJson), lockfile: tree.lockfile, locked };
+}
+
+/**
+ * Compares two snapshots: declared ranges per field, and installed versions per package
+ */
+export function diffDependencies(before: DependencySnapshot, after: DependencySnapshot): DependencyChangeSummary {
+    const packageJson: DeclaredChange[] = [];
+    for (const field of DEPENDENCY_FIELDS) {
+        const names = new Set([...Object.keys(before.declared[field]), ...Object.keys(after.declared[field])]);
+        for (const name of names) {
+            const from = before.declared[field][name];
+            const to = after.declared[field][name];
+            if (from !== to) {
+                packageJson.push({ name, field, before: from, after: to });
+            }
+        }
+    }
+
+    const installed: DependencyChangeSummary['installed'] = { added: [], removed: [], changed: [] };
+    const names = [...new Set([...before.locked.keys(), ...after.locked.keys()])].sort();
+    for (const name of names) {
+        const from = [...(before.locked.get(name) ?? [])].sort();
+        const to = [...(after.locked.get(name) ?? [])].sort();
+        if (from.length === 0) {
+            installed.added.push(...to.map(version => `${name}@${version}`));
+        } else if (to.length === 0) {
+            installed.removed.push(...from.map(version => `${name}@${version}`));
+        } else if (from.join() !== to.join()) {
+            installed.changed.push({ name, before: from, after: to });
+        }
+    }
+    return { packageJson, lockfile: after.lockfile ?? before.lockfile, installed };
+}
+
+/**
+ * Applies in-place declared changes to a parsed package.json, adding a field object when
+ * it is missing and dropping one left empty
+ */
+export function applyDeclaredChanges(packageJson: PackageJsonObject, changes: DeclaredChange[]): void {
+    for (const change of changes) {
+        const entries = { ...(packageJson[change.field] as Record<string, string> | undefined) };
+        if (change.after === undefined) {
+            delete entries[change.name];
+        } else {
+            entries[change.name] = change.after;
+        }
+        if (Object.keys(entries).length > 0) {
+            packageJson[change.field] = entries;
+        } else {
+            delete packageJson[change.field];
+        }
+    }
+}
+
+/**
+ * Works out the edits and package manager commands for an operation:
+ * - uninstall removes declared packages
+ * - upgrade installs `name@range`, or the latest version, keeping the package in its field
+ * - pin saves the exact installed version, or the one given as `name@version`
+ * - move edits package.json and reinstalls so the lockfile follows
+ * - add installs into `field`, such as peerDependencies or optionalDependencies
+ * @throws McpError (InvalidParams) for an invalid specifier, an undeclared or uninstalled package, or a missing field
+ */
+export async function planDependencyOperation(
+    operation: DependencyOperation,
+    projectPath: string,
+    packageJson: PackageJsonObject,
+    pm: PackageManagerName,
+    specifiers: string[],
+    options: DependencyPlanOptions = {}
+): Promise<DependencyPlan> {
+    if (specifiers.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, 'Specify at least one package');
+    }
+    specifiers.forEach(validatePackageSpecifier);
+    const declared = readDeclared(packageJson);
+    const packages = specifiers.map(splitSpecifier);
+
+    const requireDeclared = (name: string): DependencyField => {
+        const field = declaredField(declared, name);
+        if (!field) {
+            throw new McpError(ErrorCode.InvalidParams, `${name} is not declared in package.json`);
+        }
+        return field;
+    };
+    const rejectVersions = () => {
+        const versioned = packages.filter(pkg => pkg.version !== undefined);
+        if (versioned.length > 0) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `${operation} takes package names without versions: ${versioned.map(pkg => `${pkg.name}@${pkg.version}`).join(', ')}`
+            );
+        }
+    };
+
+    // Packages saved to different fields need one command per field
+    const groupByField = async (resolve: (pkg: { name: string; version?: string }) => Promise<[DependencyField, string]>) => {
+        const groups = new Map<DependencyField, string[]>();
+        for (const pkg of packages) {
+            const [field, specifier] = await resolve(pkg);
+            groups.set(field, [...(groups.get(field) ?? []), specifier]);
+        }
+        return groups;
+    };
+
+    switch (operation) {
+        case 'uninstall':
+            rejectVersions();
+            packages.forEach(pkg => requireDeclared(pkg.name));
+            return { edits: [], commands: [uninstallCommand(pm, packages.map(pkg => pkg.name))] };
+
+        case 'upgrade': {
+            const groups = await groupByField(async pkg => [requireDeclared(pkg.name), `${pkg.name}@${pkg.version ?? 'latest'}`]);
+            return {
+                edits: [],
+                commands: [...groups].map(([field, group]) => installCommand(pm, group, fieldOptions(field))),
+            };
+        }
+
+        case 'pin': {
+            const tree = await readDependencyTree(projectPath, options.boundary);
+            const projectLocation = path.relative(tree.root, projectPath).split(path.sep).join('/');
+            const groups = await groupByField(async pkg => {
+                const field = requireDeclared(pkg.name);
+                const version = pkg.version ?? await resolveInstalled(tree, pkg.name, projectLocation, declared[field][pkg.name]);
+                if (!version) {
+                    throw new McpError(ErrorCode.InvalidParams, `${pkg.name} is not installed; give the version to pin as ${pkg.name}@<version>`);
+                }
+                return [field, `${pkg.name}@${version}`];
+            });
+            return {
+                edits: [],
+                commands: [...groups].map(([field, group]) => installCommand(pm, group, { ...fieldOptions(field), exact: true })),
+            };
+        }
+
+        case 'move': {
+            rejectVersions();
+            const target = options.field;
+            if (!target || !MOVE_FIELDS.includes(target)) {
+                throw new McpError(ErrorCode.InvalidParams, `move needs field set to one of: ${MOVE_FIELDS.join(', ')}`);
+            }
+            const edits: DeclaredChange[] = [];
+            for (const { name } of packages) {
+                const source = MOVE_FIELDS.find(field => field !== target && Object.hasOwn(declared[field], name));
+                if (!source) {
+                    throw new McpError(
+                        ErrorCode.InvalidParams,
+                        Object.hasOwn(declared[target], name) ? `${name} is already in ${target}` : `${name} is not declared in ${MOVE_FIELDS.join(' or ')}`
+                    );
+                }
+                const range = declared[source][name];
+                edits.push({ name, field: source, before: range });
+                edits.push({ name, field: target, before: declared[target][name], after: range });
+            }
+            return { edits, commands: [installAllCommand(pm)] };
+        }
+
+        case 'add': {
+            const target = options.field;
+            if (!target) {
+                throw new McpError(ErrorCode.InvalidParams, `add needs field set to one of: ${DEPENDENCY_FIELDS.join(', ')}`);
+            }
+            return { edits: [], commands: [installCommand(pm, specifiers, fieldOptions(target))] };
+        }
+
+        default:
+            throw new McpError(ErrorCode.InvalidParams, `Unknown dependency operation: ${operation}`);
+    }
+}
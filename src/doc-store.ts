@@ -0,0 +1,221 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { readExisting } from './file-changes.js';
+import { collectSourceFiles, IGNORED_DIRECTORIES } from './source-files.js';
+
+export type DocType = 'readme' | 'api' | 'component';
+
+export const DOC_TYPES: DocType[] = ['readme', 'api', 'component'];
+
+export const DOCS_SCHEME = 'docs://';
+
+/**
+ * A markdown document generated for, or found in, a project
+ */
+export interface DocEntry {
+    /** Absolute project directory */
+    project: string;
+    type: DocType;
+    /** README, API or the component name */
+    name: string;
+    /** Absolute path of the markdown file */
+    file: string;
+    updatedAt: string;
+}
+
+interface DocIndexFile {
+    version: 1;
+    docs: DocEntry[];
+}
+
+export interface DocKey {
+    project: string;
+    type: DocType;
+    name: string;
+}
+
+// How far below an allowed root projects are looked for on startup
+const MAX_PROJECT_DEPTH = 3;
+const COMPONENT_NAME = /^[A-Z][A-Za-z0-9]*$/;
+
+function serializeIndex(docs: DocEntry[]): string {
+    const index: DocIndexFile = { version: 1, docs };
+    return `${JSON.stringify(index, null, 2)}\n`;
+}
+
+function keyOf(entry: DocKey): string {
+    return JSON.stringify([entry.project, entry.type, entry.name]);
+}
+
+/**
+ * Builds the URI of a document; the project path is percent-encoded into one segment
+ */
+export function docUri(entry: DocKey): string {
+    return `${DOCS_SCHEME}${encodeURIComponent(entry.project)}/${entry.type}/${encodeURIComponent(entry.name)}`;
+}
+
+/**
+ * Parses `docs://{project}/{type}/{name}`. The project may be percent-encoded, as
+ * docUri writes it, or a plain absolute path.
+ * @throws McpError (InvalidParams) for a malformed URI or an unknown doc type
+ */
+export function parseDocUri(uri: string): DocKey {
+    const segments = uri.startsWith(DOCS_SCHEME) ? uri.slice(DOCS_SCHEME.length).split('/') : [];
+    if (segments.length < 3) {
+        throw new McpError(ErrorCode.InvalidParams, `Expected docs://{project}/{type}/{name}, got ${uri}`);
+    }
+    const [type, name] = segments.slice(-2);
+    if (!DOC_TYPES.includes(type as DocType)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown documentation type '${type}' in ${uri}; expected one of: ${DOC_TYPES.join(', ')}`);
+    }
+    try {
+        return {
+            project: decodeURIComponent(segments.slice(0, -2).join('/')),
+            type: type as DocType,
+            name: decodeURIComponent(name),
+        };
+    } catch {
+        throw new McpError(ErrorCode.InvalidParams, `Malformed documentation URI: ${uri}`);
+    }
+}
+
+/**
+ * Finds the project a file belongs to: the nearest directory above it with a
+ * package.json, or the file's own directory when there is none
+ */
+export async function findProjectDirectory(filePath: string): Promise<string> {
+    for (let dir = path.dirname(filePath); ; dir = path.dirname(dir)) {
+        if (await readExisting(path.join(dir, 'package.json')) !== null) {
+            return dir;
+        }
+        if (path.dirname(dir) === dir) {
+            return path.dirname(filePath);
+        }
+    }
+}
+
+/**
+ * Index of project documentation, persisted as JSON so it survives restarts.
+ *
+ * Only paths are indexed; contents are read from the markdown files on demand. On load
+ * the index is rebuilt from the saved entries whose files still exist plus the README.md,
+ * API.md and component docs (`<Name>.md` next to `<Name>.tsx` or at the project root)
+ * of projects found in the roots.
+ */
+export class DocStore {
+    private readonly entries = new Map<string, DocEntry>();
+    /** Contents of the index file as last read or written, so an unchanged index is not rewritten */
+    private savedText?: string;
+
+    /**
+     * @param indexFile JSON file the index is saved to
+     * @param roots Directories scanned for projects on load
+     */
+    constructor(private readonly indexFile: string, private readonly roots: string[]) {}
+
+    async load(): Promise<void> {
+        this.entries.clear();
+        // Without an index file, an empty index needs no saving
+        this.savedText = serializeIndex([]);
+        let saved: DocEntry[] = [];
+        try {
+            const text = await fs.readFile(this.indexFile, 'utf-8');
+            this.savedText = text;
+            saved = (JSON.parse(text) as DocIndexFile).docs ?? [];
+        } catch {
+            // No index yet, or an unreadable one that the scan replaces
+        }
+        for (const entry of saved) {
+            if (await readExisting(entry.file) !== null) {
+                this.entries.set(keyOf(entry), entry);
+            }
+        }
+        for (const root of this.roots) {
+            for (const project of await this.findProjects(root, 0)) {
+                for (const found of await this.scanProject(project)) {
+                    if (!this.entries.has(keyOf(found))) {
+                        this.entries.set(keyOf(found), found);
+                    }
+                }
+            }
+        }
+        await this.save();
+    }
+
+    list(): DocEntry[] {
+        return [...this.entries.values()].sort((a, b) => docUri(a).localeCompare(docUri(b)));
+    }
+
+    get(key: DocKey): DocEntry | undefined {
+        return this.entries.get(keyOf(key));
+    }
+
+    /**
+     * Records a document written to disk, replacing any entry with the same key
+     * @returns Whether the entry is new
+     */
+    async set(key: DocKey, file: string): Promise<boolean> {
+        const isNew = !this.entries.has(keyOf(key));
+        this.entries.set(keyOf(key), { ...key, file, updatedAt: new Date().toISOString() });
+        await this.save();
+        return isNew;
+    }
+
+    private async save(): Promise<void> {
+        const text = serializeIndex(this.list());
+        if (text === this.savedText) {
+            return;
+        }
+        await fs.mkdir(path.dirname(this.indexFile), { recursive: true });
+        await fs.writeFile(this.indexFile, text, 'utf-8');
+        this.savedText = text;
+    }
+
+    private async findProjects(dir: string, depth: number): Promise<string[]> {
+        let entries;
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+        const projects = entries.some(entry => entry.isFile() && entry.name === 'package.json') ? [dir] : [];
+        if (depth < MAX_PROJECT_DEPTH) {
+            for (const entry of entries) {
+                if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name) && !entry.name.startsWith('.')) {
+                    projects.push(...await this.findProjects(path.join(dir, entry.name), depth + 1));
+                }
+            }
+        }
+        return projects;
+    }
+
+    private async scanProject(project: string): Promise<DocEntry[]> {
+        const found: DocEntry[] = [];
+        const add = async (type: DocType, name: string, file: string) => {
+            try {
+                const stats = await fs.stat(file);
+                found.push({ project, type, name, file, updatedAt: stats.mtime.toISOString() });
+            } catch {
+                // No such document
+            }
+        };
+        await add('readme', 'README', path.join(project, 'README.md'));
+        await add('api', 'API', path.join(project, 'API.md'));
+
+        const components = new Set<string>();
+        for (const source of await collectSourceFiles(project)) {
+            const name = path.basename(source, path.extname(source));
+            // Components of nested projects, such as workspace packages, are indexed under those
+            if (COMPONENT_NAME.test(name) && !components.has(name) && await findProjectDirectory(source) === project) {
+                components.add(name);
+                const before = found.length;
+                await add('component', name, path.join(path.dirname(source), `${name}.md`));
+                if (found.length === before) {
+                    await add('component', name, path.join(project, `${name}.md`));
+                }
+            }
+        }
+        return found;
+    }
+}
@@ -0,0 +1,211 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { createTwoFilesPatch } from 'diff';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChangeRecorder } from './journal.js';
+
+/**
+ * What to do when a write would replace existing content:
+ * - fail: abort the whole operation before anything is written
+ * - skip: leave the existing file untouched and write the rest
+ * - overwrite: replace the file
+ * - backup: copy the existing file to a `.bak` sibling, then replace it
+ */
+export type OverwritePolicy = 'fail' | 'skip' | 'overwrite' | 'backup';
+
+export const OVERWRITE_POLICIES: OverwritePolicy[] = ['fail', 'skip', 'overwrite', 'backup'];
+
+export const DEFAULT_OVERWRITE_POLICY: OverwritePolicy = 'fail';
+
+/**
+ * A pending write of a whole file
+ */
+export interface FileChange {
+    path: string;
+    /** Current contents, or null if the file does not exist */
+    before: string | null;
+    after: string;
+    /**
+     * Whether the write replaces existing content the caller has not agreed to lose.
+     * Defaults to true when the file exists with different contents.
+     */
+    conflict?: boolean;
+}
+
+export type FileChangeOutcome = 'created' | 'updated' | 'unchanged' | 'skipped' | 'backed-up' | 'conflict';
+
+export interface FileChangeResult {
+    path: string;
+    outcome: FileChangeOutcome;
+    backupPath?: string;
+    diff: string;
+}
+
+export interface ApplyOptions {
+    dryRun?: boolean;
+    overwrite?: OverwritePolicy;
+    /** Notified before each write so the change can be undone */
+    recorder?: ChangeRecorder;
+}
+
+/**
+ * Reads a file, returning null when it does not exist
+ */
+export async function readExisting(filePath: string): Promise<string | null> {
+    try {
+        return await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Builds a FileChange for writing `after` to `filePath`, reading the current contents
+ */
+export async function planFileChange(filePath: string, after: string, conflict?: boolean): Promise<FileChange> {
+    return { path: filePath, before: await readExisting(filePath), after, conflict };
+}
+
+function isConflict(change: FileChange): boolean {
+    return change.conflict ?? (change.before !== null && change.before !== change.after);
+}
+
+/**
+ * Raises if any change would replace existing content under the given policy
+ * @throws McpError (InvalidParams) listing the conflicting files
+ */
+export function assertNoConflicts(changes: FileChange[], overwrite: OverwritePolicy = DEFAULT_OVERWRITE_POLICY): void {
+    const conflicts = changes.filter(isConflict);
+    if (overwrite === 'fail' && conflicts.length > 0) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Refusing to overwrite existing content in ${conflicts.map(change => change.path).join(', ')}. ` +
+            `Pass overwrite: 'overwrite', 'backup' or 'skip', or use dryRun to preview the changes.`
+        );
+    }
+}
+
+/**
+ * Renders a change as a unified diff; new files diff against /dev/null
+ */
+export function createDiff(change: FileChange): string {
+    if (change.before === change.after) {
+        return '';
+    }
+    return createTwoFilesPatch(
+        change.before === null ? '/dev/null' : change.path,
+        change.path,
+        change.before ?? '',
+        change.after,
+        undefined,
+        undefined,
+        { context: 3 }
+    );
+}
+
+async function nextBackupPath(filePath: string): Promise<string> {
+    let candidate = `${filePath}.bak`;
+    for (let i = 1; (await readExisting(candidate)) !== null; i++) {
+        candidate = `${filePath}.${i}.bak`;
+    }
+    return candidate;
+}
+
+/**
+ * Writes a set of file changes according to an overwrite policy.
+ *
+ * Under the `fail` policy every change is checked before anything is written, so
+ * a conflict leaves the disk untouched. In dry-run mode nothing is written and
+ * conflicts are reported instead of raised.
+ *
+ * @throws McpError (InvalidParams) on a conflict under the `fail` policy
+ */
+export async function applyFileChanges(changes: FileChange[], options: ApplyOptions = {}): Promise<FileChangeResult[]> {
+    const policy = options.overwrite ?? DEFAULT_OVERWRITE_POLICY;
+    if (!options.dryRun) {
+        assertNoConflicts(changes, policy);
+    }
+
+    const results: FileChangeResult[] = [];
+    for (const change of changes) {
+        const diff = createDiff(change);
+        const conflict = isConflict(change);
+
+        let outcome: FileChangeOutcome;
+        if (change.before === change.after) {
+            outcome = 'unchanged';
+        } else if (conflict && policy === 'fail') {
+            outcome = 'conflict';
+        } else if (conflict && policy === 'skip') {
+            outcome = 'skipped';
+        } else if (conflict && policy === 'backup') {
+            outcome = 'backed-up';
+        } else {
+            outcome = change.before === null ? 'created' : 'updated';
+        }
+
+        let backupPath: string | undefined;
+        if (outcome === 'backed-up') {
+            backupPath = await nextBackupPath(change.path);
+        }
+
+        if (!options.dryRun && (outcome === 'created' || outcome === 'updated' || outcome === 'backed-up')) {
+            await fs.mkdir(path.dirname(change.path), { recursive: true });
+            if (backupPath) {
+                options.recorder?.recordFile(backupPath, null);
+                await fs.copyFile(change.path, backupPath);
+            }
+            options.recorder?.recordFile(change.path, change.before);
+            await fs.writeFile(change.path, change.after);
+        }
+
+        results.push({ path: change.path, outcome, backupPath, diff });
+    }
+
+    return results;
+}
+
+/**
+ * Formats apply results as a file list, followed by diffs in dry-run mode
+ */
+export function formatFileChangeResults(results: FileChangeResult[], dryRun?: boolean): string {
+    const verbs: Record<FileChangeOutcome, string> = dryRun
+        ? {
+            created: 'would create',
+            updated: 'would update',
+            unchanged: 'unchanged',
+            skipped: 'would skip (existing content kept)',
+            'backed-up': 'would back up and overwrite',
+            conflict: 'would fail (existing content; set overwrite to proceed)',
+        }
+        : {
+            created: 'created',
+            updated: 'updated',
+            unchanged: 'unchanged',
+            skipped: 'skipped (existing content kept)',
+            'backed-up': 'overwritten',
+            conflict: 'conflict',
+        };
+
+    const lines = results.map(result =>
+        `- ${result.path}: ${verbs[result.outcome]}${result.backupPath && !dryRun ? ` (backup at ${result.backupPath})` : ''}`
+    );
+
+    if (!dryRun) {
+        return lines.join('\n');
+    }
+
+    const diffs = results.filter(result => result.diff).map(result => result.diff.trimEnd());
+    if (diffs.length === 0) {
+        return lines.join('\n');
+    }
+
+    // Fence longer than any backtick run in the diff so markdown files render intact
+    const body = diffs.join('\n');
+    const longestRun = Math.max(0, ...(body.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    return `${lines.join('\n')}\n\n${fence}diff\n${body}\n${fence}`;
+}
@@ -0,0 +1,95 @@
+import { FSWatcher, watch } from 'fs';
+import * as path from 'path';
+import { logger } from './logger.js';
+
+const DEFAULT_DEBOUNCE_MS = 100;
+
+interface DirectoryWatch {
+    watcher: FSWatcher;
+    /** Subscription keys by file name in the directory */
+    files: Map<string, Set<string>>;
+}
+
+/**
+ * Watches individual files for changes and reports them by subscription key.
+ *
+ * Each file's directory is watched rather than the file, so editors and tools that
+ * replace a file by renaming over it keep being tracked. Bursts of events for a file
+ * are reported once.
+ */
+export class FileWatcher {
+    private readonly directories = new Map<string, DirectoryWatch>();
+    /** File path of each subscription key */
+    private readonly subscriptions = new Map<string, string>();
+    private readonly pending = new Map<string, NodeJS.Timeout>();
+
+    /**
+     * @param onChange Called with the key of each subscription whose file changed
+     */
+    constructor(
+        private readonly onChange: (key: string) => void,
+        private readonly debounceMs = DEFAULT_DEBOUNCE_MS
+    ) {}
+
+    /**
+     * Starts reporting changes to a file under `key`, replacing an earlier subscription
+     * with the same key
+     * @throws Error when the file's directory cannot be watched, e.g. it does not exist
+     */
+    subscribe(key: string, filePath: string): void {
+        this.unsubscribe(key);
+        const dir = path.dirname(filePath);
+        const name = path.basename(filePath);
+
+        let directory = this.directories.get(dir);
+        if (!directory) {
+            const files = new Map<string, Set<string>>();
+            const watcher = watch(dir, { persistent: false }, (_event, changed) => {
+                // Without a file name the platform cannot tell which file changed
+                const keys = changed ? files.get(changed.toString()) : new Set([...files.values()].flatMap(set => [...set]));
+                keys?.forEach(changedKey => this.schedule(changedKey));
+            });
+            watcher.on('error', (error) => logger.child('watcher').error('Cannot watch directory', { dir, error }));
+            directory = { watcher, files };
+            this.directories.set(dir, directory);
+        }
+        const keys = directory.files.get(name) ?? new Set<string>();
+        keys.add(key);
+        directory.files.set(name, keys);
+        this.subscriptions.set(key, filePath);
+    }
+
+    unsubscribe(key: string): void {
+        const filePath = this.subscriptions.get(key);
+        if (filePath === undefined) {
+            return;
+        }
+        this.subscriptions.delete(key);
+        clearTimeout(this.pending.get(key));
+        this.pending.delete(key);
+
+        const dir = path.dirname(filePath);
+        const directory = this.directories.get(dir)!;
+        const keys = directory.files.get(path.basename(filePath))!;
+        keys.delete(key);
+        if (keys.size === 0) {
+            directory.files.delete(path.basename(filePath));
+        }
+        if (directory.files.size === 0) {
+            directory.watcher.close();
+            this.directories.delete(dir);
+        }
+    }
+
+    close(): void {
+        [...this.subscriptions.keys()].forEach(key => this.unsubscribe(key));
+    }
+
+    private schedule(key: string): void {
+        clearTimeout(this.pending.get(key));
+        this.pending.set(key, setTimeout(() => {
+            this.pending.delete(key);
+            this.onChange(key);
+        }, this.debounceMs));
+    }
+}
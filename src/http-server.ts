@@ -0,0 +1,270 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { isLoopbackHost } from './config.js';
+import { logger } from './logger.js';
+
+/** Streamable HTTP endpoint: POST messages, GET the notification stream, DELETE the session */
+export const MCP_PATH = '/mcp';
+/** Legacy HTTP+SSE endpoints: GET opens the stream, which names the messages URL to POST to */
+export const SSE_PATH = '/sse';
+export const SSE_MESSAGES_PATH = '/messages';
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+// Streamable sessions with no request for this long are closed, freeing their journals
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+// Upper bound on how often idle sessions are looked for
+const MAX_IDLE_SWEEP_INTERVAL_MS = 60 * 1000;
+
+const log = logger.child('http');
+
+export interface HttpServerOptions {
+    host: string;
+    port: number;
+    /** Bearer token every request must carry; unset, only loopback Host headers are accepted */
+    authToken?: string;
+    /** Milliseconds without requests after which a streamable session is closed */
+    sessionIdleTimeoutMs?: number;
+    /** Connects the transport of a new client session to an MCP server */
+    connect(transport: Transport): Promise<void>;
+}
+
+/**
+ * An HTTP request answered with a JSON-RPC error before it reaches a transport
+ */
+class RequestError extends Error {
+    constructor(readonly status: number, readonly code: number, message: string) {
+        super(message);
+    }
+}
+
+function sendError(res: ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_BODY_BYTES) {
+            throw new RequestError(413, ErrorCode.InvalidRequest, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+        }
+        chunks.push(chunk as Buffer);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+        throw new RequestError(400, ErrorCode.ParseError, 'Request body is not valid JSON');
+    }
+}
+
+/**
+ * A streamable HTTP session; it is idle while no request is open
+ */
+interface StreamableSession {
+    transport: StreamableHTTPServerTransport;
+    openRequests: number;
+    lastActivity: number;
+}
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Serves MCP over streamable HTTP and the legacy HTTP+SSE transport. Every client
+ * session gets its own transport, handed to `connect`.
+ */
+export class McpHttpServer {
+    private readonly server: Server;
+    private readonly streamable = new Map<string, StreamableSession>();
+    private readonly sse = new Map<string, SSEServerTransport>();
+    private readonly idleTimeout: number;
+    private idleSweep?: NodeJS.Timeout;
+    private draining = false;
+
+    constructor(private readonly options: HttpServerOptions) {
+        this.idleTimeout = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+        this.server = createServer((req, res) => {
+            this.handle(req, res).catch((error: unknown) => {
+                if (error instanceof RequestError) {
+                    sendError(res, error.status, error.code, error.message);
+                    return;
+                }
+                log.error('Request failed', { method: req.method, url: req.url, error });
+                if (res.headersSent) {
+                    res.end();
+                } else {
+                    sendError(res, 500, ErrorCode.InternalError, 'Internal server error');
+                }
+            });
+        });
+    }
+
+    /**
+     * @returns The base URL the server listens on
+     */
+    async listen(): Promise<string> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.once('error', reject);
+            this.server.listen(this.options.port, this.options.host, () => {
+                this.server.off('error', reject);
+                resolve();
+            });
+        });
+        this.idleSweep = setInterval(() => this.closeIdleSessions(), Math.min(this.idleTimeout, MAX_IDLE_SWEEP_INTERVAL_MS));
+        this.idleSweep.unref();
+        const address = this.server.address();
+        const port = address !== null && typeof address === 'object' ? address.port : this.options.port;
+        const host = this.options.host.includes(':') ? `[${this.options.host}]` : this.options.host;
+        return `http://${host}:${port}`;
+    }
+
+    /**
+     * Stops accepting connections and new sessions. Open sessions keep working, so
+     * calls in flight can still deliver their results.
+     */
+    stopAccepting(): void {
+        this.draining = true;
+        this.server.close();
+    }
+
+    /**
+     * Closes every session and connection
+     */
+    async close(): Promise<void> {
+        this.draining = true;
+        clearInterval(this.idleSweep);
+        const transports = [...[...this.streamable.values()].map(session => session.transport), ...this.sse.values()];
+        await Promise.allSettled(transports.map(transport => transport.close()));
+        await new Promise<void>(resolve => {
+            // Called with an error when stopAccepting already closed the listener
+            this.server.close(() => resolve());
+            this.server.closeAllConnections();
+        });
+    }
+
+    private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (!this.authorized(req)) {
+            log.warning('Rejected request without a valid bearer token', { method: req.method, url: req.url, remote: req.socket.remoteAddress });
+            sendError(res, 401, ErrorCode.InvalidRequest, 'Missing or invalid bearer token', { 'WWW-Authenticate': 'Bearer' });
+            return;
+        }
+        if (!this.options.authToken && !this.loopbackHostHeader(req)) {
+            // Without a token, a page on another site could reach a loopback server through DNS rebinding
+            sendError(res, 403, ErrorCode.InvalidRequest, 'Host header must name a loopback address');
+            return;
+        }
+
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        if (url.pathname === MCP_PATH) {
+            await this.handleStreamable(req, res);
+        } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+            await this.openSseSession(res);
+        } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+            const transport = this.sse.get(url.searchParams.get('sessionId') ?? '');
+            if (!transport) {
+                throw new RequestError(404, ErrorCode.InvalidRequest, 'Session not found');
+            }
+            await transport.handlePostMessage(req, res, await readJsonBody(req));
+        } else {
+            throw new RequestError(404, ErrorCode.MethodNotFound, `No MCP endpoint at ${req.method} ${url.pathname}`);
+        }
+    }
+
+    private async handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+        const sessionId = req.headers['mcp-session-id'];
+        const existing = typeof sessionId === 'string' ? this.streamable.get(sessionId) : undefined;
+        if (existing) {
+            this.trackRequest(existing, res);
+            await existing.transport.handleRequest(req, res, body);
+            return;
+        }
+        if (sessionId !== undefined) {
+            throw new RequestError(404, ErrorCode.InvalidRequest, 'Session not found');
+        }
+        if (req.method !== 'POST' || !isInitializeRequest(body)) {
+            throw new RequestError(400, ErrorCode.InvalidRequest, 'Send an initialize request without a session ID to start a session');
+        }
+        this.ensureAccepting();
+
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: id => {
+                const session: StreamableSession = { transport, openRequests: 0, lastActivity: Date.now() };
+                this.streamable.set(id, session);
+                this.trackRequest(session, res);
+            },
+        });
+        transport.onclose = () => {
+            if (transport.sessionId) {
+                this.streamable.delete(transport.sessionId);
+            }
+        };
+        await this.options.connect(transport);
+        await transport.handleRequest(req, res, body);
+    }
+
+    /**
+     * Keeps a session from going idle until the response is finished
+     */
+    private trackRequest(session: StreamableSession, res: ServerResponse): void {
+        session.openRequests++;
+        res.once('close', () => {
+            session.openRequests--;
+            session.lastActivity = Date.now();
+        });
+    }
+
+    private closeIdleSessions(): void {
+        const now = Date.now();
+        for (const [sessionId, session] of this.streamable) {
+            if (session.openRequests === 0 && now - session.lastActivity >= this.idleTimeout) {
+                log.info('Closing idle session', { sessionId, idleMs: now - session.lastActivity });
+                // onclose removes the session
+                session.transport.close().catch((error: unknown) => log.error('Cannot close idle session', { sessionId, error }));
+            }
+        }
+    }
+
+    private async openSseSession(res: ServerResponse): Promise<void> {
+        this.ensureAccepting();
+        const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+        this.sse.set(transport.sessionId, transport);
+        transport.onclose = () => {
+            this.sse.delete(transport.sessionId);
+        };
+        // Starts the transport, which opens the stream
+        await this.options.connect(transport);
+    }
+
+    private ensureAccepting(): void {
+        if (this.draining) {
+            throw new RequestError(503, ErrorCode.InvalidRequest, 'Server is shutting down');
+        }
+    }
+
+    private authorized(req: IncomingMessage): boolean {
+        const token = this.options.authToken;
+        if (!token) {
+            return true;
+        }
+        const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? '');
+        // Compared as digests so the comparison takes the same time whatever the length
+        return match !== null && timingSafeEqual(digest(match[1]), digest(token));
+    }
+
+    private loopbackHostHeader(req: IncomingMessage): boolean {
+        try {
+            return isLoopbackHost(new URL(`http://${req.headers.host ?? ''}`).hostname);
+        } catch {
+            return false;
+        }
+    }
+}
@@ -1,112 +1,243 @@
 #!/usr/bin/env node
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
     CallToolRequestSchema,
     ErrorCode,
     ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
     ListToolsRequestSchema,
     McpError,
     ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
     ListPromptsRequestSchema,
     GetPromptRequestSchema,
-    PromptMessage
+    LoggingLevel,
+    PromptMessage,
+    SetLevelRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import axios from 'axios';
-import * as fs from 'fs/promises';
+import { randomUUID } from 'crypto';
 import * as path from 'path';
+import { AuditLog, AuditOutcome, redactSecrets } from './audit-log.js';
+import { loadConfig, ServerConfig } from './config.js';
+import { DocKey, DOCS_SCHEME, DocStore, docUri, parseDocUri } from './doc-store.js';
+import { FileWatcher } from './file-watcher.js';
+import { MCP_PATH, McpHttpServer, SSE_PATH } from './http-server.js';
+import { ChangeJournal } from './journal.js';
+import { readExisting } from './file-changes.js';
+import { isLevelEnabled, Logger, logger } from './logger.js';
+import { killRunningProcesses } from './process.js';
+import {
+    parseProjectResourceUri,
+    PROJECT_RESOURCE_TEMPLATES,
+    PROJECT_SCHEME,
+    projectResourceUri,
+    resourceMimeType,
+} from './project-resources.js';
+import { TemplateRegistry } from './template-registry.js';
+import { importPlugin, PluginReference, readPluginConfig, validatePluginTools } from './tool-plugins.js';
+import { ToolContext, ToolDefinition, ToolHost, ToolPlugin, ToolRegistry, ToolResult } from './tool-registry.js';
+import { BUILTIN_PLUGINS } from './tools/index.js';
+import { WorkspaceSandbox } from './workspace.js';
+
+/** How long shutdown waits for tool calls in flight before cancelling them */
+const SHUTDOWN_TIMEOUT_MS = 30000;
+/** How long cancelled tool calls get to clean up */
+const SHUTDOWN_CANCEL_GRACE_MS = 5000;
 
-const execAsync = promisify(exec);
-
-// Type definitions for various tool arguments
-interface CreateProjectArgs extends Record<string, unknown> {
-    name: string;
-    type: 'react' | 'node' | 'next' | 'express' | 'fastify';
-    path: string;
-    typescript?: boolean;
-}
-
-interface InstallPackageArgs extends Record<string, unknown> {
-    packages: string[];
-    path: string;
-    dev?: boolean;
-}
-
-interface RunScriptArgs extends Record<string, unknown> {
-    script: string;
-    path: string;
-}
-
-interface GenerateComponentArgs extends Record<string, unknown> {
-    name: string;
-    path: string;
-    type: 'functional' | 'class';
-    props?: Record<string, string>;
-}
-
-interface CreateTypeDefinitionArgs extends Record<string, unknown> {
-    name: string;
-    path: string;
-    properties: Record<string, string>;
+/**
+ * One connected client. HTTP serves many at once; stdio has a single one.
+ */
+interface Session {
+    server: Server;
+    /** Changes made by the session's tool calls, listed and undone by its change tools */
+    journal: ChangeJournal;
+    /** The session's tools, created with a host holding its journal */
+    tools: ToolRegistry;
+    /** Resource URIs the client subscribed to */
+    subscriptions: Set<string>;
+    /** Minimum level of log entries sent to the client */
+    logLevel: LoggingLevel;
 }
 
-interface AddScriptArgs extends Record<string, unknown> {
-    path: string;
-    name: string;
-    command: string;
+/**
+ * A loaded plugin; its tools are created anew for every session
+ */
+interface LoadedPlugin {
+    plugin: ToolPlugin;
+    options: Record<string, unknown>;
+    logger: Logger;
+    /** External plugins are validated, and skipped when they fail */
+    external: boolean;
 }
 
-interface UpdateTsConfigArgs extends Record<string, unknown> {
-    path: string;
-    options: Record<string, unknown>;
+/**
+ * Watcher subscription key of a session's resource subscription
+ */
+function watchKey(sessionId: string, uri: string): string {
+    return JSON.stringify([sessionId, uri]);
 }
 
-interface CreateDocumentationArgs extends Record<string, unknown> {
-    path: string;
-    type: 'readme' | 'api' | 'component';
-    name?: string;
+/**
+ * Waits for a promise, at most `ms` milliseconds
+ * @returns Whether the promise settled in time
+ */
+async function settlesWithin(promise: Promise<unknown>, ms: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<false>(resolve => {
+        timer = setTimeout(() => resolve(false), ms);
+    });
+    try {
+        return await Promise.race([promise.then(() => true, () => true), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
 }
 
 /**
  * NodeOmnibusServer class that provides comprehensive tooling for Node.js development
  */
 class NodeOmnibusServer {
-    private server: Server;
-    private projectDocs: Map<string, string>;
+    private sessions = new Map<string, Session>();
+    private http?: McpHttpServer;
+    /** Tool calls in flight, settling when the call finishes */
+    private inFlight = new Map<AbortController, Promise<unknown>>();
+    private closing = false;
+    private audit: AuditLog;
+    private workspace: WorkspaceSandbox;
+    private templates: TemplateRegistry;
+    private docs: DocStore;
+    private watcher: FileWatcher;
+    private plugins: LoadedPlugin[] = [];
+    /** Services shared by every session; each session adds its own journal */
+    private host: Omit<ToolHost, 'journal'>;
     private prompts: Record<string, {
         name: string;
         description: string;
         arguments?: { name: string; description: string; required?: boolean }[];
     }> = {}; // Initialize the property
 
-    constructor() {
-        this.server = new Server(
+    constructor(config: ServerConfig) {
+        logger.setLevel(config.logLevel);
+        this.audit = new AuditLog(config.auditLog);
+        // A configured audit log or docs index may lie inside a root; tools must not be able to rewrite them
+        this.workspace = new WorkspaceSandbox(config.allowedRoots, [config.auditLog, config.docsIndex]);
+        this.templates = new TemplateRegistry(config.templateDirs);
+        this.docs = new DocStore(config.docsIndex, config.allowedRoots);
+        this.watcher = new FileWatcher(key => this.notifyResourceUpdated(key));
+        this.host = {
+            config,
+            workspace: this.workspace,
+            templates: this.templates,
+            recordDoc: (key, file) => this.recordDoc(key, file),
+            logger: logger.child('tools'),
+        };
+        this.initializePrompts();
+
+        process.on('SIGINT', () => this.shutdown('SIGINT'));
+        process.on('SIGTERM', () => this.shutdown('SIGTERM'));
+    }
+
+    /**
+     * Creates an MCP server for a new client and connects it to the client's transport
+     */
+    private async connectSession(transport: Transport): Promise<void> {
+        const server = new Server(
             {
                 name: 'node-omnibus-server',
                 version: '1.0.0',
             },
             {
                 capabilities: {
-                    resources: {},
+                    resources: { subscribe: true, listChanged: true },
                     tools: {},
                     prompts: {}, // Add prompts capability
+                    logging: {},
                 },
             }
         );
+        const sessionId = randomUUID();
+        const journal = new ChangeJournal();
+        const session: Session = {
+            server,
+            journal,
+            tools: await this.createTools(journal, sessionId),
+            subscriptions: new Set(),
+            logLevel: this.host.config.logLevel,
+        };
+        this.setupToolHandlers(server, session, sessionId);
+        this.setupResourceHandlers(server, session, sessionId);
+        this.setupPromptHandlers(server);
+        this.setupLogging(server, session, sessionId);
+
+        const log = logger.child('session');
+        server.onerror = (error: Error) => log.error('Protocol error', { session: sessionId, error });
+        server.onclose = () => {
+            session.subscriptions.forEach(uri => this.watcher.unsubscribe(watchKey(sessionId, uri)));
+            this.sessions.delete(sessionId);
+            log.info('Session closed', { session: sessionId });
+        };
+        this.sessions.set(sessionId, session);
+        await server.connect(transport);
+        log.info('Session opened', { session: sessionId });
+    }
 
-        this.projectDocs = new Map();
-        this.initializePrompts();
-        this.setupToolHandlers();
-        this.setupResourceHandlers();
-        this.setupPromptHandlers();
-
-        this.server.onerror = (error: Error) => console.error('[MCP Error]', error);
-        process.on('SIGINT', async () => {
-            await this.server.close();
-            process.exit(0);
+    /**
+     * Forwards log entries at or above the session's level to the client as
+     * notifications/message; the client changes the level with logging/setLevel.
+     * Entries tagged with another session are not forwarded.
+     */
+    private setupLogging(server: Server, session: Session, sessionId: string) {
+        server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+            session.logLevel = request.params.level;
+            return {};
+        });
+        const removeSink = logger.addSink(({ level, logger: name, time: _time, ...data }) => {
+            if (!isLevelEnabled(level, session.logLevel)) return;
+            if (data.session !== undefined && data.session !== sessionId) return;
+            // Dropped rather than logged: logging a failed delivery would be delivered here again
+            server.sendLoggingMessage({ level, logger: name, data }).catch(() => undefined);
         });
+        const onclose = server.onclose;
+        server.onclose = () => {
+            removeSink();
+            onclose?.();
+        };
+    }
+
+    /**
+     * Stops taking new sessions and tool calls, waits for calls in flight, cancelling
+     * them after SHUTDOWN_TIMEOUT_MS, then closes every session and exits.
+     * A second signal exits at once.
+     */
+    private async shutdown(signal: string) {
+        if (this.closing) {
+            killRunningProcesses();
+            process.exit(1);
+        }
+        this.closing = true;
+        const log = logger.child('shutdown');
+        log.notice(`Received ${signal}, shutting down`);
+        this.http?.stopAccepting();
+
+        if (this.inFlight.size > 0) {
+            log.notice(`Waiting for ${this.inFlight.size} tool call(s) to finish`);
+            if (!await settlesWithin(Promise.allSettled(this.inFlight.values()), SHUTDOWN_TIMEOUT_MS)) {
+                log.warning(`Cancelling ${this.inFlight.size} tool call(s) still running`);
+                this.inFlight.forEach((_call, controller) => controller.abort(new Error('Server is shutting down')));
+                await settlesWithin(Promise.allSettled(this.inFlight.values()), SHUTDOWN_CANCEL_GRACE_MS);
+            }
+        }
+
+        this.watcher.close();
+        await Promise.allSettled([...this.sessions.values()].map(session => session.server.close()));
+        await this.http?.close();
+        await this.audit.flush();
+        // Calls that ignored cancellation may have left processes in their own process groups
+        killRunningProcesses();
+        process.exit(0);
     }
 
     private initializePrompts() {
@@ -184,252 +315,276 @@ class NodeOmnibusServer {
         };
     }
 
-    private setupResourceHandlers() {
-        // Handler for listing documentation resources
-        this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-            resources: Array.from(this.projectDocs.entries()).map(([id, content]) => ({
-                uri: `docs://${id}`,
-                mimeType: 'text/markdown',
-                name: `Documentation for ${id}`,
-                description: `Project documentation and notes for ${id}`,
-            })),
-        }));
+    private setupResourceHandlers(server: Server, session: Session, sessionId: string) {
+        // Documentation, plus the package.json and tsconfig.json of each allowed root
+        server.setRequestHandler(ListResourcesRequestSchema, async () => {
+            const projectFiles = [];
+            for (const root of this.workspace.getRoots()) {
+                for (const file of ['package.json', 'tsconfig.json']) {
+                    if (await readExisting(path.join(root, file)) !== null) {
+                        projectFiles.push({
+                            uri: projectResourceUri(root, file),
+                            mimeType: 'application/json',
+                            name: `${path.basename(root)}/${file}`,
+                            description: `Live ${file} of ${root}`,
+                        });
+                    }
+                }
+            }
+            return {
+                resources: [
+                    ...this.docs.list().map(doc => ({
+                        uri: docUri(doc),
+                        mimeType: 'text/markdown',
+                        name: `${path.basename(doc.project)} ${doc.type === 'component' ? `${doc.name} component` : doc.name}`,
+                        description: `${doc.type === 'component' ? 'Component' : doc.name} documentation for ${doc.project}`,
+                    })),
+                    ...projectFiles,
+                ],
+            };
+        });
 
-        // Handler for reading documentation content
-        this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-            const url = new URL(request.params.uri);
-            const id = url.hostname;
-            const content = this.projectDocs.get(id);
+        server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+            resourceTemplates: [
+                ...PROJECT_RESOURCE_TEMPLATES,
+                {
+                    uriTemplate: `${DOCS_SCHEME}{project}/{type}/{name}`,
+                    name: 'Documentation',
+                    description: 'Indexed documentation of a project: type readme (name README), api (name API) or component (the component name)',
+                    mimeType: 'text/markdown',
+                },
+            ],
+        }));
 
-            if (!content) {
-                throw new McpError(ErrorCode.MethodNotFound, `Documentation not found for ${id}`);
+        // Handler for reading documentation content and project files
+        server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+            const { uri } = request.params;
+            const filePath = await this.resolveResourceFile(uri);
+            const content = await readExisting(filePath);
+            if (content === null) {
+                throw new McpError(ErrorCode.MethodNotFound, `Resource not found: ${uri}`);
             }
 
             return {
                 contents: [{
-                    uri: request.params.uri,
-                    mimeType: 'text/markdown',
+                    uri,
+                    mimeType: resourceMimeType(filePath),
                     text: content,
                 }],
             };
         });
+
+        // Both kinds of resource are files, watched on disk while subscribed
+        server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+            const { uri } = request.params;
+            const filePath = await this.resolveResourceFile(uri);
+            try {
+                this.watcher.subscribe(watchKey(sessionId, uri), filePath);
+                session.subscriptions.add(uri);
+            } catch (error) {
+                throw new McpError(
+                    ErrorCode.InvalidParams,
+                    `Cannot watch ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+            return {};
+        });
+
+        server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+            this.watcher.unsubscribe(watchKey(sessionId, request.params.uri));
+            session.subscriptions.delete(request.params.uri);
+            return {};
+        });
     }
 
-    private setupToolHandlers() {
-        this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-            tools: [
-                {
-                    name: 'create_project',
-                    description: 'Create a new Node.js project with enhanced configuration',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            name: {
-                                type: 'string',
-                                description: 'Project name',
-                            },
-                            type: {
-                                type: 'string',
-                                enum: ['react', 'node', 'next', 'express', 'fastify'],
-                                description: 'Project type',
-                            },
-                            path: {
-                                type: 'string',
-                                description: 'Project directory path',
-                            },
-                            typescript: {
-                                type: 'boolean',
-                                description: 'Enable TypeScript support',
-                                default: true,
-                            },
-                        },
-                        required: ['name', 'type', 'path'],
-                    },
-                },
-                {
-                    name: 'install_packages',
-                    description: 'Install npm packages with version management',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            packages: {
-                                type: 'array',
-                                items: { type: 'string' },
-                                description: 'Package names to install',
-                            },
-                            path: {
-                                type: 'string',
-                                description: 'Project directory path',
-                            },
-                            dev: {
-                                type: 'boolean',
-                                description: 'Install as dev dependency',
-                                default: false,
-                            },
-                        },
-                        required: ['packages', 'path'],
-                    },
-                },
-                {
-                    name: 'generate_component',
-                    description: 'Generate a new React component with TypeScript support',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            name: {
-                                type: 'string',
-                                description: 'Component name',
-                            },
-                            path: {
-                                type: 'string',
-                                description: 'Component directory path',
-                            },
-                            type: {
-                                type: 'string',
-                                enum: ['functional', 'class'],
-                                description: 'Component type',
-                            },
-                            props: {
-                                type: 'object',
-                                description: 'Component props with types',
-                                additionalProperties: { type: 'string' },
-                            },
-                        },
-                        required: ['name', 'path', 'type'],
-                    },
-                },
-                {
-                    name: 'create_type_definition',
-                    description: 'Create TypeScript type definitions or interfaces',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            name: {
-                                type: 'string',
-                                description: 'Type name',
-                            },
-                            path: {
-                                type: 'string',
-                                description: 'File path',
-                            },
-                            properties: {
-                                type: 'object',
-                                description: 'Type properties and their types',
-                                additionalProperties: { type: 'string' },
-                            },
-                        },
-                        required: ['name', 'path', 'properties'],
-                    },
-                },
-                {
-                    name: 'add_script',
-                    description: 'Add a new npm script to package.json',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            path: {
-                                type: 'string',
-                                description: 'Project directory path',
-                            },
-                            name: {
-                                type: 'string',
-                                description: 'Script name',
-                            },
-                            command: {
-                                type: 'string',
-                                description: 'Script command',
-                            },
-                        },
-                        required: ['path', 'name', 'command'],
-                    },
-                },
-                {
-                    name: 'update_tsconfig',
-                    description: 'Update TypeScript configuration',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            path: {
-                                type: 'string',
-                                description: 'Project directory path',
-                            },
-                            options: {
-                                type: 'object',
-                                description: 'TypeScript compiler options',
-                                additionalProperties: true,
-                            },
-                        },
-                        required: ['path', 'options'],
-                    },
-                },
-                {
-                    name: 'create_documentation',
-                    description: 'Generate project documentation',
-                    inputSchema: {
-                        type: 'object',
-                        properties: {
-                            path: {
-                                type: 'string',
-                                description: 'Project directory path',
-                            },
-                            type: {
-                                type: 'string',
-                                enum: ['readme', 'api', 'component'],
-                                description: 'Documentation type',
-                            },
-                            name: {
-                                type: 'string',
-                                description: 'Component or API name for specific documentation',
-                            },
-                        },
-                        required: ['path', 'type'],
-                    },
-                },
-            ],
+    /**
+     * Resolves a project:// or docs:// URI to a file inside the allowed roots
+     * @throws McpError (InvalidParams) for an unsupported URI or a path outside the roots,
+     * (MethodNotFound) for documentation that is not indexed
+     */
+    private async resolveResourceFile(uri: string): Promise<string> {
+        if (uri.startsWith(PROJECT_SCHEME)) {
+            const { projectPath, file } = parseProjectResourceUri(uri);
+            return this.workspace.resolve(path.join(projectPath, ...file.split('/')));
+        }
+        if (uri.startsWith(DOCS_SCHEME)) {
+            const doc = this.docs.get(parseDocUri(uri));
+            if (!doc) {
+                throw new McpError(ErrorCode.MethodNotFound, `Documentation not found: ${uri}`);
+            }
+            return this.workspace.resolve(doc.file);
+        }
+        throw new McpError(ErrorCode.InvalidParams, `Unsupported resource URI: ${uri}`);
+    }
+
+    private notifyResourceUpdated(key: string) {
+        const [sessionId, uri] = JSON.parse(key) as [string, string];
+        this.sessions.get(sessionId)?.server.sendResourceUpdated({ uri })
+            .catch((error) => logger.error('Cannot send resource update', { session: sessionId, uri, error }));
+    }
+
+    /**
+     * Indexes documentation written to disk; clients hear of new entries through
+     * list_changed and of changed files through their subscriptions
+     */
+    private async recordDoc(key: DocKey, file: string) {
+        if (await this.docs.set(key, file)) {
+            this.sessions.forEach(({ server }) => {
+                server.sendResourceListChanged().catch((error) => logger.error('Cannot send resource list change', { error }));
+            });
+        }
+    }
+
+    /**
+     * Loads the built-in plugins, then those in the plugins config file.
+     * A plugin that fails to load is reported and skipped.
+     */
+    private async loadPlugins() {
+        const log = logger.child('plugins');
+        this.plugins = BUILTIN_PLUGINS.map(plugin => ({ plugin, options: {}, logger: this.host.logger, external: false }));
+        const configFile = this.host.config.plugins;
+        if (!configFile) {
+            return;
+        }
+
+        let references: PluginReference[];
+        try {
+            references = await readPluginConfig(configFile);
+        } catch (error) {
+            log.error('Cannot read the plugins config', { file: configFile, error: error instanceof Error ? error.message : error });
+            return;
+        }
+        for (const reference of references) {
+            try {
+                const plugin = await importPlugin(reference, configFile);
+                this.plugins.push({ plugin, options: reference.options, logger: logger.child(`plugin:${plugin.name}`), external: true });
+                log.info(`Loaded plugin ${plugin.name}`, { module: reference.module });
+            } catch (error) {
+                log.error('Cannot load plugin', { module: reference.module, error: error instanceof Error ? error.message : error });
+            }
+        }
+    }
+
+    /**
+     * Creates the tools of a session, with a host holding the session's journal.
+     * An external plugin whose tools are malformed or clash with others is reported and skipped.
+     */
+    private async createTools(journal: ChangeJournal, sessionId: string): Promise<ToolRegistry> {
+        const registry = new ToolRegistry();
+        for (const { plugin, options, logger: pluginLogger, external } of this.plugins) {
+            // Entries are tagged with the session, so only its client receives them
+            const host: ToolHost = { ...this.host, journal, logger: pluginLogger.child(pluginLogger.name, { session: sessionId }) };
+            if (!external) {
+                registry.register(...await plugin.tools(host, options));
+                continue;
+            }
+            try {
+                registry.register(...validatePluginTools(plugin.name, await plugin.tools(host, options)));
+            } catch (error) {
+                logger.child('plugins').error(`Cannot create the tools of plugin ${plugin.name}`, {
+                    session: sessionId,
+                    error: error instanceof Error ? error.message : error,
+                });
+            }
+        }
+        return registry;
+    }
+
+    private setupToolHandlers(server: Server, session: Session, sessionId: string) {
+        server.setRequestHandler(ListToolsRequestSchema, async () => ({
+            tools: session.tools.list(),
         }));
 
-        this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+        server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+            if (this.closing) {
+                throw new McpError(ErrorCode.InternalError, 'Server is shutting down');
+            }
+            const { tool, args } = session.tools.prepare(request.params.name, request.params.arguments ?? {});
+            // Aborted when the client cancels the call, or when shutdown stops waiting for it
+            const controller = new AbortController();
+            const cancel = () => controller.abort(extra.signal.reason);
+            extra.signal.addEventListener('abort', cancel);
+
+            const progressToken = request.params._meta?.progressToken;
+            const call = this.callTool(tool, args, {
+                progressToken,
+                reportProgress: (progress, total) => {
+                    if (progressToken === undefined) return;
+                    extra.sendNotification({
+                        method: 'notifications/progress',
+                        params: { progressToken, progress, total },
+                    }).catch((error) => logger.error('Cannot send progress', { session: sessionId, error }));
+                },
+                signal: controller.signal,
+            }, session.journal, sessionId);
+            this.inFlight.set(controller, call);
             try {
-                const args = request.params.arguments as Record<string, unknown>;
-                switch (request.params.name) {
-                    case 'create_project':
-                        return await this.handleCreateProject(args as CreateProjectArgs);
-                    case 'install_packages':
-                        return await this.handleInstallPackages(args as InstallPackageArgs);
-                    case 'generate_component':
-                        return await this.handleGenerateComponent(args as GenerateComponentArgs);
-                    case 'create_type_definition':
-                        return await this.handleCreateTypeDefinition(args as CreateTypeDefinitionArgs);
-                    case 'add_script':
-                        return await this.handleAddScript(args as AddScriptArgs);
-                    case 'update_tsconfig':
-                        return await this.handleUpdateTsConfig(args as UpdateTsConfigArgs);
-                    case 'create_documentation':
-                        return await this.handleCreateDocumentation(args as CreateDocumentationArgs);
-                    default:
-                        throw new McpError(
-                            ErrorCode.MethodNotFound,
-                            `Unknown tool: ${request.params.name}`
-                        );
-                }
-            } catch (error: unknown) {
-                if (error instanceof McpError) throw error;
-                throw new McpError(
-                    ErrorCode.InternalError,
-                    `Error executing ${request.params.name}: ${error instanceof Error ? error.message : String(error)}`
-                );
+                return await call;
+            } finally {
+                this.inFlight.delete(controller);
+                extra.signal.removeEventListener('abort', cancel);
             }
         });
     }
 
-    private setupPromptHandlers() {
+    /**
+     * Runs a tool and appends the call to the audit log, whatever its outcome
+     */
+    private async callTool(
+        tool: ToolDefinition,
+        args: Record<string, unknown>,
+        context: Omit<ToolContext, 'operation'>,
+        journal: ChangeJournal,
+        sessionId: string
+    ): Promise<ToolResult> {
+        // Every call gets a journal operation; calls that write nothing are never listed
+        const operation = journal.begin(tool.name, args);
+        const startTime = Date.now();
+        let outcome: AuditOutcome = 'error';
+        let errorMessage: string | undefined;
+        try {
+            const result = await tool.handler(args, { ...context, operation });
+            outcome = result.isError ? 'failure' : 'success';
+            errorMessage = result.isError ? result.content[0]?.text.split('\n')[0] : undefined;
+            return result;
+        } catch (error: unknown) {
+            errorMessage = error instanceof Error ? error.message : String(error);
+            if (error instanceof McpError) throw error;
+            throw new McpError(ErrorCode.InternalError, `Error executing ${tool.name}: ${errorMessage}`);
+        } finally {
+            // Capture final file states, including partial writes from failed calls
+            await operation.finish();
+            if (context.signal.aborted) {
+                outcome = 'cancelled';
+            }
+            const durationMs = Date.now() - startTime;
+            logger.child('tools').log(outcome === 'success' ? 'debug' : 'info', `Tool call ${tool.name}: ${outcome}`, {
+                session: sessionId,
+                operation: operation.id,
+                durationMs,
+            });
+            this.audit.append({
+                time: new Date(startTime).toISOString(),
+                session: sessionId,
+                tool: tool.name,
+                arguments: redactSecrets(args),
+                paths: operation.describeChanges(),
+                commands: operation.getCommands().map(({ command, cwd }) => ({ command: redactSecrets(command) as string, cwd })),
+                durationMs,
+                outcome,
+                error: errorMessage === undefined ? undefined : redactSecrets(errorMessage) as string,
+            }).catch((error) => logger.error('Cannot write the audit log', { file: this.audit.getFile(), error }));
+        }
+    }
+
+    private setupPromptHandlers(server: Server) {
         // List prompts handler with proper schema
-        this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+        server.setRequestHandler(ListPromptsRequestSchema, async () => ({
             prompts: Object.values(this.prompts)
         }));
 
         // Get prompt handler with proper schema
-        this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+        server.setRequestHandler(GetPromptRequestSchema, async (request) => {
             const { name, arguments: args } = request.params;
             const prompt = this.prompts[name];
 
@@ -525,612 +680,31 @@ ${features.includes('docker') ? '8. Docker configuration guidance' : ''}`
         }
     }
 
-    /**
-     * Validates a path and creates it if it doesn't exist
-     * @param path Directory path to validate/create
-     * @throws McpError if path is invalid or cannot be created
-     */
-    // Enhanced error handling for path validation
-    private async validatePath(path: string): Promise<void> {
+    async run() {
         try {
-            // Check if path exists
-            try {
-                await fs.access(path);
-            } catch {
-                // If path doesn't exist, create it
-                await fs.mkdir(path, { recursive: true });
-                return;
-            }
-
-            // If path exists, verify it's a directory
-            const stats = await fs.stat(path);
-            if (!stats.isDirectory()) {
-                throw new McpError(
-                    ErrorCode.InvalidParams,
-                    `Path ${path} exists but is not a directory`
-                );
-            }
+            await this.docs.load();
         } catch (error) {
-            if (error instanceof McpError) throw error;
-            throw new McpError(
-                ErrorCode.InvalidParams,
-                `Failed to validate/create path ${path}: ${error instanceof Error ? error.message : String(error)}`
-            );
-        }
-    }
-
-    private getProjectTemplate(type: string, name: string, typescript: boolean): {
-        command: string;
-        dependencies: string[];
-        devDependencies: string[];
-    } {
-        const templates: Record<string, {
-            command: string;
-            dependencies: string[];
-            devDependencies: string[];
-        }> = {
-            react: {
-                command: typescript
-                    ? `npx create-react-app ./ --template typescript`
-                    : `npx create-react-app ./`,
-                dependencies: ['react', 'react-dom'],
-                devDependencies: typescript
-                    ? ['@types/react', '@types/react-dom', '@types/node']
-                    : [],
-            },
-            next: {
-                command: `npx create-next-app@latest ./ ${typescript ? '--typescript' : ''} --tailwind --eslint`,
-                dependencies: ['next', 'react', 'react-dom'],
-                devDependencies: typescript
-                    ? ['@types/node', '@types/react', '@types/react-dom']
-                    : [],
-            },
-            express: {
-                command: `npm init -y`,
-                dependencies: ['express', 'cors', 'dotenv'],
-                devDependencies: typescript
-                    ? ['typescript', '@types/node', '@types/express', '@types/cors', 'ts-node', 'nodemon']
-                    : ['nodemon'],
-            },
-            fastify: {
-                command: `npm init -y`,
-                dependencies: ['fastify', '@fastify/cors', '@fastify/env'],
-                devDependencies: typescript
-                    ? ['typescript', '@types/node', 'ts-node', 'nodemon']
-                    : ['nodemon'],
-            },
-            node: {
-                command: `npm init -y`,
-                dependencies: [],
-                devDependencies: typescript
-                    ? ['typescript', '@types/node', 'ts-node', 'nodemon']
-                    : ['nodemon'],
-            },
-        };
-
-        const template = templates[type];
-        if (!template) {
-            throw new McpError(ErrorCode.InvalidParams, `Unsupported project type: ${type}`);
+            logger.error('Cannot load the documentation index', { error });
         }
-
-        return template;
-    }
-
-    private async handleCreateProject(args: CreateProjectArgs) {
-        try {
-            // Create the project directory first
-            const projectPath = path.join(args.path, args.name);
-            await fs.mkdir(projectPath, { recursive: true });
-
-            const typescript = args.typescript !== false;
-            const template = this.getProjectTemplate(args.type, args.name, typescript);
-
-            // Execute project creation command in the project directory
-            const { stdout: createOutput } = await execAsync(template.command, {
-                cwd: projectPath
-            });
-
-            // Install dependencies directly in the project directory
-            if (template.dependencies.length > 0) {
-                const installCmd = `npm install ${template.dependencies.join(' ')}`;
-                await execAsync(installCmd, { cwd: projectPath });
-            }
-
-            // Install dev dependencies
-            if (template.devDependencies.length > 0) {
-                const installDevCmd = `npm install --save-dev ${template.devDependencies.join(' ')}`;
-                await execAsync(installDevCmd, { cwd: projectPath });
+        await this.loadPlugins();
+        const { transport, host, port, authToken, auditLog } = this.host.config;
+        if (transport === 'http') {
+            this.http = new McpHttpServer({ host, port, authToken, connect: session => this.connectSession(session) });
+            const url = await this.http.listen();
+            logger.notice('Node.js Omnibus MCP server listening', { streamableHttp: `${url}${MCP_PATH}`, sse: `${url}${SSE_PATH}` });
+            if (!authToken) {
+                logger.warning('No auth token set; only loopback clients are accepted');
             }
-
-            // Setup TypeScript configuration if needed
-            if (typescript) {
-                const tsConfig = {
-                    compilerOptions: {
-                        target: "es2020",
-                        module: "commonjs",
-                        outDir: "./dist",
-                        rootDir: "./src",
-                        strict: true,
-                        esModuleInterop: true,
-                        skipLibCheck: true,
-                        forceConsistentCasingInFileNames: true,
-                        jsx: args.type === 'react' || args.type === 'next' ? "react-jsx" : undefined,
-                    },
-                    include: ["src/**/*"],
-                    exclude: ["node_modules", "dist"]
-                };
-
-                await fs.mkdir(path.join(projectPath, 'src'), { recursive: true });
-                await fs.writeFile(
-                    path.join(projectPath, 'tsconfig.json'),
-                    JSON.stringify(tsConfig, null, 2)
-                );
-            }
-
-            // Create initial documentation
-            const readmeContent = this.generateReadme(args.name, args.type, typescript);
-            await fs.writeFile(
-                path.join(projectPath, 'README.md'),
-                readmeContent
-            );
-
-            // Store documentation in memory
-            this.projectDocs.set(args.name, readmeContent);
-
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: `Project ${args.name} created successfully with ${typescript ? 'TypeScript' : 'JavaScript'} configuration`,
-                    },
-                ],
-            };
-        } catch (error: unknown) {
-            throw new McpError(
-                ErrorCode.InternalError,
-                `Failed to create project: ${error instanceof Error ? error.message : String(error)}`
-            );
-        }
-    }
-
-
-
-    private generateReadme(name: string, type: string, typescript: boolean): string {
-        return `# ${name}
-
-## Description
-A ${type} project using ${typescript ? 'TypeScript' : 'JavaScript'}.
-
-## Setup
-\`\`\`bash
-npm install
-\`\`\`
-
-## Development
-\`\`\`bash
-npm run dev
-\`\`\`
-
-## Build
-\`\`\`bash
-npm run build
-\`\`\`
-
-## Project Structure
-- \`src/\` - Source files
-${typescript ? '- `dist/` - Compiled output\n' : ''}
-- \`public/\` - Static assets
-- \`package.json\` - Project configuration
-${typescript ? '- `tsconfig.json` - TypeScript configuration\n' : ''}
-
-## Scripts
-- \`npm run dev\` - Start development server
-- \`npm run build\` - Build for production
-- \`npm start\` - Start production server
-`;
-    }
-
-    private async handleGenerateComponent(args: GenerateComponentArgs) {
-        await this.validatePath(args.path);
-
-        const componentContent = this.generateComponentContent(args);
-        const fileName = `${args.name}.tsx`;
-        const filePath = path.join(args.path, fileName);
-
-        try {
-            await fs.writeFile(filePath, componentContent);
-
-            // Generate component documentation
-            const docContent = this.generateComponentDocumentation(args);
-            const docPath = path.join(args.path, `${args.name}.md`);
-            await fs.writeFile(docPath, docContent);
-
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: `Component ${args.name} created successfully at ${filePath}`,
-                    },
-                ],
-            };
-        } catch (error) {
-            throw new McpError(
-                ErrorCode.InternalError,
-                `Failed to generate component: ${error instanceof Error ? error.message : String(error)}`
-            );
-        }
-    }
-
-    private generateComponentContent(args: GenerateComponentArgs): string {
-        const propsInterface = args.props
-            ? `interface ${args.name}Props {
-    ${Object.entries(args.props).map(([key, type]) => `${key}: ${type};`).join('\n    ')}
-}`
-            : '';
-
-        if (args.type === 'functional') {
-            return `import React from 'react';
-
-${propsInterface}
-
-${args.props
-                    ? `const ${args.name}: React.FC<${args.name}Props> = ({ ${Object.keys(args.props).join(', ')} }) => {`
-                    : `const ${args.name}: React.FC = () => {`}
-    return (
-        <div>
-            {/* Add your component content here */}
-        </div>
-    );
-};
-
-export default ${args.name};
-`;
         } else {
-            return `import React, { Component } from 'react';
-
-${propsInterface}
-
-class ${args.name} extends Component${args.props ? `<${args.name}Props>` : ''} {
-    render() {
-        return (
-            <div>
-                {/* Add your component content here */}
-            </div>
-        );
-    }
-}
-
-export default ${args.name};
-`;
-        }
-    }
-
-    private generateComponentDocumentation(args: GenerateComponentArgs): string {
-        return `# ${args.name} Component
-
-## Overview
-${args.type === 'functional' ? 'A functional React component' : 'A class-based React component'}
-
-## Props
-${args.props
-                ? Object.entries(args.props)
-                    .map(([key, type]) => `- \`${key}\`: ${type}`)
-                    .join('\n')
-                : 'This component does not accept any props.'}
-
-## Usage
-\`\`\`tsx
-import ${args.name} from './${args.name}';
-
-${args.props
-                ? `// Example usage with props
-<${args.name} ${Object.entries(args.props)
-                    .map(([key, type]) => `${key}={${this.getExampleValue(type)}}`)
-                    .join(' ')} />`
-                : `// Example usage
-<${args.name} />`}
-\`\`\`
-`;
-    }
-
-    private getExampleValue(type: string): string {
-        switch (type.toLowerCase()) {
-            case 'string':
-                return '"example"';
-            case 'number':
-                return '42';
-            case 'boolean':
-                return 'true';
-            case 'array':
-            case 'string[]':
-                return '["item1", "item2"]';
-            case 'object':
-                return '{ key: "value" }';
-            default:
-                return 'undefined';
+            await this.connectSession(new StdioServerTransport());
+            logger.notice('Node.js Omnibus MCP server running on stdio');
         }
-    }
-
-    private async handleCreateTypeDefinition(args: CreateTypeDefinitionArgs) {
-        await this.validatePath(args.path);
-
-        const typeContent = `export interface ${args.name} {
-    ${Object.entries(args.properties)
-                .map(([key, type]) => `${key}: ${type};`)
-                .join('\n    ')}
-}
-`;
-
-        const filePath = path.join(args.path, `${args.name}.ts`);
-
-        try {
-            await fs.writeFile(filePath, typeContent);
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: `Type definition ${args.name} created successfully at ${filePath}`,
-                    },
-                ],
-            };
-        } catch (error) {
-            throw new McpError(
-                ErrorCode.InternalError,
-                `Failed to create type definition: ${error instanceof Error ? error.message : String(error)}`
-            );
-        }
-    }
-
-    private async handleAddScript(args: AddScriptArgs) {
-        await this.validatePath(args.path);
-
-        try {
-            const packageJsonPath = path.join(args.path, 'package.json');
-            const packageJson = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8'));
-
-            if (!packageJson.scripts) {
-                packageJson.scripts = {};
-            }
-
-            packageJson.scripts[args.name] = args.command;
-
-            await fs.writeFile(packageJsonPath, JSON.stringify(packageJson, null, 2));
-
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: `Added script '${args.name}': ${args.command}`,
-                    },
-                ],
-            };
-        } catch (error) {
-            throw new McpError(
-                ErrorCode.InternalError,
-                `Failed to add script: ${error instanceof Error ? error.message : String(error)}`
-            );
-        }
-    }
-
-    private async handleUpdateTsConfig(args: UpdateTsConfigArgs) {
-        await this.validatePath(args.path);
-
-        try {
-            const tsconfigPath = path.join(args.path, 'tsconfig.json');
-            interface TsConfig {
-                compilerOptions: Record<string, unknown>;
-                include?: string[];
-                exclude?: string[];
-            }
-            let tsconfig: TsConfig = {
-                compilerOptions: {}
-            };
-
-            try {
-                tsconfig = JSON.parse(await fs.readFile(tsconfigPath, 'utf-8')) as TsConfig;
-            } catch {
-                // Create new tsconfig if it doesn't exist
-                tsconfig = {
-                    compilerOptions: {},
-                    include: ["src/**/*"],
-                    exclude: ["node_modules", "dist"]
-                };
-            }
-
-            // Deep merge the new options
-            tsconfig.compilerOptions = {
-                ...tsconfig.compilerOptions,
-                ...args.options,
-            };
-
-            await fs.writeFile(tsconfigPath, JSON.stringify(tsconfig, null, 2));
-
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: `Updated TypeScript configuration at ${tsconfigPath}`,
-                    },
-                ],
-            };
-        } catch (error) {
-            throw new McpError(
-                ErrorCode.InternalError,
-                `Failed to update TypeScript configuration: ${error instanceof Error ? error.message : String(error)}`
-            );
-        }
-    }
-
-    private async handleInstallPackages(args: InstallPackageArgs) {
-        await this.validatePath(args.path);
-
-        try {
-            // Verify package.json exists
-            const packageJsonPath = path.join(args.path, 'package.json');
-            await fs.access(packageJsonPath);
-
-            // Install packages
-            const installCmd = `npm install ${args.dev ? '--save-dev' : ''} ${args.packages.join(' ')}`;
-            const { stdout, stderr } = await execAsync(installCmd, { cwd: args.path });
-
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: `Packages installed successfully:\n${stdout}\n${stderr}`,
-                    },
-                ],
-            };
-        } catch (error) {
-            throw new McpError(
-                ErrorCode.InternalError,
-                `Failed to install packages: ${error instanceof Error ? error.message : String(error)}`
-            );
-        }
-    }
-
-    private async handleCreateDocumentation(args: CreateDocumentationArgs) {
-        await this.validatePath(args.path);
-
-        try {
-            let content = '';
-            let fileName = '';
-
-            switch (args.type) {
-                case 'readme':
-                    content = await this.generateProjectDocumentation(args.path);
-                    fileName = 'README.md';
-                    break;
-                case 'api':
-                    content = await this.generateApiDocumentation(args.path);
-                    fileName = 'API.md';
-                    break;
-                case 'component':
-                    if (!args.name) {
-                        throw new McpError(ErrorCode.InvalidParams, 'Component name is required for component documentation');
-                    }
-                    content = await this.generateComponentDoc(args.path, args.name);
-                    fileName = `${args.name}.md`;
-                    break;
-            }
-
-            const docPath = path.join(args.path, fileName);
-            await fs.writeFile(docPath, content);
-
-            // Store in memory for resource access
-            this.projectDocs.set(path.basename(args.path), content);
-
-            return {
-                content: [
-                    {
-                        type: 'text',
-                        text: `Documentation created successfully at ${docPath}`,
-                    },
-                ],
-            };
-        } catch (error) {
-            throw new McpError(
-                ErrorCode.InternalError,
-                `Failed to create documentation: ${error instanceof Error ? error.message : String(error)}`
-            );
-        }
-    }
-
-    private async generateProjectDocumentation(projectPath: string): Promise<string> {
-        const packageJson = JSON.parse(
-            await fs.readFile(path.join(projectPath, 'package.json'), 'utf-8')
-        );
-
-        return `# ${packageJson.name}
-
-## Description
-${packageJson.description || 'A Node.js project'}
-
-## Installation
-\`\`\`bash
-npm install
-\`\`\`
-
-## Scripts
-${Object.entries(packageJson.scripts || {})
-                .map(([name, command]) => `- \`npm run ${name}\`: ${command}`)
-                .join('\n')}
-
-## Dependencies
-${Object.entries(packageJson.dependencies || {})
-                .map(([name, version]) => `- \`${name}\`: ${version}`)
-                .join('\n')}
-
-## Dev Dependencies
-${Object.entries(packageJson.devDependencies || {})
-                .map(([name, version]) => `- \`${name}\`: ${version}`)
-                .join('\n')}
-`;
-    }
-
-    private async generateApiDocumentation(projectPath: string): Promise<string> {
-        // This is a basic implementation. In a real-world scenario,
-        // you might want to use a tool like swagger-jsdoc to generate API documentation
-        return `# API Documentation
-
-## Endpoints
-
-### GET /api
-Description of the GET /api endpoint
-
-### POST /api
-Description of the POST /api endpoint
-
-## Models
-Description of your data models
-
-## Authentication
-Description of your authentication methods
-`;
-    }
-
-    private async generateComponentDoc(projectPath: string, componentName: string): Promise<string> {
-        try {
-            const componentPath = path.join(projectPath, `${componentName}.tsx`);
-            const componentContent = await fs.readFile(componentPath, 'utf-8');
-
-            // Basic prop extraction - in a real implementation you might want to use
-            // a proper TypeScript parser
-            const propsMatch = componentContent.match(/interface (\w+)Props {([^}]+)}/);
-            const props = propsMatch ? propsMatch[2].trim() : 'No props defined';
-
-            return `# ${componentName} Component
-
-## Props
-\`\`\`typescript
-${props}
-\`\`\`
-
-## Usage
-\`\`\`tsx
-import ${componentName} from './${componentName}';
-
-// Example usage
-<${componentName} />
-\`\`\`
-
-## Description
-Add component description here.
-`;
-        } catch (error) {
-            throw new McpError(
-                ErrorCode.InternalError,
-                `Failed to generate component documentation: ${error instanceof Error ? error.message : String(error)}`
-            );
-        }
-    }
-
-    async run() {
-        const transport = new StdioServerTransport();
-        await this.server.connect(transport);
-        console.error('Node.js Omnibus MCP server running on stdio');
+        logger.info('Configuration', { allowedRoots: this.workspace.getRoots(), auditLog });
     }
 }
 
-const server = new NodeOmnibusServer();
-server.run().catch(console.error);
+const server = new NodeOmnibusServer(loadConfig());
+server.run().catch((error) => {
+    logger.log('critical', 'Cannot start the server', { error });
+    process.exit(1);
+});
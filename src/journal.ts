@@ -0,0 +1,311 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { Dirent } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { readExisting } from './file-changes.js';
+import { CommandRecorder, formatCommand } from './process.js';
+
+/**
+ * A file or directory touched by an operation, with what is needed to revert it
+ */
+export interface JournalEntry {
+    path: string;
+    kind: 'file' | 'directory';
+    /** File contents before the operation, or null if the file did not exist */
+    before: string | null;
+    /** File contents once the operation finished, or null if it was deleted */
+    after?: string | null;
+    /** Files in a created directory once the operation finished, mapped to their size and modification time */
+    files?: Map<string, string>;
+}
+
+/**
+ * Receives notice of files about to be written, so they can be reverted later
+ */
+export interface ChangeRecorder {
+    recordFile(filePath: string, before: string | null): void;
+}
+
+/**
+ * The set of changes made by one tool call, and the commands it ran
+ */
+export class JournalOperation implements ChangeRecorder, CommandRecorder {
+    readonly timestamp = new Date().toISOString();
+    undone = false;
+    private readonly entries = new Map<string, JournalEntry>();
+    private readonly commands: { command: string; cwd: string }[] = [];
+
+    constructor(
+        readonly id: number,
+        readonly tool: string,
+        readonly args: Record<string, unknown>
+    ) { }
+
+    /**
+     * Records a file's contents before it is first changed. Later calls for the
+     * same path are ignored so the earliest state is what gets restored.
+     */
+    recordFile(filePath: string, before: string | null): void {
+        if (!this.entries.has(filePath)) {
+            this.entries.set(filePath, { path: filePath, kind: 'file', before });
+        }
+    }
+
+    /**
+     * Reads and records a file's current contents before an external command may change it
+     */
+    async snapshot(filePath: string): Promise<void> {
+        if (!this.entries.has(filePath)) {
+            this.recordFile(filePath, await readExisting(filePath));
+        }
+    }
+
+    /**
+     * Records a directory created by this operation; undoing removes it with its contents
+     */
+    recordDirectory(dirPath: string): void {
+        this.entries.set(dirPath, { path: dirPath, kind: 'directory', before: null });
+    }
+
+    /**
+     * Captures the final state of every recorded file, and the files in every created
+     * directory, and drops snapshots that did not change
+     */
+    async finish(): Promise<void> {
+        for (const entry of this.entries.values()) {
+            if (entry.kind === 'file') {
+                entry.after = await readExisting(entry.path);
+                if (entry.after === entry.before) {
+                    this.entries.delete(entry.path);
+                }
+            } else {
+                entry.files = await listFiles(entry.path);
+            }
+        }
+    }
+
+    recordCommand(command: string, args: string[], cwd: string): void {
+        this.commands.push({ command: formatCommand(command, args), cwd });
+    }
+
+    getEntries(): JournalEntry[] {
+        return Array.from(this.entries.values());
+    }
+
+    /**
+     * Changed paths with what happened to them, e.g. created or modified
+     */
+    describeChanges(): { path: string; change: string }[] {
+        return this.getEntries().map(entry => ({ path: entry.path, change: describeEntry(entry) }));
+    }
+
+    getCommands(): { command: string; cwd: string }[] {
+        return [...this.commands];
+    }
+
+    /**
+     * Whether this operation changed the entry's path, something inside it, or a directory containing it
+     */
+    overlaps(other: JournalEntry): boolean {
+        return this.getEntries().some(entry => contains(entry, other.path) || contains(other, entry.path));
+    }
+}
+
+function contains(entry: JournalEntry, targetPath: string): boolean {
+    return targetPath === entry.path || (entry.kind === 'directory' && targetPath.startsWith(entry.path + path.sep));
+}
+
+/**
+ * Lists the files below a directory, mapped to their size and modification time.
+ * Symlinks are listed rather than followed.
+ */
+async function listFiles(dir: string, files = new Map<string, string>()): Promise<Map<string, string>> {
+    let children: Dirent[];
+    try {
+        children = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return files;
+        }
+        throw error;
+    }
+    for (const child of children) {
+        const childPath = path.join(dir, child.name);
+        if (child.isDirectory()) {
+            await listFiles(childPath, files);
+        } else {
+            const stats = await fs.lstat(childPath);
+            files.set(childPath, `${stats.size}:${stats.mtimeMs}`);
+        }
+    }
+    return files;
+}
+
+// Paths named when refusing to remove a directory
+const MAX_LISTED_PATHS = 5;
+
+export interface UndoResult {
+    operationId: number;
+    tool: string;
+    reverted: { path: string; action: 'restored' | 'deleted' | 'removed directory' }[];
+}
+
+function describeEntry(entry: JournalEntry): string {
+    if (entry.kind === 'directory') {
+        return 'created directory';
+    }
+    if (entry.before === null) {
+        return 'created';
+    }
+    return entry.after === null ? 'deleted' : 'modified';
+}
+
+/**
+ * In-memory log of the changes made during this server session
+ */
+export class ChangeJournal {
+    private readonly operations: JournalOperation[] = [];
+    private nextId = 1;
+
+    /**
+     * Starts a new operation. Operations that end up recording nothing are not listed.
+     */
+    begin(tool: string, args: Record<string, unknown>): JournalOperation {
+        const operation = new JournalOperation(this.nextId++, tool, args);
+        this.operations.push(operation);
+        return operation;
+    }
+
+    /**
+     * Lists operations that changed something, oldest first
+     */
+    list(includeUndone = false) {
+        return this.operations
+            .filter(operation => operation.getEntries().length > 0 && (includeUndone || !operation.undone))
+            .map(operation => ({
+                id: operation.id,
+                tool: operation.tool,
+                arguments: operation.args,
+                timestamp: operation.timestamp,
+                undone: operation.undone,
+                changes: operation.describeChanges(),
+            }));
+    }
+
+    /**
+     * Reverts one operation, or every operation of the session when no id is given,
+     * newest first.
+     *
+     * Without `force`, an operation is only reverted if none of its files were changed
+     * afterwards, either by a later operation or outside the server, and the directories
+     * it created hold no files added or changed since.
+     *
+     * @throws McpError (InvalidParams) for an unknown id or a file changed since
+     */
+    async undo(options: { operationId?: number; force?: boolean; dryRun?: boolean } = {}): Promise<UndoResult[]> {
+        const pending = this.operations.filter(operation => !operation.undone && operation.getEntries().length > 0);
+
+        let targets: JournalOperation[];
+        if (options.operationId !== undefined) {
+            const operation = pending.find(candidate => candidate.id === options.operationId);
+            if (!operation) {
+                throw new McpError(
+                    ErrorCode.InvalidParams,
+                    `No undoable operation with id ${options.operationId}. Use list_changes to see recorded operations.`
+                );
+            }
+            targets = [operation];
+        } else {
+            targets = [...pending].reverse();
+        }
+
+        if (!options.force) {
+            for (const operation of targets) {
+                await this.assertUndoable(operation, pending.filter(other => other.id > operation.id), targets);
+            }
+        }
+
+        const results: UndoResult[] = [];
+        for (const operation of targets) {
+            const reverted: UndoResult['reverted'] = [];
+            // Revert in reverse order so files are restored before their directories are removed
+            for (const entry of operation.getEntries().reverse()) {
+                if (entry.kind === 'directory') {
+                    if (!options.dryRun) {
+                        await fs.rm(entry.path, { recursive: true, force: true });
+                    }
+                    reverted.push({ path: entry.path, action: 'removed directory' });
+                } else if (entry.before === null) {
+                    if (!options.dryRun) {
+                        await fs.rm(entry.path, { force: true });
+                    }
+                    reverted.push({ path: entry.path, action: 'deleted' });
+                } else {
+                    if (!options.dryRun) {
+                        await fs.mkdir(path.dirname(entry.path), { recursive: true });
+                        await fs.writeFile(entry.path, entry.before);
+                    }
+                    reverted.push({ path: entry.path, action: 'restored' });
+                }
+            }
+            if (!options.dryRun) {
+                operation.undone = true;
+            }
+            results.push({ operationId: operation.id, tool: operation.tool, reverted });
+        }
+
+        return results;
+    }
+
+    private async assertUndoable(
+        operation: JournalOperation,
+        later: JournalOperation[],
+        targets: JournalOperation[]
+    ): Promise<void> {
+        for (const entry of operation.getEntries()) {
+            const overlapping = later.filter(other => other.overlaps(entry));
+            const laterOperation = overlapping.find(other => !targets.includes(other));
+            if (laterOperation) {
+                throw new McpError(
+                    ErrorCode.InvalidParams,
+                    `Cannot undo operation ${operation.id}: ${entry.path} was changed again by operation ${laterOperation.id} (${laterOperation.tool}). ` +
+                    `Undo that operation first, or pass force: true.`
+                );
+            }
+
+            // Later operations being undone in the same call restore this entry's "after" state
+            if (entry.kind === 'file' && overlapping.length === 0) {
+                const current = await readExisting(entry.path);
+                // A created file that is already gone needs no revert
+                const alreadyReverted = entry.before === null && current === null;
+                if (current !== entry.after && !alreadyReverted) {
+                    throw new McpError(
+                        ErrorCode.InvalidParams,
+                        `Cannot undo operation ${operation.id}: ${entry.path} has been modified since. Pass force: true to revert it anyway.`
+                    );
+                }
+            }
+
+            // Removing a directory must not take files added or changed after the operation with it
+            if (entry.kind === 'directory' && entry.files) {
+                const changed: string[] = [];
+                for (const [filePath, state] of await listFiles(entry.path)) {
+                    // Those of later operations being undone in the same call are reverted first
+                    const revertedFirst = overlapping.some(other => other.getEntries().some(changedEntry => contains(changedEntry, filePath)));
+                    if (entry.files.get(filePath) !== state && !revertedFirst) {
+                        changed.push(filePath);
+                    }
+                }
+                if (changed.length > 0) {
+                    const listed = changed.slice(0, MAX_LISTED_PATHS).join(', ');
+                    const more = changed.length > MAX_LISTED_PATHS ? ` and ${changed.length - MAX_LISTED_PATHS} more` : '';
+                    throw new McpError(
+                        ErrorCode.InvalidParams,
+                        `Cannot undo operation ${operation.id}: removing ${entry.path} would delete files added or changed since: ${listed}${more}. ` +
+                        `Pass force: true to remove it anyway.`
+                    );
+                }
+            }
+        }
+    }
+}
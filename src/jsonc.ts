@@ -0,0 +1,228 @@
+import ts from 'typescript';
+
+/**
+ * Parses JSON with comments and trailing commas
+ * @throws Error when the text is not valid JSONC
+ */
+export function parseJsonc(text: string, fileName = 'file.json'): unknown {
+    const { config, error } = ts.parseConfigFileTextToJson(fileName, text);
+    if (error) {
+        throw new Error(ts.flattenDiagnosticMessageText(error.messageText, '\n'));
+    }
+    return config;
+}
+
+/**
+ * The indentation unit of a JSON document: its first indented line, else two spaces
+ */
+export function detectIndent(text: string): string {
+    return /^([ \t]+)\S/m.exec(text)?.[1] ?? '  ';
+}
+
+/**
+ * Sets the value at `jsonPath` (object keys from the root), creating missing parent
+ * objects, or removes it when `value` is undefined. The text is edited in place, so
+ * comments, trailing commas and the formatting of other entries are kept.
+ * @throws Error when the document root is not an object
+ */
+export function setJsoncValue(text: string, jsonPath: string[], value: unknown): string {
+    return new JsoncEditor(text).set(jsonPath, value);
+}
+
+const INLINE_LENGTH = 60;
+
+class JsoncEditor {
+    private readonly source: ts.JsonSourceFile;
+    private readonly unit: string;
+
+    constructor(private readonly text: string) {
+        this.source = ts.parseJsonText('file.json', text);
+        this.unit = detectIndent(text);
+    }
+
+    set(jsonPath: string[], value: unknown): string {
+        const root = this.source.statements[0]?.expression;
+        if (!root || !ts.isObjectLiteralExpression(root)) {
+            throw new Error('Expected a JSON object');
+        }
+
+        let object = root;
+        for (let i = 0; i < jsonPath.length; i++) {
+            const property = this.findProperty(object, jsonPath[i]);
+            // Anything below a missing or non-object parent is built as one nested value
+            const nested = () => jsonPath.slice(i + 1).reduceRight<unknown>((child, key) => ({ [key]: child }), value);
+
+            if (!property) {
+                return value === undefined ? this.text : this.insertProperty(object, jsonPath[i], nested());
+            }
+            if (i === jsonPath.length - 1) {
+                return value === undefined ? this.removeProperty(object, property) : this.replaceValue(property, value);
+            }
+            if (!ts.isObjectLiteralExpression(property.initializer)) {
+                return value === undefined ? this.text : this.replaceValue(property, nested());
+            }
+            object = property.initializer;
+        }
+        throw new Error('Expected a non-empty JSON path');
+    }
+
+    private findProperty(object: ts.ObjectLiteralExpression, key: string): ts.PropertyAssignment | undefined {
+        // As with JSON.parse, the last duplicate key wins
+        return object.properties.filter((property): property is ts.PropertyAssignment =>
+            ts.isPropertyAssignment(property)
+            && (ts.isStringLiteral(property.name) || ts.isIdentifier(property.name))
+            && property.name.text === key).pop();
+    }
+
+    private lineStart(position: number): number {
+        return this.text.lastIndexOf('\n', position - 1) + 1;
+    }
+
+    private lineIndent(position: number): string {
+        return /^[ \t]*/.exec(this.text.slice(this.lineStart(position)))![0];
+    }
+
+    /**
+     * Formats a value for insertion at `indent`. Short lists and objects of plain
+     * values stay on one line, as they usually are in hand-written config files.
+     */
+    private format(value: unknown, indent: string): string {
+        if (value === null || typeof value !== 'object') {
+            return JSON.stringify(value);
+        }
+        const entries: [string | undefined, unknown][] = Array.isArray(value)
+            ? value.map(item => [undefined, item])
+            : Object.entries(value);
+        const isFlat = entries.every(([, item]) => item === null || typeof item !== 'object');
+        const inline = entries.map(([key, item]) => `${key === undefined ? '' : `${JSON.stringify(key)}: `}${JSON.stringify(item)}`);
+        if (entries.length === 0 || (isFlat && inline.join(', ').length <= INLINE_LENGTH)) {
+            return Array.isArray(value) ? `[${inline.join(', ')}]` : inline.length > 0 ? `{ ${inline.join(', ')} }` : '{}';
+        }
+
+        const nested = indent + this.unit;
+        const lines = entries.map(([key, item]) => `${nested}${key === undefined ? '' : `${JSON.stringify(key)}: `}${this.format(item, nested)}`);
+        const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{', '}'];
+        return `${open}\n${lines.join(',\n')}\n${indent}${close}`;
+    }
+
+    /**
+     * Skips spaces and tabs, then an optional comma and the comments trailing on the same
+     * line: block comments closed on that line and a line comment
+     */
+    private skipTrailing(position: number, comma: boolean): { end: number; commaAt?: number } {
+        let end = position;
+        const skipBlanks = () => {
+            while (this.text[end] === ' ' || this.text[end] === '\t') end++;
+        };
+        const skipBlockComments = () => {
+            while (this.text.startsWith('/*', end)) {
+                const close = this.text.indexOf('*/', end + 2);
+                // A comment running onto later lines belongs to what follows it
+                if (close === -1 || this.text.slice(end, close).includes('\n')) break;
+                end = close + 2;
+                skipBlanks();
+            }
+        };
+        skipBlanks();
+        skipBlockComments();
+        let commaAt: number | undefined;
+        if (comma && this.text[end] === ',') {
+            commaAt = end++;
+            skipBlanks();
+            skipBlockComments();
+        }
+        if (this.text.startsWith('//', end)) {
+            const newline = this.text.indexOf('\n', end);
+            end = newline === -1 ? this.text.length : newline;
+        }
+        return { end, commaAt };
+    }
+
+    /**
+     * Where a property starts together with the block comments directly before it,
+     * e.g. `/* note *\/ "key": 1`
+     */
+    private leadingCommentsStart(property: ts.Node): number {
+        let start = property.getStart(this.source);
+        // Comments after the preceding comma on its line, then those on the lines below
+        const comments = [
+            ...ts.getTrailingCommentRanges(this.text, property.pos) ?? [],
+            ...ts.getLeadingCommentRanges(this.text, property.pos) ?? [],
+        ];
+        for (const comment of comments.reverse()) {
+            if (comment.kind !== ts.SyntaxKind.MultiLineCommentTrivia || !/^[ \t]*$/.test(this.text.slice(comment.end, start))) {
+                break;
+            }
+            start = comment.pos;
+        }
+        return start;
+    }
+
+    private replaceValue(property: ts.PropertyAssignment, value: unknown): string {
+        const start = property.initializer.getStart(this.source);
+        const indent = this.lineIndent(property.getStart(this.source));
+        return this.text.slice(0, start) + this.format(value, indent) + this.text.slice(property.initializer.end);
+    }
+
+    private insertProperty(object: ts.ObjectLiteralExpression, key: string, value: unknown): string {
+        const properties = object.properties;
+        const objectStart = object.getStart(this.source);
+
+        if (properties.length === 0) {
+            const indent = this.lineIndent(objectStart);
+            const entry = `${JSON.stringify(key)}: ${this.format(value, indent + this.unit)}`;
+            const inside = this.text.slice(objectStart + 1, object.end - 1);
+            if (inside.trim() === '') {
+                return `${this.text.slice(0, objectStart)}{\n${indent}${this.unit}${entry}\n${indent}}${this.text.slice(object.end)}`;
+            }
+            // Keep comments inside an otherwise empty object
+            return `${this.text.slice(0, objectStart + 1)}\n${indent}${this.unit}${entry}${this.text.slice(objectStart + 1)}`;
+        }
+
+        const last = properties[properties.length - 1];
+        const lastStart = last.getStart(this.source);
+        if (this.lineStart(lastStart) === this.lineStart(objectStart)) {
+            // Single-line objects stay on one line
+            return `${this.text.slice(0, last.end)}, ${JSON.stringify(key)}: ${JSON.stringify(value)}${this.text.slice(last.end)}`;
+        }
+
+        const indent = this.lineIndent(lastStart);
+        const entry = `${JSON.stringify(key)}: ${this.format(value, indent)}`;
+        const { end } = this.skipTrailing(last.end, properties.hasTrailingComma);
+        if (properties.hasTrailingComma) {
+            return `${this.text.slice(0, end)}\n${indent}${entry},${this.text.slice(end)}`;
+        }
+        return `${this.text.slice(0, last.end)},${this.text.slice(last.end, end)}\n${indent}${entry}${this.text.slice(end)}`;
+    }
+
+    private removeProperty(object: ts.ObjectLiteralExpression, property: ts.PropertyAssignment): string {
+        const properties = object.properties;
+        const index = properties.indexOf(property);
+        const isLast = index === properties.length - 1;
+
+        // Comments before the property on its line go with it
+        let start = this.leadingCommentsStart(property);
+        const trailing = this.skipTrailing(property.end, true);
+        let end = trailing.end;
+        // Take the whole line when the property is alone on it
+        const lineStart = this.lineStart(start);
+        const endsLine = this.text[end] === '\n' || this.text.startsWith('\r\n', end);
+        if (this.text.slice(lineStart, start).trim() === '' && endsLine) {
+            start = lineStart;
+            end += this.text[end] === '\n' ? 1 : 2;
+        } else if (endsLine) {
+            // Leave no trailing whitespace on the line
+            while (this.text[start - 1] === ' ' || this.text[start - 1] === '\t') start--;
+        }
+        let result = this.text.slice(0, start) + this.text.slice(end);
+
+        // Removing the last entry leaves a dangling comma after the previous one
+        if (isLast && trailing.commaAt === undefined && index > 0) {
+            const previousComma = this.skipTrailing(properties[index - 1].end, true).commaAt;
+            if (previousComma !== undefined) {
+                result = result.slice(0, previousComma) + result.slice(previousComma + 1);
+            }
+        }
+        return result;
+    }
+}
@@ -0,0 +1,125 @@
+import { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * MCP log levels (RFC 5424 severities), least severe first
+ */
+export const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+export function isLogLevel(value: string): value is LoggingLevel {
+    return (LOG_LEVELS as string[]).includes(value);
+}
+
+/**
+ * Whether an entry at `level` passes a `minimum` level
+ */
+export function isLevelEnabled(level: LoggingLevel, minimum: LoggingLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(minimum);
+}
+
+/**
+ * One log entry as written to stderr: a JSON object per line
+ */
+export interface LogEntry {
+    time: string;
+    level: LoggingLevel;
+    /** Component that logged the entry, e.g. http or plugin:deploy */
+    logger: string;
+    message: string;
+    [field: string]: unknown;
+}
+
+/**
+ * Receives every entry, whatever the stderr level; connected clients filter by their own level
+ */
+export type LogSink = (entry: LogEntry) => void;
+
+interface LogOutput {
+    level: LoggingLevel;
+    sinks: Set<LogSink>;
+}
+
+// Errors have no enumerable properties, so JSON.stringify would log them as {}
+function serializeValue(_key: string, value: unknown): unknown {
+    if (value instanceof Error) {
+        return { name: value.name, message: value.message, stack: value.stack };
+    }
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Writes structured log entries as JSON lines to stderr, which stays free for logs in
+ * every transport, and hands them to the sinks of connected clients
+ */
+export class Logger {
+    constructor(
+        readonly name: string,
+        private readonly output: LogOutput = { level: 'info', sinks: new Set() },
+        private readonly fields: Record<string, unknown> = {}
+    ) { }
+
+    /**
+     * A logger for a component, sharing this logger's level and sinks
+     * @param fields Added to every entry, e.g. the session the component works for
+     */
+    child(name: string, fields: Record<string, unknown> = {}): Logger {
+        return new Logger(name, this.output, { ...this.fields, ...fields });
+    }
+
+    /**
+     * Sets the minimum level written to stderr
+     */
+    setLevel(level: LoggingLevel): void {
+        this.output.level = level;
+    }
+
+    /**
+     * @returns A function removing the sink again
+     */
+    addSink(sink: LogSink): () => void {
+        this.output.sinks.add(sink);
+        return () => this.output.sinks.delete(sink);
+    }
+
+    debug(message: string, fields?: Record<string, unknown>): void {
+        this.log('debug', message, fields);
+    }
+
+    info(message: string, fields?: Record<string, unknown>): void {
+        this.log('info', message, fields);
+    }
+
+    notice(message: string, fields?: Record<string, unknown>): void {
+        this.log('notice', message, fields);
+    }
+
+    warning(message: string, fields?: Record<string, unknown>): void {
+        this.log('warning', message, fields);
+    }
+
+    error(message: string, fields?: Record<string, unknown>): void {
+        this.log('error', message, fields);
+    }
+
+    log(level: LoggingLevel, message: string, fields: Record<string, unknown> = {}): void {
+        const toStderr = isLevelEnabled(level, this.output.level);
+        if (!toStderr && this.output.sinks.size === 0) {
+            return;
+        }
+        const line = JSON.stringify(
+            { time: new Date().toISOString(), level, logger: this.name, message, ...this.fields, ...fields },
+            serializeValue
+        );
+        if (toStderr) {
+            process.stderr.write(`${line}\n`);
+        }
+        if (this.output.sinks.size > 0) {
+            const entry = JSON.parse(line) as LogEntry;
+            this.output.sinks.forEach(sink => sink(entry));
+        }
+    }
+}
+
+/**
+ * The server's root logger; components log through children of it
+ */
+export const logger = new Logger('server');
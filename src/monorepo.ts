@@ -0,0 +1,384 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import semver from 'semver';
+import { detectPackageManager, PackageManagerName } from './package-manager.js';
+import { CommandRecorder, runProcessChecked } from './process.js';
+import { IGNORED_DIRECTORIES } from './source-files.js';
+
+export type Orchestrator = 'nx' | 'turbo';
+
+export interface WorkspacePackage {
+    name: string;
+    version?: string;
+    /** Directory relative to the monorepo root, '/'-separated */
+    path: string;
+    private: boolean;
+    /** package.json script names */
+    scripts: string[];
+    /** Nx project.json target names */
+    targets?: string[];
+    /** Workspace packages this one depends on */
+    dependencies: string[];
+    /** Workspace packages that depend on this one */
+    dependents: string[];
+}
+
+export interface WorkspaceGraph {
+    root: string;
+    packageManager: PackageManagerName;
+    /** Task runners configured at the root */
+    orchestrators: Orchestrator[];
+    /** Workspace globs from package.json or pnpm-workspace.yaml */
+    patterns: string[];
+    packages: WorkspacePackage[];
+    /** Package names with dependencies before their dependents */
+    order: string[];
+    /** Packages in dependency cycles; they come last in `order` */
+    cycles: string[];
+}
+
+export interface AffectedWorkspaces {
+    since: string;
+    changedFiles: string[];
+    /** Packages containing changed files */
+    changed: string[];
+    /** Changed packages and everything depending on them, in topological order */
+    affected: string[];
+}
+
+interface ManifestJson {
+    name?: string;
+    version?: string;
+    private?: boolean;
+    scripts?: Record<string, string>;
+    workspaces?: string[] | { packages?: string[] };
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+    peerDependencies?: Record<string, string>;
+    optionalDependencies?: Record<string, string>;
+}
+
+interface NxProjectJson {
+    name?: string;
+    targets?: Record<string, unknown>;
+    implicitDependencies?: string[];
+}
+
+interface ScannedDirectory {
+    path: string;
+    manifest?: ManifestJson;
+    project?: NxProjectJson;
+}
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'] as const;
+const MAX_SCAN_DEPTH = 8;
+const MAX_SCANNED_DIRECTORIES = 10000;
+const GIT_TIMEOUT_MS = 30000;
+
+async function readJson<T>(filePath: string): Promise<T | undefined> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+    } catch {
+        return undefined;
+    }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Converts a workspace glob to a regular expression over '/'-separated relative paths.
+ * Supports `*`, `?` and `**`, which also matches no directories at all.
+ */
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            const slash = pattern[i + 2] === '/';
+            source += slash ? '(?:.*/)?' : '.*';
+            i += slash ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function normalizePattern(pattern: string): string {
+    return pattern.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Reads the `packages:` list of a pnpm-workspace.yaml
+ */
+function parsePnpmWorkspace(text: string): string[] {
+    const section = /^packages:[ \t]*\r?\n((?:[ \t#].*(?:\r?\n|$)|\r?\n)*)/m.exec(text)?.[1] ?? '';
+    return [...section.matchAll(/^[ \t]*-[ \t]*(['"]?)(.+?)\1[ \t]*(?:#.*)?$/gm)].map(match => match[2]);
+}
+
+function manifestPatterns(manifest: ManifestJson | undefined): string[] {
+    const workspaces = manifest?.workspaces;
+    if (Array.isArray(workspaces)) {
+        return workspaces;
+    }
+    return workspaces?.packages ?? [];
+}
+
+/**
+ * Finds the nearest directory at or above `start` that declares workspaces or an Nx
+ * or Turborepo configuration
+ */
+export async function findMonorepoRoot(start: string): Promise<string | undefined> {
+    for (let current = path.resolve(start); ; current = path.dirname(current)) {
+        const manifest = await readJson<ManifestJson>(path.join(current, 'package.json'));
+        if (manifestPatterns(manifest).length > 0) {
+            return current;
+        }
+        for (const marker of ['pnpm-workspace.yaml', 'nx.json', 'turbo.json']) {
+            if (await exists(path.join(current, marker))) {
+                return current;
+            }
+        }
+        if (path.dirname(current) === current) {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Lists directories below the root with a package.json or Nx project.json, skipping
+ * dependencies, build output and hidden directories
+ */
+async function scanDirectories(root: string): Promise<ScannedDirectory[]> {
+    const found: ScannedDirectory[] = [];
+    let scanned = 0;
+    const visit = async (relative: string, depth: number): Promise<void> => {
+        if (depth > MAX_SCAN_DEPTH || ++scanned > MAX_SCANNED_DIRECTORIES) {
+            return;
+        }
+        const dir = path.join(root, relative);
+        let entries;
+        try {
+            entries = await fs.readdir(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        const names = new Set(entries.filter(entry => entry.isFile()).map(entry => entry.name));
+        if (relative && (names.has('package.json') || names.has('project.json'))) {
+            found.push({
+                path: relative,
+                manifest: names.has('package.json') ? await readJson<ManifestJson>(path.join(dir, 'package.json')) : undefined,
+                project: names.has('project.json') ? await readJson<NxProjectJson>(path.join(dir, 'project.json')) : undefined,
+            });
+        }
+        for (const entry of entries) {
+            if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name) && !entry.name.startsWith('.')) {
+                await visit(relative ? `${relative}/${entry.name}` : entry.name, depth + 1);
+            }
+        }
+    };
+    await visit('', 0);
+    return found;
+}
+
+/**
+ * Whether a dependency range is satisfied by a workspace package, as package managers
+ * decide when to link the local copy
+ */
+function linksToWorkspace(range: string, version: string | undefined): boolean {
+    if (range.startsWith('workspace:') || range.startsWith('file:') || range.startsWith('link:')) {
+        return true;
+    }
+    if (!semver.validRange(range)) {
+        // npm: aliases, git URLs and tags resolve from elsewhere
+        return false;
+    }
+    return !version || semver.satisfies(version, range, { includePrerelease: true });
+}
+
+/**
+ * Orders packages so dependencies come before their dependents (Kahn's algorithm, ties
+ * broken by name). Packages in cycles are appended in name order.
+ */
+function topologicalOrder(packages: WorkspacePackage[]): { order: string[]; cycles: string[] } {
+    const remaining = new Map(packages.map(pkg => [pkg.name, new Set(pkg.dependencies)]));
+    const order: string[] = [];
+    while (true) {
+        const ready = [...remaining].filter(([, dependencies]) => dependencies.size === 0).map(([name]) => name).sort();
+        if (ready.length === 0) {
+            break;
+        }
+        for (const name of ready) {
+            remaining.delete(name);
+            order.push(name);
+        }
+        for (const dependencies of remaining.values()) {
+            ready.forEach(name => dependencies.delete(name));
+        }
+    }
+    const cycles = [...remaining.keys()].sort();
+    return { order: [...order, ...cycles], cycles };
+}
+
+/**
+ * Discovers the workspaces of the monorepo containing `start`: npm, yarn and bun
+ * `workspaces`, pnpm-workspace.yaml, and Nx projects (project.json) when nx.json is present
+ * @throws McpError (InvalidParams) when `start` is not inside a monorepo
+ */
+export async function discoverWorkspaces(start: string): Promise<WorkspaceGraph> {
+    const root = await findMonorepoRoot(start);
+    if (!root) {
+        throw new McpError(ErrorCode.InvalidParams, `No workspaces, pnpm-workspace.yaml, nx.json or turbo.json found at or above ${start}`);
+    }
+
+    const rootManifest = await readJson<ManifestJson>(path.join(root, 'package.json'));
+    const pnpmWorkspace = await fs.readFile(path.join(root, 'pnpm-workspace.yaml'), 'utf-8').catch(() => undefined);
+    const patterns = pnpmWorkspace !== undefined ? parsePnpmWorkspace(pnpmWorkspace) : manifestPatterns(rootManifest);
+    const orchestrators: Orchestrator[] = [];
+    for (const orchestrator of ['nx', 'turbo'] as const) {
+        if (await exists(path.join(root, `${orchestrator}.json`))) {
+            orchestrators.push(orchestrator);
+        }
+    }
+
+    const includes = patterns.filter(pattern => !pattern.startsWith('!')).map(pattern => globToRegExp(normalizePattern(pattern)));
+    const excludes = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => globToRegExp(normalizePattern(pattern.slice(1))));
+    const members = (await scanDirectories(root)).filter(dir =>
+        excludes.every(exclude => !exclude.test(dir.path))
+        && ((dir.manifest && includes.some(include => include.test(dir.path)))
+            || (dir.project && orchestrators.includes('nx'))));
+
+    const packages: WorkspacePackage[] = members.map(dir => ({
+        name: dir.project?.name ?? dir.manifest?.name ?? path.posix.basename(dir.path),
+        version: dir.manifest?.version,
+        path: dir.path,
+        private: dir.manifest?.private === true,
+        scripts: Object.keys(dir.manifest?.scripts ?? {}),
+        targets: dir.project?.targets ? Object.keys(dir.project.targets) : undefined,
+        dependencies: [],
+        dependents: [],
+    }));
+    const byName = new Map(packages.map(pkg => [pkg.name, pkg]));
+
+    members.forEach((dir, index) => {
+        const pkg = packages[index];
+        const dependencies = new Set<string>();
+        for (const field of DEPENDENCY_FIELDS) {
+            for (const [name, range] of Object.entries(dir.manifest?.[field] ?? {})) {
+                const target = byName.get(name);
+                if (target && target !== pkg && linksToWorkspace(range, target.version)) {
+                    dependencies.add(name);
+                }
+            }
+        }
+        for (const name of dir.project?.implicitDependencies ?? []) {
+            if (!name.startsWith('!') && byName.has(name) && name !== pkg.name) {
+                dependencies.add(name);
+            }
+        }
+        pkg.dependencies = [...dependencies].sort();
+    });
+    for (const pkg of packages) {
+        for (const name of pkg.dependencies) {
+            byName.get(name)!.dependents.push(pkg.name);
+        }
+    }
+    packages.forEach(pkg => pkg.dependents.sort());
+    packages.sort((a, b) => a.name.localeCompare(b.name));
+
+    // pnpm-workspace.yaml decides it before the first install creates a lockfile
+    const detected = await detectPackageManager(root);
+    return {
+        root,
+        packageManager: detected.source === 'default' && pnpmWorkspace !== undefined ? 'pnpm' : detected.name,
+        orchestrators,
+        patterns,
+        packages,
+        ...topologicalOrder(packages),
+    };
+}
+
+/**
+ * Looks up a workspace package by name
+ * @throws McpError (InvalidParams) listing the available names when there is none
+ */
+export function findWorkspacePackage(graph: WorkspaceGraph, name: string): WorkspacePackage {
+    const pkg = graph.packages.find(candidate => candidate.name === name);
+    if (!pkg) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `No workspace named '${name}' in ${graph.root}. Available workspaces: ${graph.packages.map(candidate => candidate.name).join(', ') || 'none'}`
+        );
+    }
+    return pkg;
+}
+
+/**
+ * Adds every package that depends, directly or transitively, on the given ones
+ * @returns Package names in topological order
+ */
+export function withDependents(graph: WorkspaceGraph, names: string[]): string[] {
+    const selected = new Set(names);
+    const pending = [...names];
+    while (pending.length > 0) {
+        const name = pending.pop();
+        const pkg = graph.packages.find(candidate => candidate.name === name);
+        for (const dependent of pkg?.dependents ?? []) {
+            if (!selected.has(dependent)) {
+                selected.add(dependent);
+                pending.push(dependent);
+            }
+        }
+    }
+    return graph.order.filter(name => selected.has(name));
+}
+
+/**
+ * Finds the packages affected by changes since a git revision: those containing files
+ * changed since it (committed, staged, unstaged or untracked) and their dependents.
+ * Changes outside every workspace, such as the root lockfile, affect no package.
+ * @throws McpError (InvalidParams) for a revision that looks like an option
+ * @throws ProcessFailedError when git fails, e.g. for an unknown revision
+ */
+export async function findAffectedWorkspaces(
+    graph: WorkspaceGraph,
+    since: string,
+    recorder?: CommandRecorder,
+    signal?: AbortSignal
+): Promise<AffectedWorkspaces> {
+    if (since.startsWith('-')) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid git revision: ${since}`);
+    }
+    const git = (args: string[]) => runProcessChecked('git', args, { cwd: graph.root, timeout: GIT_TIMEOUT_MS, recorder, signal });
+    const diff = await git(['diff', '--name-only', '--relative', since, '--']);
+    const untracked = await git(['ls-files', '--others', '--exclude-standard']);
+    const changedFiles = [...new Set(`${diff.stdout}\n${untracked.stdout}`.split('\n').filter(Boolean))].sort();
+
+    // The deepest workspace containing a file owns it
+    const byDepth = [...graph.packages].sort((a, b) => b.path.length - a.path.length);
+    const changed = new Set<string>();
+    for (const file of changedFiles) {
+        const owner = byDepth.find(pkg => file.startsWith(`${pkg.path}/`));
+        if (owner) {
+            changed.add(owner.name);
+        }
+    }
+    return {
+        since,
+        changedFiles,
+        changed: graph.order.filter(name => changed.has(name)),
+        affected: withDependents(graph, [...changed]),
+    };
+}
@@ -0,0 +1,71 @@
+/**
+ * node:test reporter used by run_tests, since node:test has no JSON reporter. Loaded by the
+ * test process with --test-reporter; writes one JSON object per line:
+ * - `{ event: 'result', name, ancestors, file, line, column, status, error? }` per test
+ * - `{ event: 'stderr', file, message }` for output of test files, to explain files that crash
+ * - `{ event: 'coverage', totals }` with --experimental-test-coverage
+ */
+
+interface TestEvent {
+    type: string;
+    data: {
+        name?: string;
+        nesting?: number;
+        file?: string;
+        line?: number;
+        column?: number;
+        skip?: boolean | string;
+        todo?: boolean | string;
+        message?: string;
+        details?: { type?: string; error?: { message?: string; failureType?: string; cause?: unknown } };
+        summary?: { totals?: unknown };
+    };
+}
+
+function describeError(error: NonNullable<NonNullable<TestEvent['data']['details']>['error']>) {
+    // Assertion errors arrive wrapped, with the original as the cause
+    const cause = error.cause;
+    if (cause instanceof Error || (cause !== null && typeof cause === 'object' && 'message' in cause)) {
+        const { message, stack } = cause as { message?: unknown; stack?: unknown };
+        return { message: String(message), stack: typeof stack === 'string' ? stack : undefined };
+    }
+    return { message: typeof cause === 'string' ? cause : error.message ?? 'Test failed' };
+}
+
+export default async function* reporter(source: AsyncIterable<TestEvent>): AsyncGenerator<string> {
+    // Names of the tests currently running, by file and nesting level
+    const ancestry = new Map<string, string[]>();
+
+    for await (const { type, data } of source) {
+        const file = data.file ?? '';
+        if (type === 'test:start') {
+            const names = ancestry.get(file) ?? [];
+            names.length = data.nesting ?? 0;
+            names.push(data.name ?? '');
+            ancestry.set(file, names);
+        } else if ((type === 'test:pass' || type === 'test:fail') && data.details?.type !== 'suite') {
+            const failed = type === 'test:fail';
+            // A file that fails outside any test is reported as a test named after the file
+            if (!failed && data.name === file && data.nesting === 0) {
+                continue;
+            }
+            const error = failed && data.details?.error ? describeError(data.details.error) : undefined;
+            yield `${JSON.stringify({
+                event: 'result',
+                name: data.name,
+                ancestors: (ancestry.get(file) ?? []).slice(0, data.nesting ?? 0),
+                file: data.file,
+                line: data.line,
+                column: data.column,
+                status: failed ? 'failed' : data.skip !== undefined && data.skip !== false
+                    ? 'skipped'
+                    : data.todo !== undefined && data.todo !== false ? 'todo' : 'passed',
+                error,
+            })}\n`;
+        } else if (type === 'test:stderr') {
+            yield `${JSON.stringify({ event: 'stderr', file: data.file, message: data.message })}\n`;
+        } else if (type === 'test:coverage') {
+            yield `${JSON.stringify({ event: 'coverage', totals: data.summary?.totals })}\n`;
+        }
+    }
+}
@@ -0,0 +1,265 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import semver from 'semver';
+import { detectIndent } from './jsonc.js';
+
+export type PackageJsonObject = Record<string, unknown>;
+
+/**
+ * Script edits, applied in the order rename, remove, set
+ */
+export interface ScriptEdits {
+    /** Old name to new name; the script keeps its position */
+    rename?: Record<string, string>;
+    remove?: string[];
+    set?: Record<string, string>;
+}
+
+export interface PackageJsonEdits {
+    scripts?: ScriptEdits;
+    /** Top-level fields to set, replacing the previous value; null removes a field */
+    fields?: Record<string, unknown>;
+}
+
+/**
+ * Fields with their own tools: scripts above, dependencies through install_packages and manage_dependencies
+ */
+const PROTECTED_FIELDS = ['scripts', 'dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies'];
+
+// From the npm package name rules: lowercase, URL-safe, optionally scoped
+const PACKAGE_NAME_PATTERN = /^(?:@[a-z0-9-*~][a-z0-9-*._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+/**
+ * Parses package.json text, rejecting anything but an object
+ * @throws McpError (InvalidParams) when the text is not a JSON object
+ */
+export function parsePackageJson(text: string, filePath: string): PackageJsonObject {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch (error) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Cannot parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new McpError(ErrorCode.InvalidParams, `${filePath} does not contain a JSON object`);
+    }
+    return value as PackageJsonObject;
+}
+
+/**
+ * Serializes package.json the way the original was written: same indentation, line
+ * endings and final newline. Key order is that of the object, so edits made in place
+ * keep the original order.
+ */
+export function formatPackageJson(value: PackageJsonObject, original: string | null): string {
+    const indent = original ? detectIndent(original) : '  ';
+    const newline = original?.includes('\r\n') ? '\r\n' : '\n';
+    const text = JSON.stringify(value, null, indent).replace(/\n/g, newline);
+    return original === null || /\r?\n$/.test(original) ? `${text}${newline}` : text;
+}
+
+/**
+ * Copies an object, replacing one key while keeping its position
+ */
+function renameKey<T>(object: Record<string, T>, from: string, to: string): Record<string, T> {
+    return Object.fromEntries(Object.entries(object).map(([key, value]) => [key === from ? to : key, value]));
+}
+
+/**
+ * Applies edits to a parsed package.json in place
+ * @returns One line per change, for the tool's summary
+ * @throws McpError (InvalidParams) for a protected field or a script that cannot be renamed or removed
+ */
+export function applyPackageJsonEdits(packageJson: PackageJsonObject, edits: PackageJsonEdits): string[] {
+    const summary: string[] = [];
+
+    if (edits.scripts) {
+        let scripts = { ...(packageJson.scripts as Record<string, string> | undefined) };
+        for (const [from, to] of Object.entries(edits.scripts.rename ?? {})) {
+            if (!Object.hasOwn(scripts, from)) {
+                throw new McpError(ErrorCode.InvalidParams, `No script named '${from}' to rename`);
+            }
+            if (Object.hasOwn(scripts, to)) {
+                throw new McpError(ErrorCode.InvalidParams, `Cannot rename '${from}' to '${to}': a script with that name exists`);
+            }
+            scripts = renameKey(scripts, from, to);
+            summary.push(`Renamed script '${from}' to '${to}'`);
+        }
+        for (const name of edits.scripts.remove ?? []) {
+            if (!Object.hasOwn(scripts, name)) {
+                throw new McpError(ErrorCode.InvalidParams, `No script named '${name}' to remove`);
+            }
+            delete scripts[name];
+            summary.push(`Removed script '${name}'`);
+        }
+        for (const [name, command] of Object.entries(edits.scripts.set ?? {})) {
+            summary.push(Object.hasOwn(scripts, name)
+                ? `Changed script '${name}' from '${scripts[name]}' to '${command}'`
+                : `Added script '${name}': ${command}`);
+            scripts[name] = command;
+        }
+        packageJson.scripts = scripts;
+    }
+
+    for (const [field, value] of Object.entries(edits.fields ?? {})) {
+        if (PROTECTED_FIELDS.includes(field)) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                field === 'scripts'
+                    ? 'Edit scripts with the scripts argument'
+                    : `Edit ${field} with install_packages or manage_dependencies`
+            );
+        }
+        if (value === null) {
+            if (Object.hasOwn(packageJson, field)) {
+                delete packageJson[field];
+                summary.push(`Removed ${field}`);
+            }
+        } else {
+            summary.push(`${Object.hasOwn(packageJson, field) ? 'Set' : 'Added'} ${field}: ${JSON.stringify(value)}`);
+            packageJson[field] = value;
+        }
+    }
+    return summary;
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+        && Object.values(value).every(item => typeof item === 'string');
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Checks an `exports` value: targets are relative paths starting with ./ (or null to
+ * block a subpath), an object's keys are either all subpaths or all conditions, and
+ * `types` and `default` conditions are first and last
+ */
+function validateExports(value: unknown, at: string, errors: string[]): void {
+    if (value === null) {
+        return;
+    }
+    if (typeof value === 'string') {
+        if (!value.startsWith('./')) {
+            errors.push(`${at}: target "${value}" must start with "./"`);
+        }
+        return;
+    }
+    if (Array.isArray(value)) {
+        value.forEach((item, index) => validateExports(item, `${at}[${index}]`, errors));
+        return;
+    }
+    if (!isPlainObject(value)) {
+        errors.push(`${at}: must be a string, array, object or null`);
+        return;
+    }
+    const keys = Object.keys(value);
+    const subpaths = keys.filter(key => key.startsWith('.'));
+    if (subpaths.length > 0 && subpaths.length < keys.length) {
+        errors.push(`${at}: cannot mix subpaths (${subpaths.join(', ')}) with conditions (${keys.filter(key => !key.startsWith('.')).join(', ')})`);
+    }
+    // Conditions match in order: "types" must win for TypeScript and "default" shadows anything after it
+    if (subpaths.length === 0 && keys.includes('types') && keys[0] !== 'types') {
+        errors.push(`${at}: the "types" condition must come first`);
+    }
+    if (subpaths.length === 0 && keys.includes('default') && keys[keys.length - 1] !== 'default') {
+        errors.push(`${at}: the "default" condition must come last`);
+    }
+    for (const key of keys) {
+        validateExports(value[key], `${at}[${JSON.stringify(key)}]`, errors);
+    }
+}
+
+function validatePerson(value: unknown, field: string, errors: string[]): void {
+    if (typeof value === 'string') {
+        return;
+    }
+    if (!isPlainObject(value) || typeof value.name !== 'string') {
+        errors.push(`${field}: must be a string or an object with a name`);
+    }
+}
+
+/**
+ * Validates package.json against the rules of the npm package.json schema for the
+ * fields it defines; unknown fields are allowed, as in the schema
+ * @returns One message per invalid field
+ */
+export function validatePackageJson(packageJson: PackageJsonObject): string[] {
+    const errors: string[] = [];
+    const expect = (field: string, valid: boolean, message: string) => {
+        if (Object.hasOwn(packageJson, field) && !valid) {
+            errors.push(`${field}: ${message}`);
+        }
+    };
+    const value = (field: string) => packageJson[field];
+
+    const name = value('name');
+    expect('name', typeof name === 'string' && name.length <= 214 && PACKAGE_NAME_PATTERN.test(name),
+        'must be a lowercase, URL-safe package name of at most 214 characters');
+    expect('version', typeof value('version') === 'string' && semver.valid(value('version') as string) !== null,
+        'must be a valid semver version');
+    for (const field of ['description', 'homepage', 'license', 'main', 'module', 'types', 'typings', 'browser']) {
+        expect(field, typeof value(field) === 'string' || (field === 'browser' && isPlainObject(value(field))), 'must be a string');
+    }
+    expect('keywords', isStringArray(value('keywords')), 'must be an array of strings');
+    expect('files', isStringArray(value('files')), 'must be an array of strings');
+    expect('private', typeof value('private') === 'boolean', 'must be a boolean');
+    expect('type', value('type') === 'module' || value('type') === 'commonjs', 'must be "module" or "commonjs"');
+    expect('sideEffects', typeof value('sideEffects') === 'boolean' || isStringArray(value('sideEffects')),
+        'must be a boolean or an array of globs');
+
+    expect('bin', typeof value('bin') === 'string' || isStringRecord(value('bin')),
+        'must be a path or an object mapping command names to paths');
+    if (typeof value('bin') === 'string' && typeof name !== 'string') {
+        errors.push('bin: a single bin path needs a package name to use as the command');
+    }
+
+    const workspaces = value('workspaces');
+    expect('workspaces', isStringArray(workspaces) || (isPlainObject(workspaces) && isStringArray(workspaces.packages)),
+        'must be an array of globs or an object with a packages array');
+
+    const engines = value('engines');
+    expect('engines', isStringRecord(engines), 'must map engine names to version ranges');
+    if (isStringRecord(engines)) {
+        for (const [engine, range] of Object.entries(engines)) {
+            if (semver.validRange(range) === null) {
+                errors.push(`engines.${engine}: "${range}" is not a valid version range`);
+            }
+        }
+    }
+
+    if (Object.hasOwn(packageJson, 'exports')) {
+        validateExports(value('exports'), 'exports', errors);
+    }
+
+    for (const field of ['author', 'maintainers', 'contributors']) {
+        const people = value(field);
+        if (people === undefined) continue;
+        if (field === 'author') {
+            validatePerson(people, field, errors);
+        } else if (!Array.isArray(people)) {
+            errors.push(`${field}: must be an array`);
+        } else {
+            people.forEach((person, index) => validatePerson(person, `${field}[${index}]`, errors));
+        }
+    }
+    const repository = value('repository');
+    expect('repository', typeof repository === 'string' || (isPlainObject(repository) && typeof repository.url === 'string'),
+        'must be a string or an object with a url');
+    const bugs = value('bugs');
+    expect('bugs', typeof bugs === 'string' || (isPlainObject(bugs) && (typeof bugs.url === 'string' || typeof bugs.email === 'string')),
+        'must be a string or an object with a url or email');
+
+    for (const field of ['scripts', ...PROTECTED_FIELDS.slice(1)]) {
+        expect(field, isStringRecord(value(field)), 'must map names to strings');
+    }
+    return errors;
+}
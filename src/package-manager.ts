@@ -0,0 +1,164 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export type PackageManagerName = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+export const PACKAGE_MANAGERS: PackageManagerName[] = ['npm', 'pnpm', 'yarn', 'bun'];
+
+export interface DetectedPackageManager {
+    name: PackageManagerName;
+    /** Version from the `packageManager` field, when declared */
+    version?: string;
+    /** How the package manager was chosen */
+    source: 'override' | 'packageManager' | 'lockfile' | 'default';
+    /** Directory containing the package.json or lockfile that decided it */
+    root?: string;
+}
+
+/**
+ * A binary and its argument vector, ready for runProcess
+ */
+export interface CommandSpec {
+    command: string;
+    args: string[];
+}
+
+// Checked in order; the first lockfile found wins
+const LOCKFILES: [string, PackageManagerName][] = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['bun.lockb', 'bun'],
+    ['bun.lock', 'bun'],
+    ['package-lock.json', 'npm'],
+    ['npm-shrinkwrap.json', 'npm'],
+];
+
+/**
+ * Lockfile names of every supported package manager
+ */
+export const LOCKFILE_NAMES = LOCKFILES.map(([lockfile]) => lockfile);
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Parses a `packageManager` field such as "pnpm@9.1.0+sha512.abc"
+ */
+function parsePackageManagerField(value: unknown): { name: PackageManagerName; version?: string } | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    const [name, version] = value.split('@');
+    if (!PACKAGE_MANAGERS.includes(name as PackageManagerName)) {
+        return undefined;
+    }
+    return { name: name as PackageManagerName, version: version?.split('+')[0] || undefined };
+}
+
+/**
+ * Determines which package manager a project uses.
+ *
+ * An explicit override wins. Otherwise the project directory and its parents are
+ * searched (so workspace packages inherit the monorepo root's choice) for a
+ * `packageManager` field in package.json, then for a lockfile. Falls back to npm.
+ * @param boundary Directory the search stops at, usually the allowed root containing the project
+ */
+export async function detectPackageManager(
+    projectPath: string,
+    override?: PackageManagerName,
+    boundary?: string
+): Promise<DetectedPackageManager> {
+    if (override) {
+        return { name: override, source: 'override' };
+    }
+
+    let current = path.resolve(projectPath);
+    while (true) {
+        try {
+            const packageJson = JSON.parse(await fs.readFile(path.join(current, 'package.json'), 'utf-8'));
+            const declared = parsePackageManagerField(packageJson.packageManager);
+            if (declared) {
+                return { ...declared, source: 'packageManager', root: current };
+            }
+        } catch {
+            // No readable package.json at this level
+        }
+
+        for (const [lockfile, name] of LOCKFILES) {
+            if (await exists(path.join(current, lockfile))) {
+                return { name, source: 'lockfile', root: current };
+            }
+        }
+
+        const parent = path.dirname(current);
+        if (parent === current || current === boundary) {
+            return { name: 'npm', source: 'default' };
+        }
+        current = parent;
+    }
+}
+
+/**
+ * Installs all dependencies declared in package.json
+ */
+export function installAllCommand(pm: PackageManagerName): CommandSpec {
+    return { command: pm, args: ['install'] };
+}
+
+export interface InstallOptions {
+    /** Save to devDependencies */
+    dev?: boolean;
+    /** Save to peerDependencies */
+    peer?: boolean;
+    /** Save to optionalDependencies */
+    optional?: boolean;
+    /** Save the exact version instead of a range */
+    exact?: boolean;
+}
+
+// Save flags per package manager; npm and pnpm share theirs
+const SAVE_FLAGS: Record<'npm' | 'other', Record<keyof InstallOptions, string>> = {
+    npm: { dev: '--save-dev', peer: '--save-peer', optional: '--save-optional', exact: '--save-exact' },
+    other: { dev: '--dev', peer: '--peer', optional: '--optional', exact: '--exact' },
+};
+
+/**
+ * Adds packages to package.json and installs them
+ */
+export function installCommand(pm: PackageManagerName, packages: string[], options: InstallOptions = {}): CommandSpec {
+    const flags = SAVE_FLAGS[pm === 'npm' || pm === 'pnpm' ? 'npm' : 'other'];
+    const saveFlags = (Object.keys(flags) as (keyof InstallOptions)[])
+        .filter(option => options[option])
+        .map(option => flags[option]);
+    if (pm === 'npm') {
+        // '--' keeps specifiers from being read as npm options
+        return { command: 'npm', args: ['install', ...saveFlags, '--', ...packages] };
+    }
+    return { command: pm, args: ['add', ...saveFlags, ...packages] };
+}
+
+/**
+ * Removes packages from package.json and node_modules
+ */
+export function uninstallCommand(pm: PackageManagerName, packages: string[]): CommandSpec {
+    if (pm === 'npm') {
+        return { command: 'npm', args: ['uninstall', '--', ...packages] };
+    }
+    return { command: pm, args: ['remove', ...packages] };
+}
+
+/**
+ * Runs a package.json script, forwarding extra arguments to it
+ */
+export function runScriptCommand(pm: PackageManagerName, script: string, scriptArgs: string[] = []): CommandSpec {
+    if (pm === 'npm') {
+        return { command: 'npm', args: ['run', script, ...(scriptArgs.length > 0 ? ['--', ...scriptArgs] : [])] };
+    }
+    return { command: pm, args: ['run', script, ...scriptArgs] };
+}
@@ -0,0 +1,281 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { spawn } from 'child_process';
+
+// Defaults applied when a caller does not set its own limits
+export const DEFAULT_PROCESS_TIMEOUT_MS = 10 * 60 * 1000;
+export const DEFAULT_MAX_BUFFER = 1024 * 1024;
+const DEFAULT_PROGRESS_INTERVAL_MS = 2000;
+// How long a terminated process tree gets to exit before it is killed
+const KILL_GRACE_MS = 3000;
+
+/**
+ * Receives notice of each command before it starts, so tool calls can be audited
+ */
+export interface CommandRecorder {
+    recordCommand(command: string, args: string[], cwd: string): void;
+}
+
+export interface ProcessOptions {
+    cwd: string;
+    env?: NodeJS.ProcessEnv;
+    /** Milliseconds before the process tree is terminated; it is killed if still running KILL_GRACE_MS later */
+    timeout?: number;
+    /** Maximum characters retained per stream; older output is dropped first */
+    maxBuffer?: number;
+    signal?: AbortSignal;
+    /** Called periodically with the elapsed time while the process runs */
+    onProgress?: (elapsedMs: number) => void;
+    progressInterval?: number;
+    /** Usually the journal operation of the tool call starting the process */
+    recorder?: CommandRecorder;
+}
+
+export interface ProcessResult {
+    command: string;
+    args: string[];
+    exitCode: number | null;
+    exitSignal: NodeJS.Signals | null;
+    stdout: string;
+    stderr: string;
+    stdoutTruncated: boolean;
+    stderrTruncated: boolean;
+    timedOut: boolean;
+    aborted: boolean;
+    durationMs: number;
+}
+
+/**
+ * Raised by runProcessChecked when a process does not exit cleanly
+ */
+export class ProcessFailedError extends Error {
+    constructor(public readonly result: ProcessResult) {
+        super(`${formatCommand(result.command, result.args)} ${describeExit(result)}${result.stderr.trim() ? `\n${result.stderr.trim()}` : ''}`);
+        this.name = 'ProcessFailedError';
+    }
+}
+
+/**
+ * Renders a command for display. The result is never passed to a shell.
+ */
+export function formatCommand(command: string, args: string[]): string {
+    return [command, ...args.map(arg => /^[\w@%+=:,./^~<>-]+$/.test(arg) ? arg : JSON.stringify(arg))].join(' ');
+}
+
+/**
+ * Describes how a process finished, e.g. "exited with code 1" or "timed out after 1000ms"
+ */
+export function describeExit(result: ProcessResult, timeout?: number): string {
+    if (result.timedOut) {
+        return `timed out${timeout !== undefined ? ` after ${timeout}ms` : ''}`;
+    }
+    if (result.aborted) {
+        return 'was cancelled';
+    }
+    return `exited with code ${result.exitCode}${result.exitSignal ? ` (signal ${result.exitSignal})` : ''}`;
+}
+
+// Signals the process tree of every running child, so none outlives the server
+const runningTrees = new Set<(signal: NodeJS.Signals) => void>();
+
+/**
+ * Kills the process tree of every child still running, e.g. before the server exits
+ */
+export function killRunningProcesses(): void {
+    runningTrees.forEach(signalTree => signalTree('SIGKILL'));
+}
+
+/**
+ * Spawns a binary with an argument vector (no shell), collecting the tail of
+ * its output and enforcing a timeout
+ */
+export function runProcess(command: string, args: string[], options: ProcessOptions): Promise<ProcessResult> {
+    const timeout = options.timeout ?? DEFAULT_PROCESS_TIMEOUT_MS;
+    const maxBuffer = options.maxBuffer ?? DEFAULT_MAX_BUFFER;
+
+    return new Promise((resolve, reject) => {
+        const startTime = Date.now();
+        const output = {
+            stdout: { text: '', truncated: false },
+            stderr: { text: '', truncated: false },
+        };
+        let timedOut = false;
+        let aborted = false;
+
+        options.recorder?.recordCommand(command, args, options.cwd);
+
+        // Run in its own process group so the whole tree (npm -> sh -> script)
+        // can be terminated on timeout or cancellation
+        const child = spawn(command, args, {
+            cwd: options.cwd,
+            env: options.env ?? process.env,
+            shell: false,
+            detached: process.platform !== 'win32',
+            stdio: ['ignore', 'pipe', 'pipe'],
+        });
+        const signalTree = (signal: NodeJS.Signals) => {
+            try {
+                if (child.pid !== undefined && process.platform !== 'win32') {
+                    process.kill(-child.pid, signal);
+                } else {
+                    child.kill(signal);
+                }
+            } catch {
+                // Process already exited
+            }
+        };
+        runningTrees.add(signalTree);
+        let killTimer: NodeJS.Timeout | undefined;
+        const terminate = () => {
+            if (killTimer) return;
+            signalTree('SIGTERM');
+            killTimer = setTimeout(() => {
+                signalTree('SIGKILL');
+                // A descendant outside the process group may hold the output pipes open; stop waiting for it
+                if (child.exitCode !== null || child.signalCode !== null) {
+                    finish(child.exitCode, child.signalCode);
+                } else {
+                    child.once('exit', finish);
+                }
+            }, KILL_GRACE_MS);
+        };
+
+        // Decoded as a stream, so characters split across chunks stay intact
+        child.stdout.setEncoding('utf8');
+        child.stderr.setEncoding('utf8');
+        const collect = (stream: 'stdout' | 'stderr') => (chunk: string) => {
+            const target = output[stream];
+            target.text += chunk;
+            if (target.text.length > maxBuffer) {
+                target.text = target.text.slice(-maxBuffer);
+                target.truncated = true;
+            }
+        };
+        child.stdout.on('data', collect('stdout'));
+        child.stderr.on('data', collect('stderr'));
+
+        const progressTimer = options.onProgress
+            ? setInterval(
+                () => options.onProgress!(Date.now() - startTime),
+                options.progressInterval ?? DEFAULT_PROGRESS_INTERVAL_MS
+            )
+            : undefined;
+
+        const timeoutTimer = setTimeout(() => {
+            timedOut = true;
+            terminate();
+        }, timeout);
+
+        const onAbort = () => {
+            aborted = true;
+            terminate();
+        };
+        if (options.signal?.aborted) {
+            onAbort();
+        }
+        options.signal?.addEventListener('abort', onAbort);
+
+        const cleanup = () => {
+            runningTrees.delete(signalTree);
+            clearTimeout(timeoutTimer);
+            clearTimeout(killTimer);
+            if (progressTimer) clearInterval(progressTimer);
+            options.signal?.removeEventListener('abort', onAbort);
+        };
+
+        child.on('error', (error) => {
+            cleanup();
+            reject(new Error(`Failed to start ${command}: ${error.message}`));
+        });
+
+        let settled = false;
+        const finish = (exitCode: number | null, exitSignal: NodeJS.Signals | null) => {
+            if (settled) return;
+            settled = true;
+            cleanup();
+            child.stdout.destroy();
+            child.stderr.destroy();
+            resolve({
+                command,
+                args,
+                exitCode,
+                exitSignal,
+                stdout: output.stdout.text,
+                stderr: output.stderr.text,
+                stdoutTruncated: output.stdout.truncated,
+                stderrTruncated: output.stderr.truncated,
+                timedOut,
+                aborted,
+                durationMs: Date.now() - startTime,
+            });
+        };
+        child.on('close', finish);
+    });
+}
+
+/**
+ * Like runProcess, but rejects with ProcessFailedError unless the process exits with code 0
+ */
+export async function runProcessChecked(command: string, args: string[], options: ProcessOptions): Promise<ProcessResult> {
+    const result = await runProcess(command, args, options);
+    if (result.exitCode !== 0 || result.timedOut || result.aborted) {
+        throw new ProcessFailedError(result);
+    }
+    return result;
+}
+
+// npm package name: optional scope, url-safe characters, no leading dot, underscore or dash.
+// Uppercase is accepted for legacy packages that predate the lowercase rule.
+const PACKAGE_NAME_PATTERN = /^(?:@[a-z0-9~][a-z0-9._~-]*\/)?[a-zA-Z0-9~][a-zA-Z0-9._~-]*$/;
+const MAX_PACKAGE_NAME_LENGTH = 214;
+
+// A dist-tag such as "latest" or "next"
+const DIST_TAG_PATTERN = /^[a-zA-Z][a-zA-Z0-9._-]*$/;
+
+// A (possibly partial) version: 1, 1.2, 1.2.x, 1.2.3-beta.1+build
+const PARTIAL_VERSION = '[v=]?(?:\\d+|[xX*])(?:\\.(?:\\d+|[xX*])){0,2}(?:-[0-9A-Za-z.-]+)?(?:\\+[0-9A-Za-z.-]+)?';
+const COMPARATOR_PATTERN = new RegExp(`^(?:<=|>=|<|>|=|~>|~|\\^)?\\s*${PARTIAL_VERSION}$`);
+const HYPHEN_RANGE_PATTERN = new RegExp(`^${PARTIAL_VERSION}\\s+-\\s+${PARTIAL_VERSION}$`);
+
+/**
+ * Checks a semver range (e.g. "^1.2.0", ">=1 <2 || 3.x") against npm's range grammar
+ */
+export function isValidVersionRange(range: string): boolean {
+    if (range.trim() === '') {
+        return true;
+    }
+    return range.split('||').every(set => {
+        const trimmed = set.trim();
+        if (trimmed === '') {
+            return true;
+        }
+        if (HYPHEN_RANGE_PATTERN.test(trimmed)) {
+            return true;
+        }
+        // Operators may be separated from their version by whitespace (">= 1.2")
+        return trimmed
+            .replace(/(<=|>=|<|>|=|~>|~|\^)\s+/g, '$1')
+            .split(/\s+/)
+            .every(comparator => COMPARATOR_PATTERN.test(comparator));
+    });
+}
+
+/**
+ * Validates a package specifier of the form `name` or `name@range|tag`
+ * @throws McpError (InvalidParams) if the specifier is not a registry package
+ */
+export function validatePackageSpecifier(specifier: string): void {
+    const versionIndex = specifier.indexOf('@', specifier.startsWith('@') ? 1 : 0);
+    const name = versionIndex === -1 ? specifier : specifier.slice(0, versionIndex);
+    const version = versionIndex === -1 ? undefined : specifier.slice(versionIndex + 1);
+
+    if (!PACKAGE_NAME_PATTERN.test(name) || name.length > MAX_PACKAGE_NAME_LENGTH) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid package name: ${JSON.stringify(specifier)}`);
+    }
+
+    if (version !== undefined && !DIST_TAG_PATTERN.test(version) && !isValidVersionRange(version)) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Invalid version range for ${name}: ${JSON.stringify(version)}`
+        );
+    }
+}
@@ -0,0 +1,249 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { detectPackageManager, DetectedPackageManager } from './package-manager.js';
+import { readTsConfig, TsConfigSummary } from './tsconfig.js';
+
+/**
+ * Project kinds understood by create_project
+ */
+export type ProjectType = 'react' | 'node' | 'next' | 'express' | 'fastify';
+
+export const PROJECT_TYPES: ProjectType[] = ['react', 'node', 'next', 'express', 'fastify'];
+
+export type TestRunner = 'jest' | 'vitest' | 'mocha' | 'ava' | 'node:test';
+
+export type Linter = 'eslint' | 'biome' | 'oxlint' | 'standard' | 'xo' | 'tslint';
+
+export interface ToolDetection<T extends string> {
+    name: T;
+    /** Declared version range from package.json, when it is a dependency */
+    version?: string;
+    /** Config file found in the project directory */
+    configFile?: string;
+}
+
+export interface EntryPoint {
+    /** Where the entry point was declared: a package.json field or a conventional file */
+    source: string;
+    path: string;
+    /** Whether the file exists on disk */
+    exists: boolean;
+}
+
+export interface ProjectAnalysis {
+    path: string;
+    name?: string;
+    version?: string;
+    framework: ProjectType;
+    /** Additional frameworks found in dependencies, beyond the primary one */
+    frameworks: string[];
+    language: 'typescript' | 'javascript';
+    moduleSystem: 'esm' | 'commonjs';
+    packageManager: DetectedPackageManager;
+    testRunner?: ToolDetection<TestRunner>;
+    linter?: ToolDetection<Linter>;
+    formatter?: ToolDetection<'prettier' | 'biome' | 'dprint'>;
+    scripts: Record<string, string>;
+    entryPoints: EntryPoint[];
+    tsconfig?: TsConfigSummary;
+    dependencies: Record<string, string>;
+    devDependencies: Record<string, string>;
+}
+
+interface PackageJson {
+    name?: string;
+    version?: string;
+    type?: string;
+    main?: string;
+    module?: string;
+    types?: string;
+    typings?: string;
+    bin?: string | Record<string, string>;
+    exports?: unknown;
+    scripts?: Record<string, string>;
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+    peerDependencies?: Record<string, string>;
+}
+
+const TEST_RUNNER_CONFIGS: [TestRunner, string[]][] = [
+    ['vitest', ['vitest.config.ts', 'vitest.config.mts', 'vitest.config.js', 'vitest.config.mjs']],
+    ['jest', ['jest.config.ts', 'jest.config.js', 'jest.config.mjs', 'jest.config.cjs', 'jest.config.json']],
+    ['mocha', ['.mocharc.json', '.mocharc.js', '.mocharc.cjs', '.mocharc.yml', '.mocharc.yaml']],
+    ['ava', ['ava.config.js', 'ava.config.mjs', 'ava.config.cjs']],
+];
+
+const LINTER_CONFIGS: [Linter, string[]][] = [
+    ['eslint', [
+        'eslint.config.js', 'eslint.config.mjs', 'eslint.config.cjs', 'eslint.config.ts',
+        '.eslintrc', '.eslintrc.js', '.eslintrc.cjs', '.eslintrc.json', '.eslintrc.yml', '.eslintrc.yaml',
+    ]],
+    ['biome', ['biome.json', 'biome.jsonc']],
+    ['oxlint', ['.oxlintrc.json']],
+    ['tslint', ['tslint.json']],
+    ['standard', []],
+    ['xo', []],
+];
+
+const FORMATTER_CONFIGS: ['prettier' | 'biome' | 'dprint', string[]][] = [
+    ['prettier', [
+        '.prettierrc', '.prettierrc.json', '.prettierrc.js', '.prettierrc.cjs', '.prettierrc.mjs',
+        '.prettierrc.yml', '.prettierrc.yaml', 'prettier.config.js', 'prettier.config.mjs', 'prettier.config.cjs',
+    ]],
+    ['biome', ['biome.json', 'biome.jsonc']],
+    ['dprint', ['dprint.json', '.dprint.json']],
+];
+
+// Conventional entry files, checked when package.json declares none
+const CONVENTIONAL_ENTRIES = [
+    'src/index.ts', 'src/index.tsx', 'src/main.ts', 'src/main.tsx', 'src/server.ts', 'src/app.ts',
+    'src/index.js', 'src/index.jsx', 'src/main.js', 'src/main.jsx', 'src/server.js', 'src/app.js',
+    'index.ts', 'index.js', 'server.js', 'app.js',
+    'app/layout.tsx', 'app/layout.jsx', 'pages/_app.tsx', 'pages/_app.js', 'pages/index.tsx', 'pages/index.js',
+];
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function findFirst(projectPath: string, candidates: string[]): Promise<string | undefined> {
+    for (const candidate of candidates) {
+        if (await exists(path.join(projectPath, candidate))) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+async function detectTool<T extends string>(
+    projectPath: string,
+    configs: [T, string[]][],
+    dependencies: Record<string, string>
+): Promise<ToolDetection<T> | undefined> {
+    for (const [name, files] of configs) {
+        const configFile = await findFirst(projectPath, files);
+        const packageName = name === 'biome' ? '@biomejs/biome' : name;
+        if (configFile || dependencies[packageName]) {
+            return { name, version: dependencies[packageName], configFile };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Picks the primary framework. Next.js is checked before React because every Next
+ * app also depends on react.
+ */
+function detectFrameworks(dependencies: Record<string, string>): { framework: ProjectType; frameworks: string[] } {
+    const known: [string, ProjectType | undefined][] = [
+        ['next', 'next'],
+        ['fastify', 'fastify'],
+        ['express', 'express'],
+        ['react', 'react'],
+        ['vue', undefined],
+        ['svelte', undefined],
+        ['@nestjs/core', undefined],
+        ['koa', undefined],
+        ['hono', undefined],
+        ['vite', undefined],
+    ];
+    const frameworks = known.filter(([dependency]) => dependencies[dependency]).map(([dependency]) => dependency);
+    const primary = known.find(([dependency, type]) => type && dependencies[dependency]);
+    return { framework: primary?.[1] ?? 'node', frameworks };
+}
+
+function listEntryPaths(value: unknown, source: string, entries: { source: string; path: string }[]): void {
+    if (typeof value === 'string') {
+        entries.push({ source, path: value });
+    } else if (value && typeof value === 'object') {
+        for (const [key, nested] of Object.entries(value)) {
+            listEntryPaths(nested, `${source}[${JSON.stringify(key)}]`, entries);
+        }
+    }
+}
+
+/**
+ * Finds the nearest directory at or above `dir` containing a package.json
+ */
+export async function findProjectRoot(dir: string, boundary?: string): Promise<string | undefined> {
+    for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+        if (await exists(path.join(current, 'package.json'))) {
+            return current;
+        }
+        if (path.dirname(current) === current || current === boundary) {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Inspects a project directory without modifying it
+ * @param boundary Directory searches for extended configs and lockfiles stop at, usually the
+ * allowed root containing the project
+ * @throws Error when the directory has no readable package.json
+ */
+export async function analyzeProject(projectPath: string, boundary?: string): Promise<ProjectAnalysis> {
+    const packageJson: PackageJson = JSON.parse(await fs.readFile(path.join(projectPath, 'package.json'), 'utf-8'));
+    const dependencies = packageJson.dependencies ?? {};
+    const devDependencies = packageJson.devDependencies ?? {};
+    const allDependencies = { ...packageJson.peerDependencies, ...dependencies, ...devDependencies };
+    const scripts = packageJson.scripts ?? {};
+
+    const tsconfigPath = path.join(projectPath, 'tsconfig.json');
+    const tsconfig = await exists(tsconfigPath) ? readTsConfig(tsconfigPath, boundary) : undefined;
+
+    const language = tsconfig || allDependencies.typescript ? 'typescript' : 'javascript';
+
+    // package.json "type" decides how .js files load; TypeScript output follows the module option
+    const tsModule = String(tsconfig?.compilerOptions.module ?? '').toLowerCase();
+    let moduleSystem: ProjectAnalysis['moduleSystem'] = packageJson.type === 'module' ? 'esm' : 'commonjs';
+    if (packageJson.type === undefined && /^es|^preserve$/.test(tsModule)) {
+        moduleSystem = 'esm';
+    }
+
+    let testRunner = await detectTool(projectPath, TEST_RUNNER_CONFIGS, allDependencies);
+    if (!testRunner && Object.values(scripts).some(script => /\bnode\b.*--test\b/.test(script))) {
+        testRunner = { name: 'node:test' };
+    }
+
+    const declaredEntries: { source: string; path: string }[] = [];
+    for (const field of ['main', 'module', 'types', 'typings'] as const) {
+        if (packageJson[field]) {
+            declaredEntries.push({ source: field, path: packageJson[field]! });
+        }
+    }
+    listEntryPaths(packageJson.bin, 'bin', declaredEntries);
+    listEntryPaths(packageJson.exports, 'exports', declaredEntries);
+    for (const file of CONVENTIONAL_ENTRIES) {
+        if (await exists(path.join(projectPath, file))) {
+            declaredEntries.push({ source: 'convention', path: file });
+        }
+    }
+    const entryPoints = await Promise.all(declaredEntries.map(async entry => ({
+        ...entry,
+        exists: await exists(path.resolve(projectPath, entry.path)),
+    })));
+
+    return {
+        path: projectPath,
+        name: packageJson.name,
+        version: packageJson.version,
+        ...detectFrameworks(allDependencies),
+        language,
+        moduleSystem,
+        packageManager: await detectPackageManager(projectPath, undefined, boundary),
+        testRunner,
+        linter: await detectTool(projectPath, LINTER_CONFIGS, allDependencies),
+        formatter: await detectTool(projectPath, FORMATTER_CONFIGS, allDependencies),
+        scripts,
+        entryPoints,
+        tsconfig,
+        dependencies,
+        devDependencies,
+    };
+}
@@ -0,0 +1,104 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as path from 'path';
+
+export const PROJECT_SCHEME = 'project://';
+
+/**
+ * Resource templates for live project files. `{path}` is a project directory, as tools
+ * take it; a client expanding the template percent-encodes its slashes.
+ */
+export const PROJECT_RESOURCE_TEMPLATES = [
+    {
+        uriTemplate: `${PROJECT_SCHEME}{path}/package.json`,
+        name: 'package.json',
+        description: 'The package.json of a project directory',
+        mimeType: 'application/json',
+    },
+    {
+        uriTemplate: `${PROJECT_SCHEME}{path}/tsconfig.json`,
+        name: 'tsconfig.json',
+        description: 'The tsconfig.json of a project directory',
+        mimeType: 'application/json',
+    },
+    {
+        uriTemplate: `${PROJECT_SCHEME}{path}/src/{file}`,
+        name: 'Source file',
+        description: 'A file under the src directory of a project, such as index.ts or components/Button.tsx',
+    },
+];
+
+const ROOT_FILES = ['package.json', 'tsconfig.json'];
+
+const MIME_TYPES: Record<string, string> = {
+    '.json': 'application/json',
+    '.ts': 'text/typescript',
+    '.tsx': 'text/typescript',
+    '.mts': 'text/typescript',
+    '.cts': 'text/typescript',
+    '.js': 'text/javascript',
+    '.jsx': 'text/javascript',
+    '.mjs': 'text/javascript',
+    '.cjs': 'text/javascript',
+    '.css': 'text/css',
+    '.html': 'text/html',
+    '.md': 'text/markdown',
+};
+
+export interface ProjectResource {
+    projectPath: string;
+    /** File path relative to the project, '/'-separated */
+    file: string;
+}
+
+/**
+ * Builds the URI of a project file, with the project path left readable
+ */
+export function projectResourceUri(projectPath: string, file: string): string {
+    return `${PROJECT_SCHEME}${projectPath.split(path.sep).join('/')}/${file}`;
+}
+
+export function resourceMimeType(file: string): string {
+    return MIME_TYPES[path.extname(file)] ?? 'text/plain';
+}
+
+/**
+ * Splits a `project://` URI into the project directory and the file it names.
+ *
+ * A template-expanded `{path}` has its slashes percent-encoded, so the first raw slash
+ * ends it. A readable absolute path (`project:///home/me/app/src/index.ts`) is split at
+ * the last `/src/`, or before package.json or tsconfig.json.
+ * @throws McpError (InvalidParams) when the URI names no supported file
+ */
+export function parseProjectResourceUri(uri: string): ProjectResource {
+    if (!uri.startsWith(PROJECT_SCHEME)) {
+        throw new McpError(ErrorCode.InvalidParams, `Not a project resource: ${uri}`);
+    }
+    const rest = uri.slice(PROJECT_SCHEME.length);
+    let projectPath: string;
+    let file: string;
+    try {
+        if (rest.startsWith('/')) {
+            const decoded = decodeURIComponent(rest);
+            const rootFile = ROOT_FILES.find(name => decoded.endsWith(`/${name}`));
+            const split = rootFile ? decoded.length - rootFile.length - 1 : decoded.lastIndexOf('/src/');
+            projectPath = decoded.slice(0, split);
+            file = decoded.slice(split + 1);
+        } else {
+            const slash = rest.indexOf('/');
+            projectPath = decodeURIComponent(slash === -1 ? rest : rest.slice(0, slash));
+            file = slash === -1 ? '' : decodeURIComponent(rest.slice(slash + 1));
+        }
+    } catch {
+        throw new McpError(ErrorCode.InvalidParams, `Malformed project resource URI: ${uri}`);
+    }
+
+    const normalized = path.posix.normalize(file);
+    const inSrc = normalized.startsWith('src/') && normalized.length > 'src/'.length;
+    if (!projectPath || (!ROOT_FILES.includes(normalized) && !inSrc)) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Unsupported project resource ${uri}; expected ${PROJECT_RESOURCE_TEMPLATES.map(template => template.uriTemplate).join(', ')}`
+        );
+    }
+    return { projectPath, file: normalized };
+}
@@ -0,0 +1,46 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ts from 'typescript';
+
+export const SOURCE_EXTENSIONS = ['.tsx', '.jsx', '.ts', '.js', '.mts', '.cts', '.mjs', '.cjs'];
+export const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', '.next', 'out']);
+const MAX_SCANNED_FILES = 5000;
+
+/**
+ * Lists JavaScript/TypeScript source files under a project, skipping dependencies,
+ * build output, hidden directories and declaration files
+ */
+export async function collectSourceFiles(dir: string, files: string[] = []): Promise<string[]> {
+    if (files.length >= MAX_SCANNED_FILES) {
+        return files;
+    }
+    let entries;
+    try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+        return files;
+    }
+    for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (!IGNORED_DIRECTORIES.has(entry.name) && !entry.name.startsWith('.')) {
+                await collectSourceFiles(entryPath, files);
+            }
+        } else if (entry.isFile() && SOURCE_EXTENSIONS.includes(path.extname(entry.name)) && !/\.d\.[cm]?ts$/.test(entry.name)) {
+            files.push(entryPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * Parses a source file with the script kind implied by its extension
+ */
+export function parseSource(filePath: string, content: string): ts.SourceFile {
+    const extension = path.extname(filePath);
+    const scriptKind = extension === '.tsx' ? ts.ScriptKind.TSX
+        : extension === '.jsx' ? ts.ScriptKind.JSX
+            : ['.js', '.mjs', '.cjs'].includes(extension) ? ts.ScriptKind.JS
+                : ts.ScriptKind.TS;
+    return ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, scriptKind);
+}
@@ -0,0 +1,469 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PROJECT_TYPES, ProjectType } from './project-analysis.js';
+import {
+    BUILTIN_TEMPLATES,
+    getBuiltinTemplate,
+    ProjectTemplate,
+    TemplateFile,
+    TemplateLayer,
+    templatePlaceholders,
+    TemplateVariables,
+} from './templates.js';
+
+/**
+ * File describing a template, at the top of its directory
+ */
+export const TEMPLATE_MANIFEST = 'template.json';
+
+export type TemplateKind = 'project' | 'component';
+
+export type TemplateLanguage = 'typescript' | 'javascript';
+
+/**
+ * A variable a template accepts in addition to the ones the server provides
+ */
+export interface TemplateVariableSpec {
+    description?: string;
+    default?: string;
+    required?: boolean;
+}
+
+/**
+ * Contents of template.json.
+ *
+ * Files live next to the manifest: `files/` is rendered for every project, and
+ * `typescript/` or `javascript/` only for that language. Component templates use
+ * `files/` only.
+ */
+export interface TemplateManifest {
+    name: string;
+    kind: TemplateKind;
+    description?: string;
+    /** Project type the template scaffolds; required for project templates */
+    type?: ProjectType;
+    /** Languages a project template supports; defaults to both */
+    languages?: TemplateLanguage[];
+    variables?: Record<string, TemplateVariableSpec>;
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+    packageJson?: Record<string, unknown>;
+    typescript?: Omit<TemplateLayer, 'files'>;
+    javascript?: Omit<TemplateLayer, 'files'>;
+}
+
+/**
+ * Variables the server fills in for every template of a kind
+ */
+export const BUILTIN_TEMPLATE_VARIABLES: Record<TemplateKind, Record<string, string>> = {
+    project: {
+        name: 'Project name',
+        nameLiteral: 'Project name as a quoted, escaped JavaScript string literal',
+        packageManager: 'Package manager used for the project',
+    },
+    component: {
+        name: 'Component name',
+        propsInterface: 'Props interface declaration, empty when no props are given',
+        propsType: 'Props type name, or {} when no props are given',
+        propNames: 'Comma-separated prop names, for destructuring',
+    },
+};
+
+/**
+ * A template ready to render
+ */
+export interface LoadedTemplate {
+    name: string;
+    kind: TemplateKind;
+    description: string;
+    /** Template directory, or "built-in" */
+    source: string;
+    variables: Record<string, TemplateVariableSpec>;
+    /** Set for project templates */
+    project?: ProjectTemplate;
+    /** Set for component templates */
+    files?: TemplateFile[];
+}
+
+export interface InvalidTemplate {
+    source: string;
+    errors: string[];
+}
+
+const MANIFEST_KEYS = [
+    'name', 'kind', 'description', 'type', 'languages', 'variables',
+    'dependencies', 'devDependencies', 'packageJson', 'typescript', 'javascript',
+];
+const LAYER_KEYS = ['dependencies', 'devDependencies', 'packageJson'];
+const VARIABLE_KEYS = ['description', 'default', 'required'];
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateDependencyMap(value: unknown, field: string, errors: string[]): void {
+    if (value === undefined) {
+        return;
+    }
+    if (!isRecord(value)) {
+        errors.push(`${field} must be an object of package names to version ranges`);
+        return;
+    }
+    for (const [name, range] of Object.entries(value)) {
+        if (typeof range !== 'string' || range.trim() === '') {
+            errors.push(`${field}.${name} must be a non-empty version string`);
+        }
+    }
+}
+
+function validateLayer(value: unknown, field: string, errors: string[]): void {
+    if (!isRecord(value)) {
+        errors.push(`${field} must be an object`);
+        return;
+    }
+    for (const key of Object.keys(value)) {
+        if (!LAYER_KEYS.includes(key)) {
+            errors.push(`${field}.${key} is not a recognised field (expected ${LAYER_KEYS.join(', ')})`);
+        }
+    }
+    validateDependencyMap(value.dependencies, `${field}.dependencies`, errors);
+    validateDependencyMap(value.devDependencies, `${field}.devDependencies`, errors);
+    if (value.packageJson !== undefined && !isRecord(value.packageJson)) {
+        errors.push(`${field}.packageJson must be an object`);
+    }
+}
+
+/**
+ * Checks a parsed template.json
+ * @returns A list of problems; empty when the manifest is valid
+ */
+export function validateTemplateManifest(manifest: unknown): string[] {
+    if (!isRecord(manifest)) {
+        return ['Manifest must be a JSON object'];
+    }
+
+    const errors: string[] = [];
+    for (const key of Object.keys(manifest)) {
+        if (!MANIFEST_KEYS.includes(key)) {
+            errors.push(`${key} is not a recognised field`);
+        }
+    }
+
+    if (typeof manifest.name !== 'string' || !TEMPLATE_NAME_PATTERN.test(manifest.name)) {
+        errors.push('name must be lowercase letters, digits, ".", "_" or "-"');
+    }
+    if (manifest.kind !== 'project' && manifest.kind !== 'component') {
+        errors.push('kind must be "project" or "component"');
+    }
+    if (manifest.description !== undefined && typeof manifest.description !== 'string') {
+        errors.push('description must be a string');
+    }
+
+    if (manifest.kind === 'project') {
+        if (!PROJECT_TYPES.includes(manifest.type as ProjectType)) {
+            errors.push(`type must be one of ${PROJECT_TYPES.join(', ')}`);
+        }
+        if (manifest.languages !== undefined && (
+            !Array.isArray(manifest.languages)
+            || manifest.languages.length === 0
+            || manifest.languages.some(language => language !== 'typescript' && language !== 'javascript')
+        )) {
+            errors.push('languages must be a non-empty array of "typescript" and "javascript"');
+        }
+        validateDependencyMap(manifest.dependencies, 'dependencies', errors);
+        validateDependencyMap(manifest.devDependencies, 'devDependencies', errors);
+        if (manifest.packageJson !== undefined && !isRecord(manifest.packageJson)) {
+            errors.push('packageJson must be an object');
+        }
+        for (const language of ['typescript', 'javascript']) {
+            if (manifest[language] !== undefined) {
+                validateLayer(manifest[language], language, errors);
+            }
+        }
+    } else if (manifest.kind === 'component') {
+        for (const key of ['type', 'languages', 'dependencies', 'devDependencies', 'packageJson', 'typescript', 'javascript']) {
+            if (manifest[key] !== undefined) {
+                errors.push(`${key} only applies to project templates`);
+            }
+        }
+    }
+
+    if (manifest.variables !== undefined) {
+        if (!isRecord(manifest.variables)) {
+            errors.push('variables must be an object');
+        } else {
+            const builtins = BUILTIN_TEMPLATE_VARIABLES[manifest.kind === 'component' ? 'component' : 'project'];
+            for (const [name, spec] of Object.entries(manifest.variables)) {
+                if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+                    errors.push(`variables.${name} is not a valid variable name`);
+                }
+                if (Object.hasOwn(builtins, name)) {
+                    errors.push(`variables.${name} is provided by the server and cannot be redeclared`);
+                }
+                if (!isRecord(spec)) {
+                    errors.push(`variables.${name} must be an object`);
+                    continue;
+                }
+                for (const key of Object.keys(spec)) {
+                    if (!VARIABLE_KEYS.includes(key)) {
+                        errors.push(`variables.${name}.${key} is not a recognised field`);
+                    }
+                }
+                if (spec.description !== undefined && typeof spec.description !== 'string') {
+                    errors.push(`variables.${name}.description must be a string`);
+                }
+                if (spec.default !== undefined && typeof spec.default !== 'string') {
+                    errors.push(`variables.${name}.default must be a string`);
+                }
+                if (spec.required !== undefined && typeof spec.required !== 'boolean') {
+                    errors.push(`variables.${name}.required must be a boolean`);
+                }
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Reads every file under a directory as text, with `/`-separated relative paths
+ */
+async function readTemplateFiles(dir: string, prefix = ''): Promise<TemplateFile[]> {
+    let entries;
+    try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return [];
+        }
+        throw error;
+    }
+
+    const files: TemplateFile[] = [];
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await readTemplateFiles(fullPath, relativePath));
+        } else if (entry.isFile()) {
+            files.push({ path: relativePath, content: await fs.readFile(fullPath, 'utf-8') });
+        }
+    }
+    return files;
+}
+
+/**
+ * Loads one template directory
+ * @returns The template, or the problems that make it unusable
+ */
+async function loadTemplate(dir: string): Promise<LoadedTemplate | InvalidTemplate> {
+    let manifest: TemplateManifest;
+    try {
+        manifest = JSON.parse(await fs.readFile(path.join(dir, TEMPLATE_MANIFEST), 'utf-8'));
+    } catch (error) {
+        return { source: dir, errors: [`Cannot read ${TEMPLATE_MANIFEST}: ${error instanceof Error ? error.message : String(error)}`] };
+    }
+
+    const errors = validateTemplateManifest(manifest);
+    if (errors.length > 0) {
+        return { source: dir, errors };
+    }
+
+    const variables = manifest.variables ?? {};
+    const known = new Set([...Object.keys(BUILTIN_TEMPLATE_VARIABLES[manifest.kind]), ...Object.keys(variables)]);
+
+    const base = await readTemplateFiles(path.join(dir, 'files'));
+    const languages = manifest.languages ?? ['typescript', 'javascript'];
+    const variantFiles: Partial<Record<TemplateLanguage, TemplateFile[]>> = {};
+    if (manifest.kind === 'project') {
+        for (const language of languages) {
+            variantFiles[language] = await readTemplateFiles(path.join(dir, language));
+        }
+    }
+
+    for (const file of [...base, ...Object.values(variantFiles).flat()]) {
+        if (file.path === 'package.json') {
+            errors.push(`${file.path}: declare package.json fields in the manifest instead`);
+        }
+        for (const placeholder of [...templatePlaceholders(file.path), ...templatePlaceholders(file.content)]) {
+            if (!known.has(placeholder)) {
+                errors.push(`${file.path}: unknown variable {{${placeholder}}}`);
+            }
+        }
+    }
+    if (base.length === 0 && Object.values(variantFiles).every(files => files.length === 0)) {
+        errors.push('Template has no files; add them under files/');
+    }
+    if (errors.length > 0) {
+        return { source: dir, errors: Array.from(new Set(errors)) };
+    }
+
+    const loaded: LoadedTemplate = {
+        name: manifest.name,
+        kind: manifest.kind,
+        description: manifest.description ?? '',
+        source: dir,
+        variables,
+    };
+
+    if (manifest.kind === 'component') {
+        loaded.files = base;
+    } else {
+        const layer = (language: TemplateLanguage): TemplateLayer | undefined => languages.includes(language)
+            ? { ...manifest[language], files: variantFiles[language] }
+            : undefined;
+        loaded.project = {
+            name: manifest.name,
+            description: manifest.description ?? '',
+            type: manifest.type!,
+            files: base,
+            dependencies: manifest.dependencies,
+            devDependencies: manifest.devDependencies,
+            packageJson: manifest.packageJson,
+            typescript: layer('typescript'),
+            javascript: layer('javascript'),
+        };
+    }
+    return loaded;
+}
+
+function builtinTemplate(template: ProjectTemplate): LoadedTemplate {
+    return {
+        name: template.name,
+        kind: 'project',
+        description: template.description,
+        source: 'built-in',
+        variables: {},
+        project: template,
+    };
+}
+
+/**
+ * Project and component templates from the built-ins and the configured directories.
+ *
+ * Each immediate subdirectory of a template directory holding a template.json is a
+ * template. Directories are re-read on every lookup so edits apply without a restart.
+ */
+export class TemplateRegistry {
+    constructor(private readonly dirs: string[]) { }
+
+    getDirectories(): string[] {
+        return [...this.dirs];
+    }
+
+    /**
+     * Loads every template, separating the ones that fail validation
+     */
+    async load(): Promise<{ templates: LoadedTemplate[]; invalid: InvalidTemplate[] }> {
+        const templates = BUILTIN_TEMPLATES.map(builtinTemplate);
+        const invalid: InvalidTemplate[] = [];
+
+        for (const dir of this.dirs) {
+            let entries;
+            try {
+                entries = await fs.readdir(dir, { withFileTypes: true });
+            } catch {
+                // Template directories are optional
+                continue;
+            }
+
+            for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+                const templateDir = path.join(dir, entry.name);
+                if (!entry.isDirectory() || !(await fs.stat(path.join(templateDir, TEMPLATE_MANIFEST)).catch(() => null))) {
+                    continue;
+                }
+
+                const result = await loadTemplate(templateDir);
+                if ('errors' in result) {
+                    invalid.push(result);
+                    continue;
+                }
+                const existing = templates.find(template => template.name === result.name);
+                if (existing) {
+                    invalid.push({ source: templateDir, errors: [`Template name ${result.name} is already used by ${existing.source}`] });
+                    continue;
+                }
+                templates.push(result);
+            }
+        }
+
+        return { templates, invalid };
+    }
+
+    /**
+     * The built-in template for a project type
+     */
+    getDefaultProjectTemplate(type: ProjectType): LoadedTemplate {
+        return builtinTemplate(getBuiltinTemplate(type));
+    }
+
+    /**
+     * Finds a valid template by name and kind
+     * @throws McpError (InvalidParams) when no such template exists or it failed validation
+     */
+    async get(name: string, kind: TemplateKind): Promise<LoadedTemplate> {
+        const { templates, invalid } = await this.load();
+        const template = templates.find(candidate => candidate.name === name);
+        if (template?.kind === kind) {
+            return template;
+        }
+        if (template) {
+            throw new McpError(ErrorCode.InvalidParams, `Template ${name} is a ${template.kind} template, not a ${kind} template`);
+        }
+
+        const broken = invalid.find(candidate => path.basename(candidate.source) === name);
+        if (broken) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Template ${name} at ${broken.source} is invalid:\n${broken.errors.map(error => `- ${error}`).join('\n')}`
+            );
+        }
+
+        const available = templates.filter(candidate => candidate.kind === kind).map(candidate => candidate.name);
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Unknown ${kind} template ${name}. Available: ${available.length > 0 ? available.join(', ') : 'none'}. Use list_templates for details.`
+        );
+    }
+}
+
+/**
+ * Combines server-provided values with caller-supplied ones, applying defaults
+ * @throws McpError (InvalidParams) for undeclared or missing required variables
+ */
+export function resolveTemplateVariables(
+    template: LoadedTemplate,
+    builtins: TemplateVariables,
+    provided: Record<string, string> = {}
+): TemplateVariables {
+    const unknown = Object.keys(provided).filter(name => !Object.hasOwn(template.variables, name));
+    if (unknown.length > 0) {
+        const declared = Object.keys(template.variables);
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Template ${template.name} does not declare variable(s) ${unknown.join(', ')}` +
+            (declared.length > 0 ? `; it accepts ${declared.join(', ')}` : '; it accepts none')
+        );
+    }
+
+    const values: TemplateVariables = {};
+    const missing: string[] = [];
+    for (const [name, spec] of Object.entries(template.variables)) {
+        const value = provided[name] ?? spec.default;
+        if (value === undefined) {
+            if (spec.required) {
+                missing.push(name);
+            }
+            values[name] = '';
+        } else {
+            values[name] = value;
+        }
+    }
+    if (missing.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Template ${template.name} requires variable(s) ${missing.join(', ')}`);
+    }
+
+    return { ...values, ...builtins };
+}
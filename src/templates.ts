@@ -0,0 +1,669 @@
+import * as path from 'path';
+import { ProjectType } from './project-analysis.js';
+
+/**
+ * A file in a template, with `{{variable}}` placeholders in its path and content
+ */
+export interface TemplateFile {
+    path: string;
+    content: string;
+}
+
+/**
+ * Files and package.json fields contributed by a template or one of its language variants
+ */
+export interface TemplateLayer {
+    files?: TemplateFile[];
+    dependencies?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+    /** Extra package.json fields such as `type` and `scripts`; string values are rendered */
+    packageJson?: Record<string, unknown>;
+}
+
+/**
+ * A project scaffold rendered locally, without network access.
+ *
+ * The base layer is shared; the `typescript` or `javascript` layer is applied on top
+ * depending on the requested language. A template without a layer for a language
+ * does not support it.
+ */
+export interface ProjectTemplate extends TemplateLayer {
+    name: string;
+    description: string;
+    type: ProjectType;
+    typescript?: TemplateLayer;
+    javascript?: TemplateLayer;
+}
+
+/**
+ * Values substituted for `{{name}}`-style placeholders
+ */
+export type TemplateVariables = Record<string, string>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Replaces `{{ variable }}` placeholders
+ * @throws Error for a placeholder with no value, so typos do not reach the output
+ */
+export function renderTemplateString(text: string, variables: TemplateVariables): string {
+    return text.replace(PLACEHOLDER_PATTERN, (_, key: string) => {
+        if (!Object.hasOwn(variables, key)) {
+            throw new Error(`Unknown template variable "${key}"`);
+        }
+        return variables[key];
+    });
+}
+
+/**
+ * Lists the variable names referenced by placeholders in a string
+ */
+export function templatePlaceholders(text: string): string[] {
+    return Array.from(text.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+}
+
+/**
+ * Renders file paths and contents, keeping every path relative to the output directory
+ * @throws Error for an unknown variable or a path that is absolute or climbs out with `..`
+ */
+export function renderTemplateFiles(files: TemplateFile[], variables: TemplateVariables): TemplateFile[] {
+    const rendered = new Map<string, string>();
+    for (const file of files) {
+        const filePath = path.posix.normalize(renderTemplateString(file.path, variables).replace(/\\/g, '/'));
+        if (path.posix.isAbsolute(filePath) || filePath === '..' || filePath.startsWith('../')) {
+            throw new Error(`Template file path ${file.path} renders outside the output directory`);
+        }
+        rendered.set(filePath, renderTemplateString(file.content, variables));
+    }
+    return Array.from(rendered, ([filePath, content]) => ({ path: filePath, content }));
+}
+
+function renderValue(value: unknown, variables: TemplateVariables): unknown {
+    if (typeof value === 'string') {
+        return renderTemplateString(value, variables);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => renderValue(item, variables));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item, variables)]));
+    }
+    return value;
+}
+
+function sortKeys(record: Record<string, string>): Record<string, string> | undefined {
+    const keys = Object.keys(record).sort();
+    return keys.length > 0 ? Object.fromEntries(keys.map(key => [key, record[key]])) : undefined;
+}
+
+/**
+ * Whether a template can be rendered for the given language
+ */
+export function supportsLanguage(template: ProjectTemplate, typescript: boolean): boolean {
+    return Boolean(typescript ? template.typescript : template.javascript);
+}
+
+/**
+ * Renders a template to the files of a new project, including its package.json
+ * @throws Error when the template does not support the language or uses an unknown variable
+ */
+export function renderProjectTemplate(
+    template: ProjectTemplate,
+    options: { typescript: boolean; variables: TemplateVariables }
+): TemplateFile[] {
+    const variant = options.typescript ? template.typescript : template.javascript;
+    if (!variant) {
+        throw new Error(`Template ${template.name} has no ${options.typescript ? 'TypeScript' : 'JavaScript'} variant`);
+    }
+
+    const files = renderTemplateFiles([...(template.files ?? []), ...(variant.files ?? [])], options.variables)
+        .filter(file => file.path !== 'package.json');
+
+    const packageJson = {
+        name: options.variables.name,
+        version: '0.1.0',
+        private: true,
+        ...(renderValue({ ...template.packageJson, ...variant.packageJson }, options.variables) as Record<string, unknown>),
+        dependencies: sortKeys({ ...template.dependencies, ...variant.dependencies }),
+        devDependencies: sortKeys({ ...template.devDependencies, ...variant.devDependencies }),
+    };
+    files.push({ path: 'package.json', content: `${JSON.stringify(packageJson, null, 2)}\n` });
+
+    return files;
+}
+
+const GITIGNORE: TemplateFile = {
+    path: '.gitignore',
+    content: `node_modules
+dist
+.env
+*.log
+`,
+};
+
+const ENV_EXAMPLE: TemplateFile = {
+    path: '.env.example',
+    content: `PORT=3000
+`,
+};
+
+const NODE_TSCONFIG: TemplateFile = {
+    path: 'tsconfig.json',
+    content: `{
+  "compilerOptions": {
+    "target": "ES2022",
+    "module": "NodeNext",
+    "moduleResolution": "NodeNext",
+    "outDir": "./dist",
+    "rootDir": "./src",
+    "strict": true,
+    "esModuleInterop": true,
+    "skipLibCheck": true,
+    "forceConsistentCasingInFileNames": true
+  },
+  "include": ["src/**/*"],
+  "exclude": ["node_modules", "dist"]
+}
+`,
+};
+
+const TYPESCRIPT_VERSION = '^5.5.4';
+const NODE_TYPES_VERSION = '^20.14.0';
+
+// Node services share their scripts; only the server code differs
+const NODE_TYPESCRIPT_LAYER: TemplateLayer = {
+    devDependencies: {
+        typescript: TYPESCRIPT_VERSION,
+        '@types/node': NODE_TYPES_VERSION,
+        tsx: '^4.16.2',
+    },
+    packageJson: {
+        scripts: {
+            dev: 'tsx watch src/index.ts',
+            build: 'tsc',
+            start: 'node dist/index.js',
+        },
+    },
+};
+
+const NODE_JAVASCRIPT_LAYER: TemplateLayer = {
+    packageJson: {
+        scripts: {
+            dev: 'node --watch src/index.js',
+            start: 'node src/index.js',
+        },
+    },
+};
+
+const viteReact: ProjectTemplate = {
+    name: 'vite-react',
+    description: 'React single-page app built with Vite',
+    type: 'react',
+    dependencies: {
+        react: '^18.3.1',
+        'react-dom': '^18.3.1',
+    },
+    devDependencies: {
+        vite: '^5.3.4',
+        '@vitejs/plugin-react': '^4.3.1',
+    },
+    packageJson: {
+        type: 'module',
+    },
+    files: [
+        GITIGNORE,
+        {
+            path: 'src/index.css',
+            content: `:root {
+  font-family: system-ui, sans-serif;
+  line-height: 1.5;
+}
+
+body {
+  margin: 0;
+  padding: 2rem;
+}
+`,
+        },
+    ],
+    typescript: {
+        devDependencies: {
+            typescript: TYPESCRIPT_VERSION,
+            '@types/react': '^18.3.3',
+            '@types/react-dom': '^18.3.0',
+        },
+        packageJson: {
+            scripts: {
+                dev: 'vite',
+                build: 'tsc && vite build',
+                preview: 'vite preview',
+            },
+        },
+        files: [
+            {
+                path: 'index.html',
+                content: `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{name}}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`,
+            },
+            {
+                path: 'vite.config.ts',
+                content: `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+            },
+            {
+                path: 'tsconfig.json',
+                content: `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "lib": ["ES2020", "DOM", "DOM.Iterable"],
+    "module": "ESNext",
+    "moduleResolution": "bundler",
+    "jsx": "react-jsx",
+    "strict": true,
+    "noEmit": true,
+    "isolatedModules": true,
+    "skipLibCheck": true
+  },
+  "include": ["src"]
+}
+`,
+            },
+            {
+                path: 'src/vite-env.d.ts',
+                content: `/// <reference types="vite/client" />
+`,
+            },
+            {
+                path: 'src/main.tsx',
+                content: `import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import App from './App';
+import './index.css';
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+);
+`,
+            },
+            {
+                path: 'src/App.tsx',
+                content: `import { useState } from 'react';
+
+export default function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <main>
+      <h1>{{name}}</h1>
+      <button onClick={() => setCount(count + 1)}>Count is {count}</button>
+    </main>
+  );
+}
+`,
+            },
+        ],
+    },
+    javascript: {
+        packageJson: {
+            scripts: {
+                dev: 'vite',
+                build: 'vite build',
+                preview: 'vite preview',
+            },
+        },
+        files: [
+            {
+                path: 'index.html',
+                content: `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{name}}</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.jsx"></script>
+  </body>
+</html>
+`,
+            },
+            {
+                path: 'vite.config.js',
+                content: `import { defineConfig } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+            },
+            {
+                path: 'src/main.jsx',
+                content: `import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+import App from './App';
+import './index.css';
+
+createRoot(document.getElementById('root')).render(
+  <StrictMode>
+    <App />
+  </StrictMode>
+);
+`,
+            },
+            {
+                path: 'src/App.jsx',
+                content: `import { useState } from 'react';
+
+export default function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <main>
+      <h1>{{name}}</h1>
+      <button onClick={() => setCount(count + 1)}>Count is {count}</button>
+    </main>
+  );
+}
+`,
+            },
+        ],
+    },
+};
+
+const next: ProjectTemplate = {
+    name: 'next',
+    description: 'Next.js app using the App Router',
+    type: 'next',
+    dependencies: {
+        next: '^14.2.5',
+        react: '^18.3.1',
+        'react-dom': '^18.3.1',
+    },
+    packageJson: {
+        scripts: {
+            dev: 'next dev',
+            build: 'next build',
+            start: 'next start',
+        },
+    },
+    files: [
+        {
+            path: '.gitignore',
+            content: `node_modules
+.next
+out
+.env*.local
+*.log
+next-env.d.ts
+`,
+        },
+        {
+            path: 'next.config.mjs',
+            content: `/** @type {import('next').NextConfig} */
+const nextConfig = {};
+
+export default nextConfig;
+`,
+        },
+        {
+            path: 'app/globals.css',
+            content: `body {
+  margin: 0;
+  font-family: system-ui, sans-serif;
+}
+`,
+        },
+    ],
+    typescript: {
+        devDependencies: {
+            typescript: TYPESCRIPT_VERSION,
+            '@types/node': NODE_TYPES_VERSION,
+            '@types/react': '^18.3.3',
+            '@types/react-dom': '^18.3.0',
+        },
+        files: [
+            {
+                path: 'tsconfig.json',
+                content: `{
+  "compilerOptions": {
+    "target": "ES2017",
+    "lib": ["dom", "dom.iterable", "esnext"],
+    "allowJs": true,
+    "skipLibCheck": true,
+    "strict": true,
+    "noEmit": true,
+    "esModuleInterop": true,
+    "module": "esnext",
+    "moduleResolution": "bundler",
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "jsx": "preserve",
+    "incremental": true,
+    "plugins": [{ "name": "next" }],
+    "paths": { "@/*": ["./*"] }
+  },
+  "include": ["next-env.d.ts", "**/*.ts", "**/*.tsx", ".next/types/**/*.ts"],
+  "exclude": ["node_modules"]
+}
+`,
+            },
+            {
+                path: 'app/layout.tsx',
+                content: `import type { Metadata } from 'next';
+import type { ReactNode } from 'react';
+import './globals.css';
+
+export const metadata: Metadata = {
+  title: {{nameLiteral}},
+};
+
+export default function RootLayout({ children }: { children: ReactNode }) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  );
+}
+`,
+            },
+            {
+                path: 'app/page.tsx',
+                content: `export default function Home() {
+  return (
+    <main>
+      <h1>{{name}}</h1>
+    </main>
+  );
+}
+`,
+            },
+        ],
+    },
+    javascript: {
+        files: [
+            {
+                path: 'app/layout.jsx',
+                content: `import './globals.css';
+
+export const metadata = {
+  title: {{nameLiteral}},
+};
+
+export default function RootLayout({ children }) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  );
+}
+`,
+            },
+            {
+                path: 'app/page.jsx',
+                content: `export default function Home() {
+  return (
+    <main>
+      <h1>{{name}}</h1>
+    </main>
+  );
+}
+`,
+            },
+        ],
+    },
+};
+
+const EXPRESS_SERVER = `import 'dotenv/config';
+import cors from 'cors';
+import express from 'express';
+
+const app = express();
+const port = Number(process.env.PORT ?? 3000);
+
+app.use(cors());
+app.use(express.json());
+
+app.get('/health', (_req, res) => {
+  res.json({ status: 'ok', service: {{nameLiteral}} });
+});
+
+app.listen(port, () => {
+  console.log({{nameLiteral}}, \`listening on port \${port}\`);
+});
+`;
+
+const express: ProjectTemplate = {
+    name: 'express',
+    description: 'Express HTTP API',
+    type: 'express',
+    dependencies: {
+        express: '^4.19.2',
+        cors: '^2.8.5',
+        dotenv: '^16.4.5',
+    },
+    packageJson: {
+        type: 'module',
+    },
+    files: [GITIGNORE, ENV_EXAMPLE],
+    typescript: {
+        ...NODE_TYPESCRIPT_LAYER,
+        devDependencies: {
+            ...NODE_TYPESCRIPT_LAYER.devDependencies,
+            '@types/express': '^4.17.21',
+            '@types/cors': '^2.8.17',
+        },
+        files: [NODE_TSCONFIG, { path: 'src/index.ts', content: EXPRESS_SERVER }],
+    },
+    javascript: {
+        ...NODE_JAVASCRIPT_LAYER,
+        files: [{ path: 'src/index.js', content: EXPRESS_SERVER }],
+    },
+};
+
+const FASTIFY_SERVER = `import cors from '@fastify/cors';
+import Fastify from 'fastify';
+
+const fastify = Fastify({ logger: true });
+const port = Number(process.env.PORT ?? 3000);
+
+await fastify.register(cors);
+
+fastify.get('/health', async () => ({ status: 'ok', service: {{nameLiteral}} }));
+
+try {
+  await fastify.listen({ port, host: '0.0.0.0' });
+} catch (error) {
+  fastify.log.error(error);
+  process.exit(1);
+}
+`;
+
+const fastify: ProjectTemplate = {
+    name: 'fastify',
+    description: 'Fastify HTTP API',
+    type: 'fastify',
+    dependencies: {
+        fastify: '^4.28.1',
+        '@fastify/cors': '^9.0.1',
+    },
+    packageJson: {
+        type: 'module',
+    },
+    files: [GITIGNORE, ENV_EXAMPLE],
+    typescript: {
+        ...NODE_TYPESCRIPT_LAYER,
+        files: [NODE_TSCONFIG, { path: 'src/index.ts', content: FASTIFY_SERVER }],
+    },
+    javascript: {
+        ...NODE_JAVASCRIPT_LAYER,
+        files: [{ path: 'src/index.js', content: FASTIFY_SERVER }],
+    },
+};
+
+const NODE_ENTRY_TS = `export function greet(name: string): string {
+  return \`Hello from \${name}\`;
+}
+
+console.log(greet({{nameLiteral}}));
+`;
+
+const NODE_ENTRY_JS = `export function greet(name) {
+  return \`Hello from \${name}\`;
+}
+
+console.log(greet({{nameLiteral}}));
+`;
+
+const node: ProjectTemplate = {
+    name: 'node',
+    description: 'Plain Node.js package',
+    type: 'node',
+    packageJson: {
+        type: 'module',
+    },
+    files: [GITIGNORE],
+    typescript: {
+        ...NODE_TYPESCRIPT_LAYER,
+        files: [NODE_TSCONFIG, { path: 'src/index.ts', content: NODE_ENTRY_TS }],
+    },
+    javascript: {
+        ...NODE_JAVASCRIPT_LAYER,
+        files: [{ path: 'src/index.js', content: NODE_ENTRY_JS }],
+    },
+};
+
+/**
+ * Templates shipped with the server, one per project type
+ */
+export const BUILTIN_TEMPLATES: ProjectTemplate[] = [viteReact, next, express, fastify, node];
+
+/**
+ * The built-in template used for a project type when no template is named
+ */
+export function getBuiltinTemplate(type: ProjectType): ProjectTemplate {
+    const template = BUILTIN_TEMPLATES.find(candidate => candidate.type === type);
+    if (!template) {
+        throw new Error(`No built-in template for project type ${type}`);
+    }
+    return template;
+}
@@ -0,0 +1,380 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { readExisting } from './file-changes.js';
+import { CommandSpec } from './package-manager.js';
+import { TestRunner } from './project-analysis.js';
+
+/**
+ * Test runners run_tests can drive and read results from
+ */
+export type SupportedTestRunner = Exclude<TestRunner, 'ava'>;
+
+export const SUPPORTED_TEST_RUNNERS: SupportedTestRunner[] = ['jest', 'vitest', 'mocha', 'node:test'];
+
+export interface TestRunOptions {
+    /** Test files to run: a path regex for Jest, a path filter for Vitest, a spec glob for Mocha, paths for node:test */
+    pattern?: string;
+    /** Only tests whose full name matches this regex */
+    testName?: string;
+    coverage?: boolean;
+}
+
+export interface TestFailure {
+    /** Full test name, including enclosing describe blocks */
+    name: string;
+    /** Where the failing assertion was made, or the test declared when no stack frame points into a test file */
+    file?: string;
+    line?: number;
+    column?: number;
+    message: string;
+}
+
+export interface CoverageMetric {
+    total: number;
+    covered: number;
+    pct: number;
+}
+
+export interface CoverageSummary {
+    lines: CoverageMetric;
+    /** Not measured by node:test */
+    statements?: CoverageMetric;
+    functions: CoverageMetric;
+    branches: CoverageMetric;
+}
+
+export interface TestReport {
+    summary: { total: number; passed: number; failed: number; skipped: number };
+    failures: TestFailure[];
+    coverage?: CoverageSummary;
+}
+
+const REPORT_FILE = 'report.json';
+const COVERAGE_DIR = 'coverage';
+const MAX_MESSAGE_LENGTH = 2000;
+const NODE_TEST_REPORTER = new URL('./node-test-reporter.js', import.meta.url).href;
+
+/**
+ * Finds the executable script of a package installed in `projectPath` or a node_modules
+ * directory above it, up to `searchRoot`
+ */
+async function findPackageBin(projectPath: string, searchRoot: string, packageName: string): Promise<string | undefined> {
+    for (let dir = projectPath; ; dir = path.dirname(dir)) {
+        const packageDir = path.join(dir, 'node_modules', packageName);
+        const manifest = await readExisting(path.join(packageDir, 'package.json'));
+        if (manifest !== null) {
+            const bin: unknown = JSON.parse(manifest).bin;
+            const relative = typeof bin === 'string' ? bin : (bin as Record<string, string> | undefined)?.[packageName];
+            return relative ? path.join(packageDir, relative) : undefined;
+        }
+        if (dir === searchRoot || path.dirname(dir) === dir) {
+            return undefined;
+        }
+    }
+}
+
+async function requireBin(projectPath: string, searchRoot: string, packageName: string, purpose: string): Promise<string> {
+    const bin = await findPackageBin(projectPath, searchRoot, packageName);
+    if (!bin) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `${packageName} is not installed in ${projectPath}; install it to ${purpose}`
+        );
+    }
+    return bin;
+}
+
+/**
+ * Builds the command running a project's tests with a machine-readable reporter writing
+ * into `workDir`. Binaries run through the current Node.js, so no shell or .cmd shim is involved.
+ * @param searchRoot Outermost directory whose node_modules may hold the runner, e.g. the workspace root
+ * @throws McpError (InvalidParams) when the runner, or c8 for Mocha coverage, is not installed,
+ * or a filter looks like an option
+ */
+export async function buildTestCommand(
+    runner: SupportedTestRunner,
+    projectPath: string,
+    searchRoot: string,
+    workDir: string,
+    options: TestRunOptions
+): Promise<CommandSpec> {
+    if (options.pattern?.startsWith('-')) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid test file pattern: ${options.pattern}`);
+    }
+    const reportFile = path.join(workDir, REPORT_FILE);
+    const coverageDir = path.join(workDir, COVERAGE_DIR);
+    const pattern = options.pattern ? [options.pattern] : [];
+    const node = process.execPath;
+
+    switch (runner) {
+        case 'jest': {
+            const bin = await requireBin(projectPath, searchRoot, 'jest', 'run its tests');
+            return {
+                command: node,
+                args: [
+                    bin, '--ci', '--json', `--outputFile=${reportFile}`, '--testLocationInResults',
+                    ...(options.testName ? [`--testNamePattern=${options.testName}`] : []),
+                    ...(options.coverage
+                        ? ['--coverage', '--coverageReporters=json-summary', `--coverageDirectory=${coverageDir}`]
+                        : []),
+                    ...pattern,
+                ],
+            };
+        }
+        case 'vitest': {
+            const bin = await requireBin(projectPath, searchRoot, 'vitest', 'run its tests');
+            return {
+                command: node,
+                args: [
+                    bin, 'run', '--reporter=json', `--outputFile=${reportFile}`,
+                    ...(options.testName ? ['--testNamePattern', options.testName] : []),
+                    ...(options.coverage
+                        ? ['--coverage.enabled', '--coverage.reporter=json-summary', `--coverage.reportsDirectory=${coverageDir}`]
+                        : []),
+                    ...pattern,
+                ],
+            };
+        }
+        case 'mocha': {
+            const bin = await requireBin(projectPath, searchRoot, 'mocha', 'run its tests');
+            const args = [
+                bin, '--reporter', 'json', '--reporter-option', `output=${reportFile}`,
+                ...(options.testName ? ['--grep', options.testName] : []),
+                ...pattern,
+            ];
+            if (!options.coverage) {
+                return { command: node, args };
+            }
+            // Mocha measures no coverage itself
+            const c8 = await requireBin(projectPath, searchRoot, 'c8', 'measure coverage of Mocha tests');
+            return { command: node, args: [c8, '--reporter=json-summary', `--report-dir=${coverageDir}`, node, ...args] };
+        }
+        case 'node:test':
+            return {
+                command: node,
+                args: [
+                    '--test', `--test-reporter=${NODE_TEST_REPORTER}`, `--test-reporter-destination=${reportFile}`,
+                    ...(options.coverage ? ['--experimental-test-coverage'] : []),
+                    ...(options.testName ? [`--test-name-pattern=${options.testName}`] : []),
+                    ...pattern,
+                ],
+            };
+    }
+}
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+const STACK_FRAME_PATTERN = /^\s*at (?:.*\()?((?:file:\/\/)?[^()\s]+?):(\d+):(\d+)\)?\s*$/;
+
+// Some runners print paths relative to the directory they ran in
+function frameLocation(line: string, cwd: string): { file: string; line: number; column: number } | undefined {
+    const match = STACK_FRAME_PATTERN.exec(line);
+    if (!match) {
+        return undefined;
+    }
+    const [, location, lineNumber, column] = match;
+    const file = location.startsWith('file://') ? fileURLToPath(location)
+        : location.startsWith('node:') ? location : path.resolve(cwd, location);
+    return { file, line: Number(lineNumber), column: Number(column) };
+}
+
+/**
+ * Splits a failure message from its stack trace and finds where in the tests it was raised:
+ * the first frame in `testFile`, or else the first frame outside node_modules and Node.js itself
+ */
+function parseFailure(text: string, cwd: string, testFile?: string): Omit<TestFailure, 'name'> {
+    const lines = text.replace(ANSI_PATTERN, '').split('\n');
+    const stackStart = lines.findIndex(line => STACK_FRAME_PATTERN.test(line));
+    const message = (stackStart === -1 ? lines : lines.slice(0, stackStart)).join('\n').trim();
+    const frames = stackStart === -1 ? [] : lines.slice(stackStart).map(line => frameLocation(line, cwd)).filter(frame => frame !== undefined);
+    const location = frames.find(frame => testFile !== undefined && frame!.file === path.resolve(cwd, testFile))
+        ?? frames.find(frame => !frame!.file.includes(`${path.sep}node_modules${path.sep}`) && !frame!.file.startsWith('node:'));
+    return {
+        ...location,
+        message: message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…` : message,
+    };
+}
+
+function parseJson<T>(text: string, file: string): T {
+    try {
+        return JSON.parse(text) as T;
+    } catch (error) {
+        throw new Error(`Cannot parse test report ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+interface JestReport {
+    numTotalTests: number;
+    numPassedTests: number;
+    numFailedTests: number;
+    numPendingTests: number;
+    numTodoTests?: number;
+    testResults: {
+        name: string;
+        status?: string;
+        message?: string;
+        assertionResults: {
+            ancestorTitles?: string[];
+            title: string;
+            fullName?: string;
+            status: string;
+            failureMessages?: string[] | null;
+            location?: { line: number; column: number } | null;
+        }[];
+    }[];
+}
+
+// Vitest's JSON reporter writes the same format as Jest's
+function readJestReport(report: JestReport, cwd: string): TestReport {
+    const failures: TestFailure[] = [];
+    for (const file of report.testResults) {
+        const failed = file.assertionResults.filter(assertion => assertion.status === 'failed');
+        for (const assertion of failed) {
+            const parsed = parseFailure(assertion.failureMessages?.join('\n') ?? '', cwd, file.name);
+            failures.push({
+                name: assertion.fullName ?? [...assertion.ancestorTitles ?? [], assertion.title].join(' '),
+                ...(parsed.file ? {} : { file: file.name, ...assertion.location ?? {} }),
+                ...parsed,
+            });
+        }
+        // A file that fails to load or run has no failed tests, only a message
+        if (file.status === 'failed' && failed.length === 0) {
+            failures.push({ name: file.name, file: file.name, ...parseFailure(file.message ?? 'Test file failed', cwd, file.name) });
+        }
+    }
+    return {
+        summary: {
+            total: report.numTotalTests,
+            passed: report.numPassedTests,
+            failed: report.numFailedTests,
+            skipped: report.numPendingTests + (report.numTodoTests ?? 0),
+        },
+        failures,
+    };
+}
+
+interface MochaReport {
+    stats: { tests: number; passes: number; failures: number; pending: number };
+    failures: { fullTitle: string; file?: string; err: { message?: string; stack?: string } }[];
+}
+
+function readMochaReport(report: MochaReport, cwd: string): TestReport {
+    return {
+        summary: {
+            total: report.stats.tests,
+            passed: report.stats.passes,
+            failed: report.stats.failures,
+            skipped: report.stats.pending,
+        },
+        failures: report.failures.map(failure => ({
+            name: failure.fullTitle,
+            file: failure.file && path.resolve(cwd, failure.file),
+            ...parseFailure(failure.err.stack ?? failure.err.message ?? 'Test failed', cwd, failure.file),
+        })),
+    };
+}
+
+type NodeTestEvent =
+    | {
+        event: 'result';
+        name: string;
+        ancestors: string[];
+        file?: string;
+        line?: number;
+        column?: number;
+        status: 'passed' | 'failed' | 'skipped' | 'todo';
+        error?: { message: string; stack?: string };
+    }
+    | { event: 'stderr'; file?: string; message: string }
+    | { event: 'coverage'; totals?: Record<string, number> };
+
+function readNodeTestReport(text: string, file: string, cwd: string): TestReport {
+    const events = text.split('\n').filter(Boolean).map(line => parseJson<NodeTestEvent>(line, file));
+    const stderr = new Map<string | undefined, string>();
+    const report: TestReport = { summary: { total: 0, passed: 0, failed: 0, skipped: 0 }, failures: [] };
+
+    for (const event of events) {
+        if (event.event === 'stderr') {
+            stderr.set(event.file, (stderr.get(event.file) ?? '') + event.message);
+        } else if (event.event === 'coverage' && event.totals) {
+            const metric = (kind: 'Line' | 'Function' | 'Branch'): CoverageMetric => ({
+                total: event.totals![`total${kind}Count`],
+                covered: event.totals![`covered${kind}Count`],
+                pct: Math.round(event.totals![`covered${kind}Percent`] * 100) / 100,
+            });
+            report.coverage = { lines: metric('Line'), functions: metric('Function'), branches: metric('Branch') };
+        } else if (event.event === 'result') {
+            report.summary.total++;
+            if (event.status === 'passed') {
+                report.summary.passed++;
+            } else if (event.status === 'failed') {
+                report.summary.failed++;
+                const parsed = parseFailure(event.error?.stack ?? event.error?.message ?? 'Test failed', cwd, event.file);
+                report.failures.push({
+                    name: [...event.ancestors, event.name].join(' > '),
+                    ...(parsed.file ? {} : { file: event.file, line: event.line, column: event.column }),
+                    ...parsed,
+                });
+            } else {
+                report.summary.skipped++;
+            }
+        }
+    }
+    // A file that crashed is reported as a test named after it; its output says why
+    for (const failure of report.failures) {
+        const output = failure.name === failure.file ? stderr.get(failure.file)?.trim() : undefined;
+        if (output) {
+            failure.message = parseFailure(output, cwd).message || failure.message;
+        }
+    }
+    return report;
+}
+
+async function readCoverageSummary(coverageDir: string): Promise<CoverageSummary | undefined> {
+    const file = path.join(coverageDir, 'coverage-summary.json');
+    const text = await readExisting(file);
+    if (text === null) {
+        return undefined;
+    }
+    const { total } = parseJson<{ total: Record<string, { total: number; covered: number; pct: number | string }> }>(text, file);
+    // Istanbul reports "Unknown" as the percentage of nothing
+    const metric = ({ total: count, covered, pct }: { total: number; covered: number; pct: number | string }): CoverageMetric =>
+        ({ total: count, covered, pct: typeof pct === 'number' ? pct : 100 });
+    return {
+        lines: metric(total.lines),
+        statements: metric(total.statements),
+        functions: metric(total.functions),
+        branches: metric(total.branches),
+    };
+}
+
+/**
+ * Reads the results a command from buildTestCommand wrote into `workDir`
+ * @param projectPath Directory the tests ran in
+ * @returns undefined when the runner wrote no report, e.g. because it failed to start
+ * @throws Error when the report cannot be parsed
+ */
+export async function readTestReport(
+    runner: SupportedTestRunner,
+    projectPath: string,
+    workDir: string
+): Promise<TestReport | undefined> {
+    const file = path.join(workDir, REPORT_FILE);
+    const text = await readExisting(file);
+    if (text === null || text.trim() === '') {
+        return undefined;
+    }
+    switch (runner) {
+        case 'jest':
+        case 'vitest': {
+            const report = readJestReport(parseJson<JestReport>(text, file), projectPath);
+            return { ...report, coverage: await readCoverageSummary(path.join(workDir, COVERAGE_DIR)) };
+        }
+        case 'mocha': {
+            const report = readMochaReport(parseJson<MochaReport>(text, file), projectPath);
+            return { ...report, coverage: await readCoverageSummary(path.join(workDir, COVERAGE_DIR)) };
+        }
+        case 'node:test':
+            return readNodeTestReport(text, file, projectPath);
+    }
+}
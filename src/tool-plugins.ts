@@ -0,0 +1,93 @@
+import * as fs from 'fs/promises';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { ToolDefinition, ToolPlugin } from './tool-registry.js';
+
+/**
+ * One entry of the plugins config file
+ */
+export interface PluginReference {
+    /** Module path relative to the config file, or a package name resolved from its directory */
+    module: string;
+    /** Passed to the plugin's tools() */
+    options: Record<string, unknown>;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Reads the plugins config file, a JSON object listing plugin modules:
+ * `{ "plugins": ["./tools/deploy.js", { "module": "@acme/omnibus-tools", "options": {} }] }`
+ * @throws Error when the file cannot be read or parsed, or an entry is malformed
+ */
+export async function readPluginConfig(configFile: string): Promise<PluginReference[]> {
+    let config: unknown;
+    try {
+        config = JSON.parse(await fs.readFile(configFile, 'utf-8'));
+    } catch (error) {
+        throw new Error(`Cannot read plugins config ${configFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!isObject(config) || !Array.isArray(config.plugins)) {
+        throw new Error(`Plugins config ${configFile} must be an object with a plugins array`);
+    }
+    return config.plugins.map((entry: unknown, index: number) => {
+        if (typeof entry === 'string') {
+            return { module: entry, options: {} };
+        }
+        if (isObject(entry) && typeof entry.module === 'string' && (entry.options === undefined || isObject(entry.options))) {
+            return { module: entry.module, options: (entry.options as Record<string, unknown> | undefined) ?? {} };
+        }
+        throw new Error(`plugins[${index}] in ${configFile} must be a module string or { module, options? }`);
+    });
+}
+
+/**
+ * Imports a plugin module and returns its default export
+ * @throws Error when the module cannot be found or imported, or does not export a plugin
+ */
+export async function importPlugin(reference: PluginReference, configFile: string): Promise<ToolPlugin> {
+    const specifier = reference.module;
+    const resolved = specifier.startsWith('.') || path.isAbsolute(specifier)
+        ? path.resolve(path.dirname(configFile), specifier)
+        : createRequire(path.resolve(configFile)).resolve(specifier);
+
+    const exported = await import(pathToFileURL(resolved).href) as { default?: unknown };
+    // CommonJS modules compiled from `export default` nest the plugin one level deeper
+    let plugin = exported.default;
+    if (isObject(plugin) && !('tools' in plugin) && 'default' in plugin) {
+        plugin = plugin.default;
+    }
+    if (!isObject(plugin) || typeof plugin.name !== 'string' || typeof plugin.tools !== 'function') {
+        throw new Error(`${specifier} must default-export a plugin: { name: string, tools(host, options) }`);
+    }
+    return plugin as unknown as ToolPlugin;
+}
+
+/**
+ * Checks that the tools a plugin created can be listed and called
+ * @throws Error naming the first malformed tool
+ */
+export function validatePluginTools(pluginName: string, tools: unknown): ToolDefinition[] {
+    if (!Array.isArray(tools)) {
+        throw new Error(`Plugin ${pluginName}: tools() must return an array of tool definitions`);
+    }
+    tools.forEach((tool: unknown, index: number) => {
+        const label = isObject(tool) && typeof tool.name === 'string' ? tool.name : `#${index}`;
+        if (!isObject(tool) || typeof tool.name !== 'string' || !/^[A-Za-z0-9_-]+$/.test(tool.name)) {
+            throw new Error(`Plugin ${pluginName}: tool ${label} needs a name of letters, digits, _ and -`);
+        }
+        if (typeof tool.description !== 'string') {
+            throw new Error(`Plugin ${pluginName}: tool ${label} needs a description`);
+        }
+        if (!isObject(tool.inputSchema) || tool.inputSchema.type !== 'object') {
+            throw new Error(`Plugin ${pluginName}: tool ${label} needs an inputSchema of type object`);
+        }
+        if (typeof tool.handler !== 'function') {
+            throw new Error(`Plugin ${pluginName}: tool ${label} needs a handler function`);
+        }
+    });
+    return tools as ToolDefinition[];
+}
@@ -0,0 +1,134 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { validateArguments } from './argument-validation.js';
+import { ServerConfig } from './config.js';
+import { DocKey } from './doc-store.js';
+import { ChangeJournal, JournalOperation } from './journal.js';
+import { Logger } from './logger.js';
+import { TemplateRegistry } from './template-registry.js';
+import { JsonSchema } from './type-generation.js';
+import { WorkspaceSandbox } from './workspace.js';
+
+/**
+ * Server services shared by every tool; a plugin receives it when its tools are created
+ */
+export interface ToolHost {
+    config: ServerConfig;
+    /** Confines paths to the allowed roots; resolve every caller-supplied path through it */
+    workspace: WorkspaceSandbox;
+    journal: ChangeJournal;
+    templates: TemplateRegistry;
+    /** Indexes documentation written to disk so it is served as a resource */
+    recordDoc(key: DocKey, file: string): Promise<void>;
+    /** Structured logger; external plugins get one named after them */
+    logger: Logger;
+}
+
+/**
+ * What a tool handler gets besides its arguments
+ */
+export interface ToolContext {
+    /** Journal operation of the call; files the tool writes are recorded on it */
+    operation: JournalOperation;
+    /** Token for progress notifications, when the client asked for them */
+    progressToken?: string | number;
+    /** Sends a progress notification; does nothing when the client asked for none */
+    reportProgress(progress: number, total?: number): void;
+    /** Aborted when the client cancels the call */
+    signal: AbortSignal;
+}
+
+// A type rather than an interface so it fits the SDK's open-ended result types
+export type ToolResult = {
+    content: { type: string; text: string }[];
+    isError?: boolean;
+};
+
+/**
+ * Hints about a tool's behaviour for clients deciding whether to ask before calling it.
+ * Hints are not guarantees; destructiveHint only matters when readOnlyHint is false.
+ */
+export interface ToolAnnotations {
+    title?: string;
+    /** The tool does not modify its environment */
+    readOnlyHint?: boolean;
+    /** The tool may replace or delete existing content, rather than only add to it */
+    destructiveHint?: boolean;
+    /** Repeating a call with the same arguments has no further effect */
+    idempotentHint?: boolean;
+    /** The tool reaches outside the workspace, e.g. the package registry or arbitrary scripts */
+    openWorldHint?: boolean;
+}
+
+/**
+ * A tool as listed to clients, together with the handler that runs it
+ */
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    inputSchema: JsonSchema & { type: 'object' };
+    annotations?: ToolAnnotations;
+    /** Receives arguments already validated against inputSchema, with defaults applied */
+    handler: (args: Record<string, unknown>, context: ToolContext) => ToolResult | Promise<ToolResult>;
+}
+
+/**
+ * A module contributing tools. Built-in tools are plugins too; external ones are
+ * default exports of the modules listed in the plugins config file.
+ */
+export interface ToolPlugin {
+    name: string;
+    /**
+     * Creates the plugin's tools
+     * @param options The plugin's options from the plugins config file; empty for built-in plugins
+     */
+    tools(host: ToolHost, options: Record<string, unknown>): ToolDefinition[] | Promise<ToolDefinition[]>;
+}
+
+/**
+ * The tools a server offers, by name
+ */
+export class ToolRegistry {
+    private readonly tools = new Map<string, ToolDefinition>();
+
+    /**
+     * @throws Error when a tool with the same name is already registered
+     */
+    register(...tools: ToolDefinition[]): void {
+        // Nothing is registered when any name is taken, so a rejected plugin leaves no tools behind
+        const names = tools.map(tool => tool.name);
+        const taken = names.find((name, index) => this.tools.has(name) || names.indexOf(name) !== index);
+        if (taken !== undefined) {
+            throw new Error(`Tool ${taken} is already registered`);
+        }
+        tools.forEach(tool => this.tools.set(tool.name, tool));
+    }
+
+    /**
+     * Tool descriptions for tools/list, in registration order
+     */
+    list(): Omit<ToolDefinition, 'handler'>[] {
+        return [...this.tools.values()].map(({ name, description, inputSchema, annotations }) => ({
+            name,
+            description,
+            inputSchema,
+            annotations,
+        }));
+    }
+
+    /**
+     * Looks up a tool and checks the arguments of a call against its input schema
+     * @returns The tool and its arguments with defaults applied
+     * @throws McpError (MethodNotFound) for an unknown tool, (InvalidParams) listing every invalid field
+     */
+    prepare(name: string, args: Record<string, unknown>): { tool: ToolDefinition; args: Record<string, unknown> } {
+        const tool = this.tools.get(name);
+        if (!tool) {
+            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+        }
+        const { value, errors } = validateArguments(tool.inputSchema, args);
+        if (errors.length > 0) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${name}: ${errors.join('; ')}`);
+        }
+        return { tool, args: value as Record<string, unknown> };
+    }
+}
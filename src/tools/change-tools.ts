@@ -0,0 +1,104 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as path from 'path';
+import { ToolDefinition, ToolHost, ToolPlugin } from '../tool-registry.js';
+import { DRY_RUN_PROPERTY } from './shared.js';
+
+interface ListChangesArgs extends Record<string, unknown> {
+    includeUndone?: boolean;
+}
+
+interface UndoChangesArgs extends Record<string, unknown> {
+    operationId?: number;
+    all?: boolean;
+    force?: boolean;
+    dryRun?: boolean;
+}
+
+function handleListChanges(host: ToolHost, args: ListChangesArgs) {
+    const operations = host.journal.list(args.includeUndone);
+    return {
+        content: [
+            {
+                type: 'text',
+                text: operations.length > 0
+                    ? JSON.stringify(operations, null, 2)
+                    : 'No changes have been recorded in this session',
+            },
+        ],
+    };
+}
+
+async function handleUndoChanges(host: ToolHost, args: UndoChangesArgs) {
+    if ((args.operationId === undefined) === !args.all) {
+        throw new McpError(ErrorCode.InvalidParams, 'Specify either operationId or all: true');
+    }
+
+    const results = await host.journal.undo({
+        operationId: args.all ? undefined : args.operationId,
+        force: args.force,
+        dryRun: args.dryRun,
+    });
+
+    const restoredManifest = results.some(result => result.reverted.some(entry =>
+        entry.action === 'restored' && path.basename(entry.path) === 'package.json'
+    ));
+
+    return {
+        content: [
+            {
+                type: 'text',
+                text: `${args.dryRun ? 'Dry run: would revert' : 'Reverted'} ${results.length} operation(s)
+${results.map(result => `Operation ${result.operationId} (${result.tool}):
+${result.reverted.map(entry => `- ${entry.path}: ${entry.action}`).join('\n')}`).join('\n')}${restoredManifest ? '\n\npackage.json was restored; run an install to bring node_modules back in sync.' : ''}`,
+            },
+        ],
+    };
+}
+
+export const changeTools: ToolPlugin = {
+    name: 'changes',
+    tools: (host): ToolDefinition[] => [
+        {
+            name: 'list_changes',
+            description: 'List file changes made by tools during this session, grouped by operation',
+            annotations: { readOnlyHint: true, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    includeUndone: {
+                        type: 'boolean',
+                        description: 'Include operations that have already been undone',
+                        default: false,
+                    },
+                },
+            },
+            handler: (args) => handleListChanges(host, args as ListChangesArgs),
+        },
+        {
+            name: 'undo_changes',
+            description: 'Revert file changes made by a single operation or by the whole session',
+            annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    operationId: {
+                        type: 'number',
+                        description: 'Operation id from list_changes',
+                    },
+                    all: {
+                        type: 'boolean',
+                        description: 'Undo every operation of the session, newest first',
+                        default: false,
+                    },
+                    force: {
+                        type: 'boolean',
+                        description: 'Revert even if files were changed after the operation',
+                        default: false,
+                    },
+                    dryRun: DRY_RUN_PROPERTY,
+                },
+            },
+            handler: (args) => handleUndoChanges(host, args as UndoChangesArgs),
+        },
+    ],
+};
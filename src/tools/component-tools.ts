@@ -0,0 +1,299 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { getExampleValue } from '../component-docs.js';
+import {
+    detectComponentTestRunner,
+    propName,
+    renderComponentBarrel,
+    renderComponentStory,
+    renderComponentTest,
+    renderCssModule,
+} from '../component-scaffold.js';
+import { findProjectDirectory } from '../doc-store.js';
+import { applyFileChanges, formatFileChangeResults, planFileChange, readExisting } from '../file-changes.js';
+import { JournalOperation } from '../journal.js';
+import { resolveTemplateVariables } from '../template-registry.js';
+import { renderTemplateFiles, TemplateFile } from '../templates.js';
+import { ToolDefinition, ToolHost, ToolPlugin } from '../tool-registry.js';
+import {
+    DRY_RUN_PROPERTY,
+    FileWriteArgs,
+    OVERWRITE_PROPERTY,
+    resolveFilePath,
+    TEMPLATE_VARIABLES_PROPERTY,
+    validatePath,
+} from './shared.js';
+
+interface GenerateComponentArgs extends FileWriteArgs {
+    name: string;
+    path: string;
+    type?: 'functional' | 'class';
+    props?: Record<string, string>;
+    template?: string;
+    variables?: Record<string, string>;
+    withTest?: boolean;
+    withStory?: boolean;
+    withStyles?: boolean;
+    withIndex?: boolean;
+}
+
+async function handleGenerateComponent(host: ToolHost, args: GenerateComponentArgs, operation: JournalOperation) {
+    if (args.template) {
+        if (args.withTest || args.withStory || args.withStyles || args.withIndex) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                'withTest, withStory, withStyles and withIndex apply to built-in components; add those files to the template instead'
+            );
+        }
+        return generateComponentFromTemplate(host, args, args.template, operation);
+    }
+    args = { ...args, type: args.type ?? 'functional' };
+    const componentDir = await validatePath(host.workspace, args.path, !args.dryRun);
+
+    const componentContent = generateComponentContent(args);
+    const fileName = `${args.name}.tsx`;
+    const filePath = await resolveFilePath(host.workspace, componentDir, fileName);
+    const docPath = await resolveFilePath(host.workspace, componentDir, `${args.name}.md`);
+
+    try {
+        // Generate component and its documentation
+        const docContent = generateComponentDocumentation(args);
+        const props = args.props ?? {};
+        const files: { fileName: string; content: string; conflict?: boolean }[] = [];
+        if (args.withTest) {
+            const runner = await detectComponentTestRunner(componentDir, host.workspace.rootOf(componentDir));
+            files.push({ fileName: `${args.name}.test.tsx`, content: renderComponentTest(args.name, props, runner) });
+        }
+        if (args.withStory) {
+            files.push({ fileName: `${args.name}.stories.tsx`, content: renderComponentStory(args.name, props) });
+        }
+        if (args.withStyles) {
+            files.push({ fileName: `${args.name}.module.css`, content: renderCssModule() });
+        }
+        if (args.withIndex) {
+            // Adding to an existing barrel never counts as overwriting it
+            const existing = await readExisting(await resolveFilePath(host.workspace, componentDir, 'index.ts'));
+            files.push({
+                fileName: 'index.ts',
+                content: renderComponentBarrel(args.name, existing),
+                conflict: existing === null ? undefined : false,
+            });
+        }
+
+        const changes = [
+            await planFileChange(filePath, componentContent),
+            await planFileChange(docPath, docContent),
+        ];
+        for (const file of files) {
+            changes.push(await planFileChange(await resolveFilePath(host.workspace, componentDir, file.fileName), file.content, file.conflict));
+        }
+        const results = await applyFileChanges(changes, { ...args, recorder: operation });
+
+        if (!args.dryRun && results[1].outcome !== 'skipped') {
+            await host.recordDoc({ project: await findProjectDirectory(filePath), type: 'component', name: args.name }, docPath);
+        }
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: `${args.dryRun ? `Dry run for component ${args.name}: no files were written` : `Component ${args.name} created successfully at ${filePath}`}
+${formatFileChangeResults(results, args.dryRun)}`,
+                },
+            ],
+        };
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to generate component: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+async function generateComponentFromTemplate(host: ToolHost, args: GenerateComponentArgs, templateName: string, operation: JournalOperation) {
+    const template = await host.templates.get(templateName, 'component');
+    const componentDir = await validatePath(host.workspace, args.path, !args.dryRun);
+
+    const props = Object.entries(args.props ?? {});
+    const variables = resolveTemplateVariables(template, {
+        name: args.name,
+        propsInterface: props.length > 0
+            ? `interface ${args.name}Props {
+    ${props.map(([key, type]) => `${key}: ${type};`).join('\n    ')}
+}`
+            : '',
+        propsType: props.length > 0 ? `${args.name}Props` : '{}',
+        propNames: props.map(([key]) => propName(key)).join(', '),
+    }, args.variables);
+
+    let files: TemplateFile[];
+    try {
+        files = renderTemplateFiles(template.files!, variables);
+    } catch (error) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Cannot render template ${template.name}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+
+    try {
+        const changes = await Promise.all(files.map(async file =>
+            planFileChange(await resolveFilePath(host.workspace, componentDir, file.path), file.content)
+        ));
+        const results = await applyFileChanges(changes, { ...args, recorder: operation });
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: `${args.dryRun ? `Dry run for component ${args.name}: no files were written` : `Component ${args.name} created from template ${template.name} in ${componentDir}`}
+${formatFileChangeResults(results, args.dryRun)}`,
+                },
+            ],
+        };
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to generate component: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+function generateComponentContent(args: GenerateComponentArgs): string {
+    const propsInterface = args.props
+        ? `interface ${args.name}Props {
+    ${Object.entries(args.props).map(([key, type]) => `${key}: ${type};`).join('\n    ')}
+}`
+        : '';
+
+    const stylesImport = args.withStyles ? `\nimport styles from './${args.name}.module.css';` : '';
+    const rootAttributes = args.withStyles ? ' className={styles.root}' : '';
+
+    if (args.type === 'functional') {
+        return `import React from 'react';${stylesImport}
+
+${propsInterface}
+
+${args.props
+                    ? `const ${args.name}: React.FC<${args.name}Props> = ({ ${Object.keys(args.props).map(propName).join(', ')} }) => {`
+                    : `const ${args.name}: React.FC = () => {`}
+    return (
+        <div${rootAttributes}>
+            {/* Add your component content here */}
+        </div>
+    );
+};
+
+export default ${args.name};
+`;
+    } else {
+        return `import React, { Component } from 'react';${stylesImport}
+
+${propsInterface}
+
+class ${args.name} extends Component${args.props ? `<${args.name}Props>` : ''} {
+    render() {
+        return (
+            <div${rootAttributes}>
+                {/* Add your component content here */}
+            </div>
+        );
+    }
+}
+
+export default ${args.name};
+`;
+    }
+}
+
+function generateComponentDocumentation(args: GenerateComponentArgs): string {
+    return `# ${args.name} Component
+
+## Overview
+${args.type === 'functional' ? 'A functional React component' : 'A class-based React component'}
+
+## Props
+${args.props
+                ? Object.entries(args.props)
+                    .map(([key, type]) => `- \`${key}\`: ${type}`)
+                    .join('\n')
+                : 'This component does not accept any props.'}
+
+## Usage
+\`\`\`tsx
+import ${args.name} from './${args.name}';
+
+${args.props
+                ? `// Example usage with props
+<${args.name} ${Object.entries(args.props)
+                .map(([key, type]) => `${propName(key)}={${getExampleValue(type)}}`)
+                .join(' ')} />`
+                : `// Example usage
+<${args.name} />`}
+\`\`\`
+`;
+}
+
+export const componentTools: ToolPlugin = {
+    name: 'components',
+    tools: (host): ToolDefinition[] => [
+        {
+            name: 'generate_component',
+            description: 'Generate a new React component with TypeScript support',
+            annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    name: {
+                        type: 'string',
+                        description: 'Component name',
+                    },
+                    path: {
+                        type: 'string',
+                        description: 'Component directory path',
+                    },
+                    type: {
+                        type: 'string',
+                        enum: ['functional', 'class'],
+                        description: 'Component type',
+                    },
+                    props: {
+                        type: 'object',
+                        description: 'Component props with types',
+                        additionalProperties: { type: 'string' },
+                    },
+                    template: {
+                        type: 'string',
+                        description: 'Component template name from list_templates; replaces the built-in functional/class output',
+                    },
+                    variables: TEMPLATE_VARIABLES_PROPERTY,
+                    withTest: {
+                        type: 'boolean',
+                        description: 'Also write a React Testing Library test, using the project\'s Jest or Vitest setup',
+                        default: false,
+                    },
+                    withStory: {
+                        type: 'boolean',
+                        description: 'Also write a Storybook CSF3 story with args derived from the props',
+                        default: false,
+                    },
+                    withStyles: {
+                        type: 'boolean',
+                        description: 'Also write a CSS module and use it for the root element',
+                        default: false,
+                    },
+                    withIndex: {
+                        type: 'boolean',
+                        description: 'Also write a barrel index.ts re-exporting the component',
+                        default: false,
+                    },
+                    dryRun: DRY_RUN_PROPERTY,
+                    overwrite: OVERWRITE_PROPERTY,
+                },
+                required: ['name', 'path'],
+            },
+            handler: (args, { operation }) => handleGenerateComponent(host, args as GenerateComponentArgs, operation),
+        },
+    ],
+};
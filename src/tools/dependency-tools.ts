@@ -0,0 +1,333 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { AUDIT_CHECKS, AuditCheck, auditDependencies } from '../dependency-audit.js';
+import {
+    applyDeclaredChanges,
+    DeclaredChange,
+    DEPENDENCY_FIELDS,
+    DEPENDENCY_OPERATIONS,
+    DependencyField,
+    DependencyOperation,
+    diffDependencies,
+    planDependencyOperation,
+    snapshotDependencies,
+} from '../dependency-operations.js';
+import { readExisting } from '../file-changes.js';
+import { formatPackageJson, parsePackageJson } from '../package-json.js';
+import {
+    detectPackageManager,
+    installCommand,
+    LOCKFILE_NAMES,
+    PACKAGE_MANAGERS,
+    PackageManagerName,
+} from '../package-manager.js';
+import { formatCommand, runProcessChecked, validatePackageSpecifier } from '../process.js';
+import { ToolContext, ToolDefinition, ToolHost, ToolPlugin } from '../tool-registry.js';
+import {
+    DRY_RUN_PROPERTY,
+    INSTALL_MAX_BUFFER,
+    INSTALL_TIMEOUT_MS,
+    resolveWorkspaceTarget,
+    validatePath,
+    WORKSPACE_PROPERTY,
+} from './shared.js';
+
+interface InstallPackageArgs extends Record<string, unknown> {
+    packages: string[];
+    path: string;
+    workspace?: string;
+    dev?: boolean;
+    packageManager?: PackageManagerName;
+    dryRun?: boolean;
+}
+
+interface ManageDependenciesArgs extends Record<string, unknown> {
+    operation: DependencyOperation;
+    packages: string[];
+    path: string;
+    workspace?: string;
+    field?: DependencyField;
+    packageManager?: PackageManagerName;
+    dryRun?: boolean;
+}
+
+interface AuditDependenciesArgs extends Record<string, unknown> {
+    path: string;
+    workspace?: string;
+    checks?: AuditCheck[];
+    includeDev?: boolean;
+}
+
+async function handleInstallPackages(host: ToolHost, args: InstallPackageArgs, context: ToolContext) {
+    // Installing needs an existing project, so nothing is created here
+    const projectPath = await validatePath(host.workspace, await resolveWorkspaceTarget(host.workspace, args), false);
+    if (args.packages.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, 'Specify at least one package');
+    }
+    args.packages.forEach(validatePackageSpecifier);
+    if (await readExisting(path.join(projectPath, 'package.json')) === null) {
+        throw new McpError(ErrorCode.InvalidParams, `No package.json found in ${projectPath}`);
+    }
+
+    try {
+        const packageManager = await detectPackageManager(projectPath, args.packageManager, host.workspace.rootOf(projectPath));
+        const install = installCommand(packageManager.name, args.packages, { dev: args.dev });
+
+        if (args.dryRun) {
+            return {
+                content: [
+                    {
+                        type: 'text',
+                        text: `Dry run: would run ${formatCommand(install.command, install.args)} in ${projectPath}`,
+                    },
+                ],
+            };
+        }
+
+        // Installs rewrite package.json and the lockfile; keep their prior contents for undo
+        for (const fileName of ['package.json', ...LOCKFILE_NAMES]) {
+            await context.operation.snapshot(path.join(projectPath, fileName));
+        }
+
+        const { stdout, stderr } = await runProcessChecked(install.command, install.args, {
+            cwd: projectPath,
+            timeout: INSTALL_TIMEOUT_MS,
+            maxBuffer: INSTALL_MAX_BUFFER,
+            signal: context.signal,
+            recorder: context.operation,
+        });
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: `Packages installed successfully (${formatCommand(install.command, install.args)}):\n${stdout}\n${stderr}`,
+                },
+            ],
+        };
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to install packages: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+async function handleManageDependencies(host: ToolHost, args: ManageDependenciesArgs, context: ToolContext) {
+    const projectPath = await validatePath(host.workspace, await resolveWorkspaceTarget(host.workspace, args), !args.dryRun);
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    const original = await readExisting(packageJsonPath);
+    if (original === null) {
+        throw new McpError(ErrorCode.InvalidParams, `No package.json found in ${projectPath}`);
+    }
+    const packageJson = parsePackageJson(original, packageJsonPath);
+    const boundary = host.workspace.rootOf(projectPath);
+    const packageManager = await detectPackageManager(projectPath, args.packageManager, boundary);
+    const plan = await planDependencyOperation(
+        args.operation,
+        projectPath,
+        packageJson,
+        packageManager.name,
+        args.packages ?? [],
+        { field: args.field, boundary }
+    );
+
+    const describeEdit = (edit: DeclaredChange) => edit.after === undefined
+        ? `remove ${edit.name} from ${edit.field}`
+        : `set ${edit.name} to ${edit.after} in ${edit.field}`;
+    const steps = [
+        ...plan.edits.map(describeEdit),
+        ...plan.commands.map(command => `run ${formatCommand(command.command, command.args)}`),
+    ];
+    if (args.dryRun) {
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: `Dry run: would ${steps.join(', then ')} in ${projectPath}`,
+                },
+            ],
+        };
+    }
+
+    try {
+        const before = await snapshotDependencies(projectPath, packageJson, boundary);
+        // Operations rewrite package.json and the lockfile, which may be a workspace root's
+        for (const fileName of ['package.json', ...LOCKFILE_NAMES]) {
+            await context.operation.snapshot(path.join(projectPath, fileName));
+        }
+        if (before.lockfile) {
+            await context.operation.snapshot(before.lockfile);
+        }
+
+        if (plan.edits.length > 0) {
+            applyDeclaredChanges(packageJson, plan.edits);
+            await fs.writeFile(packageJsonPath, formatPackageJson(packageJson, original), 'utf-8');
+        }
+        for (const command of plan.commands) {
+            await runProcessChecked(command.command, command.args, {
+                cwd: projectPath,
+                timeout: INSTALL_TIMEOUT_MS,
+                maxBuffer: INSTALL_MAX_BUFFER,
+                signal: context.signal,
+                recorder: context.operation,
+            });
+        }
+
+        const updated = parsePackageJson(await fs.readFile(packageJsonPath, 'utf-8'), packageJsonPath);
+        const after = await snapshotDependencies(projectPath, updated, boundary);
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify({
+                        operation: args.operation,
+                        packageManager: packageManager.name,
+                        commands: plan.commands.map(command => formatCommand(command.command, command.args)),
+                        ...diffDependencies(before, after),
+                    }, null, 2),
+                },
+            ],
+        };
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to ${args.operation} packages: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+async function handleAuditDependencies(host: ToolHost, args: AuditDependenciesArgs) {
+    const projectPath = await validatePath(host.workspace, await resolveWorkspaceTarget(host.workspace, args), false);
+
+    try {
+        const audit = await auditDependencies(projectPath, { registry: host.config.registry, advisories: host.config.advisories }, {
+            checks: args.checks,
+            includeDev: args.includeDev,
+            boundary: host.workspace.rootOf(projectPath),
+        });
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(audit, null, 2),
+                },
+            ],
+        };
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new McpError(ErrorCode.InvalidParams, `No package.json found in ${projectPath}`);
+        }
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to audit dependencies: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+export const dependencyTools: ToolPlugin = {
+    name: 'dependencies',
+    tools: (host): ToolDefinition[] => [
+        {
+            name: 'install_packages',
+            description: 'Install packages with npm, pnpm, yarn or bun',
+            annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: true },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    packages: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Package names to install',
+                    },
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    workspace: WORKSPACE_PROPERTY,
+                    dev: {
+                        type: 'boolean',
+                        description: 'Install as dev dependency',
+                        default: false,
+                    },
+                    packageManager: {
+                        type: 'string',
+                        enum: PACKAGE_MANAGERS,
+                        description: 'Package manager to use; detected from lockfiles / packageManager field when omitted',
+                    },
+                    dryRun: DRY_RUN_PROPERTY,
+                },
+                required: ['packages', 'path'],
+            },
+            handler: (args, context) => handleInstallPackages(host, args as InstallPackageArgs, context),
+        },
+        {
+            name: 'manage_dependencies',
+            description: 'Uninstall, upgrade, pin, move or add dependencies and report what changed in package.json and the lockfile',
+            annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    operation: {
+                        type: 'string',
+                        enum: DEPENDENCY_OPERATIONS,
+                        description: 'uninstall; upgrade to name@range or latest; pin the installed (or given) version exactly; move between dependencies and devDependencies; add to a field',
+                    },
+                    packages: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Package names; upgrade, pin and add also accept name@version',
+                    },
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    workspace: WORKSPACE_PROPERTY,
+                    field: {
+                        type: 'string',
+                        enum: DEPENDENCY_FIELDS,
+                        description: 'Target field for add (e.g. peerDependencies) and move',
+                    },
+                    packageManager: {
+                        type: 'string',
+                        enum: PACKAGE_MANAGERS,
+                        description: 'Package manager to use; detected from lockfiles / packageManager field when omitted',
+                    },
+                    dryRun: DRY_RUN_PROPERTY,
+                },
+                required: ['operation', 'packages', 'path'],
+            },
+            handler: (args, context) => handleManageDependencies(host, args as ManageDependenciesArgs, context),
+        },
+        {
+            name: 'audit_dependencies',
+            description: 'Check dependency health from package.json and the lockfile: outdated packages (current, wanted, latest), packages installed in several versions, unmet peer dependencies and known vulnerabilities, as JSON',
+            annotations: { readOnlyHint: true, openWorldHint: true },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    workspace: WORKSPACE_PROPERTY,
+                    checks: {
+                        type: 'array',
+                        items: { type: 'string', enum: AUDIT_CHECKS },
+                        description: 'Checks to run (default: all)',
+                    },
+                    includeDev: {
+                        type: 'boolean',
+                        description: 'Include devDependencies',
+                        default: true,
+                    },
+                },
+                required: ['path'],
+            },
+            handler: (args) => handleAuditDependencies(host, args as AuditDependenciesArgs),
+        },
+    ],
+};
@@ -0,0 +1,210 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { buildOpenApiDocument, renderApiDocumentation, scanApiRoutes } from '../api-docs.js';
+import { analyzeComponent, findComponentFile, renderComponentDoc } from '../component-docs.js';
+import { applyFileChanges, formatFileChangeResults, planFileChange } from '../file-changes.js';
+import { JournalOperation } from '../journal.js';
+import { detectPackageManager } from '../package-manager.js';
+import { ToolDefinition, ToolHost, ToolPlugin } from '../tool-registry.js';
+import { DRY_RUN_PROPERTY, FileWriteArgs, OVERWRITE_PROPERTY, resolveFilePath, validatePath } from './shared.js';
+
+interface CreateDocumentationArgs extends FileWriteArgs {
+    path: string;
+    type: 'readme' | 'api' | 'component';
+    name?: string;
+    openapi?: boolean;
+}
+
+async function handleCreateDocumentation(host: ToolHost, args: CreateDocumentationArgs, operation: JournalOperation) {
+    const projectPath = await validatePath(host.workspace, args.path, !args.dryRun);
+
+    try {
+        let content = '';
+        let fileName = '';
+        const extraFiles: { fileName: string; content: string }[] = [];
+
+        switch (args.type) {
+            case 'readme':
+                content = await generateProjectDocumentation(projectPath, host.workspace.rootOf(projectPath));
+                fileName = 'README.md';
+                break;
+            case 'api': {
+                const api = await generateApiDocumentation(projectPath, args.openapi);
+                content = api.markdown;
+                fileName = 'API.md';
+                if (api.openApi) {
+                    extraFiles.push({ fileName: 'openapi.json', content: api.openApi });
+                }
+                break;
+            }
+            case 'component':
+                if (!args.name) {
+                    throw new McpError(ErrorCode.InvalidParams, 'Component name is required for component documentation');
+                }
+                content = await generateComponentDoc(projectPath, args.name);
+                fileName = `${args.name}.md`;
+                break;
+        }
+
+        const docPath = await resolveFilePath(host.workspace, projectPath, fileName);
+        const changes = [await planFileChange(docPath, content)];
+        for (const extra of extraFiles) {
+            changes.push(await planFileChange(await resolveFilePath(host.workspace, projectPath, extra.fileName), extra.content));
+        }
+        const results = await applyFileChanges(changes, { ...args, recorder: operation });
+
+        // Index for resource access
+        if (!args.dryRun && results[0].outcome !== 'skipped') {
+            await host.recordDoc({
+                project: projectPath,
+                type: args.type,
+                name: args.type === 'component' ? args.name! : path.basename(fileName, '.md'),
+            }, docPath);
+        }
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: `${args.dryRun ? 'Dry run for documentation: no files were written' : `Documentation created successfully at ${docPath}`}
+${formatFileChangeResults(results, args.dryRun)}`,
+                },
+            ],
+        };
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to create documentation: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+async function generateProjectDocumentation(projectPath: string, boundary?: string): Promise<string> {
+    const packageJson = JSON.parse(
+        await fs.readFile(path.join(projectPath, 'package.json'), 'utf-8')
+    );
+    const packageManager = (await detectPackageManager(projectPath, undefined, boundary)).name;
+
+    return `# ${packageJson.name}
+
+## Description
+${packageJson.description || 'A Node.js project'}
+
+## Installation
+\`\`\`bash
+${packageManager} install
+\`\`\`
+
+## Scripts
+${Object.entries(packageJson.scripts || {})
+                .map(([name, command]) => `- \`${packageManager} run ${name}\`: ${command}`)
+                .join('\n')}
+
+## Dependencies
+${Object.entries(packageJson.dependencies || {})
+                .map(([name, version]) => `- \`${name}\`: ${version}`)
+                .join('\n')}
+
+## Dev Dependencies
+${Object.entries(packageJson.devDependencies || {})
+                .map(([name, version]) => `- \`${name}\`: ${version}`)
+                .join('\n')}
+`;
+}
+
+async function generateApiDocumentation(
+    projectPath: string,
+    includeOpenApi?: boolean
+): Promise<{ markdown: string; openApi?: string }> {
+    const routes = await scanApiRoutes(projectPath);
+
+    let packageJson: { name?: string; version?: string } = {};
+    try {
+        packageJson = JSON.parse(await fs.readFile(path.join(projectPath, 'package.json'), 'utf-8'));
+    } catch {
+        // Fall back to the directory name
+    }
+    const title = packageJson.name ?? path.basename(projectPath);
+
+    const markdown = renderApiDocumentation(routes, {
+        title,
+        openApiFile: includeOpenApi ? 'openapi.json' : undefined,
+    });
+    if (!includeOpenApi) {
+        return { markdown };
+    }
+
+    const document = buildOpenApiDocument(routes, { title, version: packageJson.version ?? '0.0.0' });
+    return { markdown, openApi: `${JSON.stringify(document, null, 2)}\n` };
+}
+
+async function generateComponentDoc(projectPath: string, componentName: string): Promise<string> {
+    try {
+        const componentPath = await findComponentFile(projectPath, componentName);
+        if (!componentPath) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Component ${componentName} not found in ${projectPath}`
+            );
+        }
+
+        const doc = await analyzeComponent(componentPath, componentName);
+        if (!doc) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Component ${componentName} is not declared in ${componentPath}`
+            );
+        }
+
+        const relativePath = path.relative(projectPath, componentPath)
+            .split(path.sep)
+            .join('/')
+            .replace(/(\/index)?\.(tsx|jsx|ts|js)$/, '');
+        return renderComponentDoc(doc, `./${relativePath}`);
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to generate component documentation: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+export const documentationTools: ToolPlugin = {
+    name: 'documentation',
+    tools: (host): ToolDefinition[] => [
+        {
+            name: 'create_documentation',
+            description: 'Generate project documentation',
+            annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    type: {
+                        type: 'string',
+                        enum: ['readme', 'api', 'component'],
+                        description: 'Documentation type',
+                    },
+                    name: {
+                        type: 'string',
+                        description: 'Component or API name for specific documentation',
+                    },
+                    openapi: {
+                        type: 'boolean',
+                        description: 'For api documentation, also write an OpenAPI 3.1 openapi.json next to API.md',
+                    },
+                    dryRun: DRY_RUN_PROPERTY,
+                    overwrite: OVERWRITE_PROPERTY,
+                },
+                required: ['path', 'type'],
+            },
+            handler: (args, { operation }) => handleCreateDocumentation(host, args as CreateDocumentationArgs, operation),
+        },
+    ],
+};
@@ -0,0 +1,29 @@
+import { ToolPlugin } from '../tool-registry.js';
+import { changeTools } from './change-tools.js';
+import { componentTools } from './component-tools.js';
+import { dependencyTools } from './dependency-tools.js';
+import { documentationTools } from './documentation-tools.js';
+import { monorepoTools } from './monorepo-tools.js';
+import { packageJsonTools } from './package-json-tools.js';
+import { projectTools } from './project-tools.js';
+import { scriptTools } from './script-tools.js';
+import { testTools } from './test-tools.js';
+import { tsconfigTools } from './tsconfig-tools.js';
+import { typeTools } from './type-tools.js';
+
+/**
+ * The built-in tools, in the order they are listed to clients
+ */
+export const BUILTIN_PLUGINS: ToolPlugin[] = [
+    projectTools,
+    dependencyTools,
+    scriptTools,
+    testTools,
+    monorepoTools,
+    componentTools,
+    typeTools,
+    packageJsonTools,
+    tsconfigTools,
+    documentationTools,
+    changeTools,
+];
@@ -0,0 +1,183 @@
+import * as path from 'path';
+import { findWorkspacePackage, withDependents } from '../monorepo.js';
+import { runScriptCommand } from '../package-manager.js';
+import { describeExit, formatCommand, runProcess } from '../process.js';
+import { ToolContext, ToolDefinition, ToolHost, ToolPlugin } from '../tool-registry.js';
+import { DEFAULT_MAX_OUTPUT_LENGTH, DEFAULT_SCRIPT_TIMEOUT_MS, discoverMonorepo, findAffected } from './shared.js';
+
+interface ListWorkspacesArgs extends Record<string, unknown> {
+    path: string;
+    since?: string;
+}
+
+interface RunWorkspaceScriptArgs extends Record<string, unknown> {
+    path: string;
+    script: string;
+    workspaces?: string[];
+    since?: string;
+    args?: string[];
+    env?: Record<string, string>;
+    timeout?: number;
+    maxOutputLength?: number;
+    continueOnError?: boolean;
+}
+
+async function handleListWorkspaces(host: ToolHost, args: ListWorkspacesArgs, context: ToolContext) {
+    const graph = await discoverMonorepo(host.workspace, args.path);
+    const affected = args.since === undefined ? undefined : await findAffected(graph, args.since, context.operation, context.signal);
+    return {
+        content: [
+            {
+                type: 'text',
+                text: JSON.stringify({ ...graph, affected }, null, 2),
+            },
+        ],
+    };
+}
+
+async function handleRunWorkspaceScript(host: ToolHost, args: RunWorkspaceScriptArgs, context: ToolContext) {
+    const graph = await discoverMonorepo(host.workspace, args.path);
+    const selected = new Set((args.workspaces ?? graph.order).map(name => findWorkspacePackage(graph, name).name));
+    if (args.since !== undefined) {
+        const { affected } = await findAffected(graph, args.since, context.operation, context.signal);
+        for (const name of selected) {
+            if (!affected.includes(name)) {
+                selected.delete(name);
+            }
+        }
+    }
+    const packages = graph.order.filter(name => selected.has(name)).map(name => findWorkspacePackage(graph, name));
+    const runnable = packages.filter(pkg => pkg.scripts.includes(args.script));
+    const withoutScript = packages.filter(pkg => !pkg.scripts.includes(args.script)).map(pkg => pkg.name);
+
+    const timeout = args.timeout ?? DEFAULT_SCRIPT_TIMEOUT_MS;
+    const maxOutputLength = args.maxOutputLength ?? DEFAULT_MAX_OUTPUT_LENGTH;
+    const run = runScriptCommand(graph.packageManager, args.script, args.args);
+    const lines: string[] = [];
+    const failures: string[] = [];
+    // Failed workspaces and everything depending on them
+    const blocked = new Set<string>();
+    const reportProgress = (done: number) => context.reportProgress(done, runnable.length);
+
+    for (const [index, pkg] of runnable.entries()) {
+        if (blocked.has(pkg.name) || (failures.length > 0 && !args.continueOnError) || context.signal.aborted) {
+            lines.push(`- ${pkg.name}: skipped${blocked.has(pkg.name) ? ', depends on a failed workspace' : ''}`);
+            reportProgress(index + 1);
+            continue;
+        }
+        const result = await runProcess(run.command, run.args, {
+            cwd: path.join(graph.root, pkg.path),
+            env: { ...process.env, ...args.env },
+            timeout,
+            maxBuffer: maxOutputLength,
+            signal: context.signal,
+            recorder: context.operation,
+        });
+        lines.push(`- ${pkg.name}: ${describeExit(result, timeout)} in ${result.durationMs}ms`);
+        if (result.exitCode !== 0) {
+            withDependents(graph, [pkg.name]).forEach(name => blocked.add(name));
+            failures.push(`${pkg.name} ${describeExit(result, timeout)}
+
+stdout${result.stdoutTruncated ? ' (truncated)' : ''}:
+${result.stdout}
+
+stderr${result.stderrTruncated ? ' (truncated)' : ''}:
+${result.stderr}`);
+        }
+        reportProgress(index + 1);
+    }
+
+    const scope = args.since !== undefined ? ` affected since ${args.since}` : '';
+    return {
+        content: [
+            {
+                type: 'text',
+                text: `Script '${args.script}' in ${runnable.length} workspace(s)${scope}, dependencies first, with ${formatCommand(run.command, run.args)}: ${failures.length} failed
+${lines.join('\n')}${withoutScript.length > 0 ? `\nWithout a '${args.script}' script: ${withoutScript.join(', ')}` : ''}${failures.map(failure => `\n\n${failure}`).join('')}`,
+            },
+        ],
+        isError: failures.length > 0,
+    };
+}
+
+export const monorepoTools: ToolPlugin = {
+    name: 'monorepo',
+    tools: (host): ToolDefinition[] => [
+        {
+            name: 'list_workspaces',
+            description: 'Discover the npm, yarn, pnpm, Nx or Turborepo workspaces of the monorepo containing a directory: packages, their dependencies on each other and a topological order, as JSON',
+            annotations: { readOnlyHint: true, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'Monorepo root or any directory inside it',
+                    },
+                    since: {
+                        type: 'string',
+                        description: 'Git revision; also list the workspaces affected by changes since it',
+                    },
+                },
+                required: ['path'],
+            },
+            handler: (args, context) => handleListWorkspaces(host, args as ListWorkspacesArgs, context),
+        },
+        {
+            name: 'run_workspace_script',
+            description: 'Run a package.json script in every, selected or affected workspace of a monorepo, dependencies first',
+            annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'Monorepo root or any directory inside it',
+                    },
+                    script: {
+                        type: 'string',
+                        description: 'Script name; workspaces without it are skipped',
+                    },
+                    workspaces: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Package names to run in (default: all)',
+                    },
+                    since: {
+                        type: 'string',
+                        description: 'Git revision; only run in workspaces affected by changes since it',
+                    },
+                    args: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Extra arguments passed to the script after --',
+                    },
+                    env: {
+                        type: 'object',
+                        description: 'Environment variable overrides',
+                        additionalProperties: { type: 'string' },
+                    },
+                    timeout: {
+                        type: 'number',
+                        description: 'Timeout in milliseconds for each workspace',
+                        minimum: 1,
+                        default: DEFAULT_SCRIPT_TIMEOUT_MS,
+                    },
+                    maxOutputLength: {
+                        type: 'number',
+                        description: 'Maximum characters of stdout/stderr to return per failed workspace (the tail is kept)',
+                        minimum: 1,
+                        default: DEFAULT_MAX_OUTPUT_LENGTH,
+                    },
+                    continueOnError: {
+                        type: 'boolean',
+                        description: 'Keep running workspaces that do not depend on a failed one',
+                        default: false,
+                    },
+                },
+                required: ['path', 'script'],
+            },
+            handler: (args, context) => handleRunWorkspaceScript(host, args as RunWorkspaceScriptArgs, context),
+        },
+    ],
+};
@@ -0,0 +1,210 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+    applyFileChanges,
+    FileChange,
+    formatFileChangeResults,
+    planFileChange,
+    readExisting,
+} from '../file-changes.js';
+import { JournalOperation } from '../journal.js';
+import {
+    applyPackageJsonEdits,
+    formatPackageJson,
+    parsePackageJson,
+    ScriptEdits,
+    validatePackageJson,
+} from '../package-json.js';
+import { ToolDefinition, ToolHost, ToolPlugin } from '../tool-registry.js';
+import {
+    DRY_RUN_PROPERTY,
+    FileWriteArgs,
+    OVERWRITE_PROPERTY,
+    resolveWorkspaceTarget,
+    validatePath,
+    WORKSPACE_PROPERTY,
+} from './shared.js';
+
+interface AddScriptArgs extends FileWriteArgs {
+    path: string;
+    workspace?: string;
+    name: string;
+    command: string;
+}
+
+interface ManagePackageJsonArgs extends FileWriteArgs {
+    path: string;
+    workspace?: string;
+    scripts?: ScriptEdits;
+    fields?: Record<string, unknown>;
+}
+
+async function handleAddScript(host: ToolHost, args: AddScriptArgs, operation: JournalOperation) {
+    const projectPath = await validatePath(host.workspace, await resolveWorkspaceTarget(host.workspace, args), !args.dryRun);
+
+    try {
+        const packageJsonPath = path.join(projectPath, 'package.json');
+        const original = await fs.readFile(packageJsonPath, 'utf-8');
+        const packageJson = parsePackageJson(original, packageJsonPath);
+        const scripts = (packageJson.scripts ?? {}) as Record<string, string>;
+
+        // Replacing a different command under the same name is what the overwrite policy guards
+        const existing = Object.hasOwn(scripts, args.name) ? scripts[args.name] : undefined;
+        packageJson.scripts = { ...scripts, [args.name]: args.command };
+
+        const change: FileChange = {
+            path: packageJsonPath,
+            before: original,
+            after: formatPackageJson(packageJson, original),
+            conflict: existing !== undefined && existing !== args.command,
+        };
+        const results = await applyFileChanges([change], { ...args, recorder: operation });
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: `${args.dryRun ? `Dry run for script '${args.name}': no files were written` : `Added script '${args.name}': ${args.command}`}
+${formatFileChangeResults(results, args.dryRun)}`,
+                },
+            ],
+        };
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to add script: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+async function handleManagePackageJson(host: ToolHost, args: ManagePackageJsonArgs, operation: JournalOperation) {
+    if (!args.scripts && !args.fields) {
+        throw new McpError(ErrorCode.InvalidParams, 'Specify scripts or fields to edit');
+    }
+    const projectPath = await validatePath(host.workspace, await resolveWorkspaceTarget(host.workspace, args), !args.dryRun);
+    const packageJsonPath = path.join(projectPath, 'package.json');
+
+    try {
+        const original = await readExisting(packageJsonPath);
+        if (original === null) {
+            throw new McpError(ErrorCode.InvalidParams, `No package.json found in ${projectPath}`);
+        }
+        const packageJson = parsePackageJson(original, packageJsonPath);
+
+        // Only problems introduced by this edit block it
+        const existingProblems = validatePackageJson(packageJson);
+        const summary = applyPackageJsonEdits(packageJson, args);
+        const problems = validatePackageJson(packageJson);
+        const introduced = problems.filter(problem => !existingProblems.includes(problem));
+        if (introduced.length > 0) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `The edit would make package.json invalid:\n- ${introduced.join('\n- ')}`
+            );
+        }
+
+        // Every edit names what it replaces, so none is treated as an accidental overwrite
+        const results = await applyFileChanges(
+            [await planFileChange(packageJsonPath, formatPackageJson(packageJson, original), false)],
+            { ...args, recorder: operation }
+        );
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: `${args.dryRun ? 'Dry run for package.json: no files were written' : `Updated ${packageJsonPath}`}
+${summary.map(line => `- ${line}`).join('\n')}${problems.length > 0 ? `\n\nExisting problems left unchanged:\n- ${problems.join('\n- ')}` : ''}
+
+${formatFileChangeResults(results, args.dryRun)}`,
+                },
+            ],
+        };
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to update package.json: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+export const packageJsonTools: ToolPlugin = {
+    name: 'package-json',
+    tools: (host): ToolDefinition[] => [
+        {
+            name: 'add_script',
+            description: 'Add a new npm script to package.json',
+            annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    workspace: WORKSPACE_PROPERTY,
+                    name: {
+                        type: 'string',
+                        description: 'Script name',
+                    },
+                    command: {
+                        type: 'string',
+                        description: 'Script command',
+                    },
+                    dryRun: DRY_RUN_PROPERTY,
+                    overwrite: OVERWRITE_PROPERTY,
+                },
+                required: ['path', 'name', 'command'],
+            },
+            handler: (args, { operation }) => handleAddScript(host, args as AddScriptArgs, operation),
+        },
+        {
+            name: 'manage_package_json',
+            description: 'Edit package.json: add, remove and rename scripts, and set or remove fields such as engines, exports, type, bin, files, workspaces and metadata. The result is validated, and the file keeps its indentation and key order',
+            annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    workspace: WORKSPACE_PROPERTY,
+                    scripts: {
+                        type: 'object',
+                        description: 'Script edits, applied in the order rename, remove, set',
+                        properties: {
+                            rename: {
+                                type: 'object',
+                                description: 'Old name to new name; the script keeps its position',
+                                additionalProperties: { type: 'string' },
+                            },
+                            remove: {
+                                type: 'array',
+                                items: { type: 'string' },
+                                description: 'Scripts to remove',
+                            },
+                            set: {
+                                type: 'object',
+                                description: 'Scripts to add or change, by name',
+                                additionalProperties: { type: 'string' },
+                            },
+                        },
+                    },
+                    fields: {
+                        type: 'object',
+                        description: 'Top-level fields to set, e.g. {"type": "module", "engines": {"node": ">=20"}}; a value replaces the whole field and null removes it. Dependencies and scripts cannot be edited here',
+                        additionalProperties: true,
+                    },
+                    dryRun: DRY_RUN_PROPERTY,
+                    overwrite: OVERWRITE_PROPERTY,
+                },
+                required: ['path'],
+            },
+            handler: (args, { operation }) => handleManagePackageJson(host, args as ManagePackageJsonArgs, operation),
+        },
+    ],
+};
@@ -0,0 +1,344 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as path from 'path';
+import { applyFileChanges, assertNoConflicts, formatFileChangeResults, planFileChange } from '../file-changes.js';
+import {
+    CommandSpec,
+    detectPackageManager,
+    installAllCommand,
+    LOCKFILE_NAMES,
+    PACKAGE_MANAGERS,
+    PackageManagerName,
+} from '../package-manager.js';
+import { formatCommand, runProcessChecked } from '../process.js';
+import { analyzeProject, PROJECT_TYPES, ProjectType } from '../project-analysis.js';
+import { resolveTemplateVariables } from '../template-registry.js';
+import { renderProjectTemplate, supportsLanguage, TemplateFile } from '../templates.js';
+import { ToolContext, ToolDefinition, ToolHost, ToolPlugin } from '../tool-registry.js';
+import {
+    createDirectory,
+    DRY_RUN_PROPERTY,
+    FileWriteArgs,
+    INSTALL_MAX_BUFFER,
+    INSTALL_TIMEOUT_MS,
+    OVERWRITE_PROPERTY,
+    resolveFilePath,
+    resolveWorkspaceTarget,
+    TEMPLATE_VARIABLES_PROPERTY,
+    validatePath,
+    WORKSPACE_PROPERTY,
+} from './shared.js';
+
+interface CreateProjectArgs extends FileWriteArgs {
+    name: string;
+    type?: ProjectType;
+    path: string;
+    typescript?: boolean;
+    packageManager?: PackageManagerName;
+    skipInstall?: boolean;
+    template?: string;
+    variables?: Record<string, string>;
+}
+
+interface AnalyzeProjectArgs extends Record<string, unknown> {
+    path: string;
+    workspace?: string;
+}
+
+interface ListTemplatesArgs extends Record<string, unknown> {
+    kind?: 'project' | 'component';
+}
+
+/**
+ * Picks the named template, or the built-in one for the project type
+ * @throws McpError (InvalidParams) when neither is given or they disagree
+ */
+async function resolveProjectTemplate(host: ToolHost, args: CreateProjectArgs) {
+    if (!args.template && !args.type) {
+        throw new McpError(ErrorCode.InvalidParams, 'Specify a project type or a template');
+    }
+    const template = args.template
+        ? await host.templates.get(args.template, 'project')
+        : host.templates.getDefaultProjectTemplate(args.type!);
+    if (args.type && template.project!.type !== args.type) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Template ${template.name} creates ${template.project!.type} projects, not ${args.type}`
+        );
+    }
+    return template;
+}
+
+async function handleCreateProject(host: ToolHost, args: CreateProjectArgs, context: ToolContext) {
+    const projectPath = await validatePath(host.workspace, path.join(args.path, args.name), false);
+    const packageManager = (await detectPackageManager(projectPath, args.packageManager, host.workspace.rootOf(projectPath))).name;
+    const loaded = await resolveProjectTemplate(host, args);
+    const template = loaded.project!;
+    const typescript = args.typescript ?? supportsLanguage(template, true);
+
+    // Files are rendered locally; only the install step needs the registry
+    const commands: CommandSpec[] = args.skipInstall ? [] : [installAllCommand(packageManager)];
+
+    let files: TemplateFile[];
+    try {
+        files = renderProjectTemplate(template, {
+            typescript,
+            variables: resolveTemplateVariables(loaded, {
+                name: args.name,
+                // Names may hold quotes or backslashes; string literals in code use this instead
+                nameLiteral: JSON.stringify(args.name),
+                packageManager,
+            }, args.variables),
+        });
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Cannot render template ${template.name}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+    if (!files.some(file => file.path === 'README.md')) {
+        files.push({ path: 'README.md', content: generateReadme(args.name, template.type, typescript, packageManager) });
+    }
+
+    const plannedChanges = await Promise.all(files.map(async file =>
+        planFileChange(await resolveFilePath(host.workspace, projectPath, file.path), file.content)
+    ));
+
+    if (args.dryRun) {
+        const results = await applyFileChanges(plannedChanges, { dryRun: true, overwrite: args.overwrite });
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: `Dry run for project ${args.name} (template ${template.name}): no commands were run and no files were written.
+
+Commands (in ${projectPath}):
+${commands.length > 0 ? commands.map(command => `- ${formatCommand(command.command, command.args)}`).join('\n') : '- none (skipInstall)'}
+
+Files:
+${formatFileChangeResults(results, true)}`,
+                },
+            ],
+        };
+    }
+
+    assertNoConflicts(plannedChanges, args.overwrite);
+
+    try {
+        // A new project directory is undone by removing it; in an existing one, snapshot
+        // the lockfiles the install is known to touch
+        if (!(await createDirectory(projectPath, context.operation))) {
+            for (const fileName of LOCKFILE_NAMES) {
+                await context.operation.snapshot(path.join(projectPath, fileName));
+            }
+        }
+
+        const results = await applyFileChanges(plannedChanges, { overwrite: args.overwrite, recorder: context.operation });
+
+        const readme = files.find(file => file.path === 'README.md')!;
+        // Index the README unless the existing one was kept
+        if (results.find(result => result.path.endsWith(`${path.sep}README.md`))?.outcome !== 'skipped') {
+            await host.recordDoc({ project: projectPath, type: 'readme', name: 'README' }, path.join(projectPath, readme.path));
+        }
+
+        for (const command of commands) {
+            await runProcessChecked(command.command, command.args, {
+                cwd: projectPath,
+                timeout: INSTALL_TIMEOUT_MS,
+                maxBuffer: INSTALL_MAX_BUFFER,
+                signal: context.signal,
+                recorder: context.operation,
+            });
+        }
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: `Project ${args.name} created from template ${template.name} with ${typescript ? 'TypeScript' : 'JavaScript'} configuration using ${packageManager}
+${args.skipInstall ? `Dependencies were not installed; run \`${formatCommand(packageManager, ['install'])}\` in ${projectPath}.\n` : ''}${formatFileChangeResults(results)}`,
+                },
+            ],
+        };
+    } catch (error: unknown) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to create project: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+function generateReadme(name: string, type: string, typescript: boolean, packageManager: PackageManagerName): string {
+    return `# ${name}
+
+## Description
+A ${type} project using ${typescript ? 'TypeScript' : 'JavaScript'}.
+
+## Setup
+\`\`\`bash
+${packageManager} install
+\`\`\`
+
+## Development
+\`\`\`bash
+${packageManager} run dev
+\`\`\`
+
+## Build
+\`\`\`bash
+${packageManager} run build
+\`\`\`
+
+## Project Structure
+- \`src/\` - Source files
+${typescript ? '- `dist/` - Compiled output\n' : ''}
+- \`public/\` - Static assets
+- \`package.json\` - Project configuration
+${typescript ? '- `tsconfig.json` - TypeScript configuration\n' : ''}
+
+## Scripts
+- \`${packageManager} run dev\` - Start development server
+- \`${packageManager} run build\` - Build for production
+- \`${packageManager} start\` - Start production server
+`;
+}
+
+async function handleListTemplates(host: ToolHost, args: ListTemplatesArgs) {
+    const { templates, invalid } = await host.templates.load();
+    const listing = {
+        directories: host.templates.getDirectories(),
+        templates: templates
+            .filter(template => !args.kind || template.kind === args.kind)
+            .map(template => ({
+                name: template.name,
+                kind: template.kind,
+                description: template.description,
+                type: template.project?.type,
+                languages: template.project
+                    ? (['typescript', 'javascript'] as const).filter(language => template.project![language])
+                    : undefined,
+                variables: template.variables,
+                source: template.source,
+            })),
+        invalid,
+    };
+
+    return {
+        content: [
+            {
+                type: 'text',
+                text: JSON.stringify(listing, null, 2),
+            },
+        ],
+    };
+}
+
+async function handleAnalyzeProject(host: ToolHost, args: AnalyzeProjectArgs) {
+    const projectPath = await validatePath(host.workspace, await resolveWorkspaceTarget(host.workspace, args), false);
+
+    try {
+        const analysis = await analyzeProject(projectPath, host.workspace.rootOf(projectPath));
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify(analysis, null, 2),
+                },
+            ],
+        };
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new McpError(ErrorCode.InvalidParams, `No package.json found in ${projectPath}`);
+        }
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to analyze project: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+export const projectTools: ToolPlugin = {
+    name: 'project',
+    tools: (host): ToolDefinition[] => [
+        {
+            name: 'create_project',
+            description: 'Create a new Node.js project with enhanced configuration',
+            annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: true },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    name: {
+                        type: 'string',
+                        description: 'Project name',
+                    },
+                    type: {
+                        type: 'string',
+                        enum: PROJECT_TYPES,
+                        description: 'Project type',
+                    },
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    typescript: {
+                        type: 'boolean',
+                        description: 'Enable TypeScript support; defaults to true when the template has a TypeScript variant',
+                    },
+                    packageManager: {
+                        type: 'string',
+                        enum: PACKAGE_MANAGERS,
+                        description: 'Package manager to use; detected from parent lockfiles / packageManager field when omitted',
+                    },
+                    skipInstall: {
+                        type: 'boolean',
+                        description: 'Write the project files without installing dependencies',
+                        default: false,
+                    },
+                    template: {
+                        type: 'string',
+                        description: 'Project template name from list_templates; defaults to the built-in template for the type',
+                    },
+                    variables: TEMPLATE_VARIABLES_PROPERTY,
+                    dryRun: DRY_RUN_PROPERTY,
+                    overwrite: OVERWRITE_PROPERTY,
+                },
+                required: ['name', 'path'],
+            },
+            handler: (args, context) => handleCreateProject(host, args as CreateProjectArgs, context),
+        },
+        {
+            name: 'list_templates',
+            description: 'List built-in and user-defined project and component templates, with their variables and any manifest errors',
+            annotations: { readOnlyHint: true, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    kind: {
+                        type: 'string',
+                        enum: ['project', 'component'],
+                        description: 'Only list templates of this kind',
+                    },
+                },
+            },
+            handler: (args) => handleListTemplates(host, args as ListTemplatesArgs),
+        },
+        {
+            name: 'analyze_project',
+            description: 'Inspect a project without modifying it: framework, language, module system, package manager, test runner, linter, scripts, entry points and tsconfig settings, as JSON',
+            annotations: { readOnlyHint: true, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    workspace: WORKSPACE_PROPERTY,
+                },
+                required: ['path'],
+            },
+            handler: (args) => handleAnalyzeProject(host, args as AnalyzeProjectArgs),
+        },
+    ],
+};
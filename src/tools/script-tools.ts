@@ -0,0 +1,136 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { detectPackageManager, PACKAGE_MANAGERS, PackageManagerName, runScriptCommand } from '../package-manager.js';
+import { describeExit, runProcess } from '../process.js';
+import { ToolContext, ToolDefinition, ToolHost, ToolPlugin } from '../tool-registry.js';
+import {
+    DEFAULT_MAX_OUTPUT_LENGTH,
+    DEFAULT_SCRIPT_TIMEOUT_MS,
+    resolveWorkspaceTarget,
+    WORKSPACE_PROPERTY,
+} from './shared.js';
+
+interface RunScriptArgs extends Record<string, unknown> {
+    script: string;
+    path: string;
+    workspace?: string;
+    args?: string[];
+    env?: Record<string, string>;
+    timeout?: number;
+    maxOutputLength?: number;
+    packageManager?: PackageManagerName;
+}
+
+async function handleRunScript(host: ToolHost, args: RunScriptArgs, context: ToolContext) {
+    const projectPath = await host.workspace.resolve(await resolveWorkspaceTarget(host.workspace, args));
+    const packageJsonPath = path.join(projectPath, 'package.json');
+    let scripts: Record<string, string>;
+    try {
+        scripts = JSON.parse(await fs.readFile(packageJsonPath, 'utf-8')).scripts || {};
+    } catch (error) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Cannot read ${packageJsonPath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+
+    if (!Object.hasOwn(scripts, args.script)) {
+        const available = Object.keys(scripts);
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Script '${args.script}' not found in package.json. Available scripts: ${available.length > 0 ? available.join(', ') : 'none'}`
+        );
+    }
+
+    const timeout = args.timeout ?? DEFAULT_SCRIPT_TIMEOUT_MS;
+    const maxOutputLength = args.maxOutputLength ?? DEFAULT_MAX_OUTPUT_LENGTH;
+    const packageManager = await detectPackageManager(projectPath, args.packageManager, host.workspace.rootOf(projectPath));
+    const run = runScriptCommand(packageManager.name, args.script, args.args);
+
+    const result = await runProcess(
+        run.command,
+        run.args,
+        {
+            cwd: projectPath,
+            env: { ...process.env, ...args.env },
+            timeout,
+            maxBuffer: maxOutputLength,
+            signal: context.signal,
+            recorder: context.operation,
+            onProgress: context.progressToken === undefined
+                ? undefined
+                : (elapsedMs) => context.reportProgress(elapsedMs, timeout),
+        }
+    );
+
+    return {
+        content: [
+            {
+                type: 'text',
+                text: `Script '${args.script}' ${describeExit(result, timeout)} in ${result.durationMs}ms
+
+stdout${result.stdoutTruncated ? ' (truncated)' : ''}:
+${result.stdout}
+
+stderr${result.stderrTruncated ? ' (truncated)' : ''}:
+${result.stderr}`,
+            },
+        ],
+        isError: result.exitCode !== 0,
+    };
+}
+
+export const scriptTools: ToolPlugin = {
+    name: 'scripts',
+    tools: (host): ToolDefinition[] => [
+        {
+            name: 'run_script',
+            description: 'Run a package.json script and report its output',
+            annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    script: {
+                        type: 'string',
+                        description: 'Script name as defined in package.json',
+                    },
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    workspace: WORKSPACE_PROPERTY,
+                    args: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Extra arguments passed to the script after --',
+                    },
+                    env: {
+                        type: 'object',
+                        description: 'Environment variable overrides',
+                        additionalProperties: { type: 'string' },
+                    },
+                    timeout: {
+                        type: 'number',
+                        description: 'Timeout in milliseconds',
+                        minimum: 1,
+                        default: DEFAULT_SCRIPT_TIMEOUT_MS,
+                    },
+                    maxOutputLength: {
+                        type: 'number',
+                        description: 'Maximum characters of stdout/stderr to return (the tail is kept)',
+                        minimum: 1,
+                        default: DEFAULT_MAX_OUTPUT_LENGTH,
+                    },
+                    packageManager: {
+                        type: 'string',
+                        enum: PACKAGE_MANAGERS,
+                        description: 'Package manager to use; detected from lockfiles / packageManager field when omitted',
+                    },
+                },
+                required: ['script', 'path'],
+            },
+            handler: (args, context) => handleRunScript(host, args as RunScriptArgs, context),
+        },
+    ],
+};
@@ -0,0 +1,175 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DEFAULT_OVERWRITE_POLICY, OVERWRITE_POLICIES, OverwritePolicy } from '../file-changes.js';
+import { JournalOperation } from '../journal.js';
+import {
+    AffectedWorkspaces,
+    discoverWorkspaces,
+    findAffectedWorkspaces,
+    findWorkspacePackage,
+    WorkspaceGraph,
+} from '../monorepo.js';
+import { CommandRecorder, ProcessFailedError } from '../process.js';
+import { WorkspaceSandbox } from '../workspace.js';
+
+// Defaults for run_script; both can be overridden per call
+export const DEFAULT_SCRIPT_TIMEOUT_MS = 5 * 60 * 1000;
+export const DEFAULT_MAX_OUTPUT_LENGTH = 20000;
+
+// Limits for package installs and project scaffolding commands
+export const INSTALL_TIMEOUT_MS = 10 * 60 * 1000;
+export const INSTALL_MAX_BUFFER = 1024 * 1024;
+
+// Input schema properties shared by every tool that writes to disk
+export const DRY_RUN_PROPERTY = {
+    type: 'boolean',
+    description: 'Preview the changes as a unified diff without writing anything',
+    default: false,
+};
+export const OVERWRITE_PROPERTY = {
+    type: 'string',
+    enum: OVERWRITE_POLICIES,
+    description: 'What to do when existing content would be replaced: fail, skip the file, overwrite it, or backup (save a .bak copy first)',
+    default: DEFAULT_OVERWRITE_POLICY,
+};
+
+export const STRING_LIST_EDIT_PROPERTY = {
+    type: 'object',
+    properties: {
+        set: { type: 'array', items: { type: 'string' }, description: 'Replace the list' },
+        add: { type: 'array', items: { type: 'string' }, description: 'Append entries not already present' },
+        remove: { type: 'array', items: { type: 'string' }, description: 'Remove entries' },
+    },
+};
+
+export const TEMPLATE_VARIABLES_PROPERTY = {
+    type: 'object',
+    description: 'Values for the variables a user-defined template declares',
+    additionalProperties: { type: 'string' },
+};
+
+export const WORKSPACE_PROPERTY = {
+    type: 'string',
+    description: 'Package name of a workspace in the monorepo containing path; the tool then operates on that workspace',
+};
+
+// Options shared by every tool that writes to disk
+export interface FileWriteArgs extends Record<string, unknown> {
+    dryRun?: boolean;
+    overwrite?: OverwritePolicy;
+}
+
+/**
+ * Validates a path against the workspace roots and creates it if it doesn't exist
+ * @param dirPath Directory path to validate/create
+ * @param create Whether to create a missing directory (false for dry runs)
+ * @returns The resolved absolute directory path
+ * @throws McpError if path is outside the workspace, invalid or cannot be created
+ */
+// Enhanced error handling for path validation
+export async function validatePath(workspace: WorkspaceSandbox, dirPath: string, create = true): Promise<string> {
+    const resolved = await workspace.resolve(dirPath);
+
+    try {
+        // Check if path exists
+        try {
+            await fs.access(resolved);
+        } catch {
+            // If path doesn't exist, create it
+            if (create) {
+                await fs.mkdir(resolved, { recursive: true });
+            }
+            return resolved;
+        }
+
+        // If path exists, verify it's a directory
+        const stats = await fs.stat(resolved);
+        if (!stats.isDirectory()) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Path ${dirPath} exists but is not a directory`
+            );
+        }
+        return resolved;
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Failed to validate/create path ${dirPath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+/**
+ * Creates a directory and any missing parents, recording the topmost new
+ * directory in the journal so undo removes everything beneath it
+ * @returns false if the directory already existed
+ */
+export async function createDirectory(dir: string, operation: JournalOperation): Promise<boolean> {
+    let topmostMissing: string | undefined;
+    for (let current = dir; current !== path.dirname(current); current = path.dirname(current)) {
+        try {
+            await fs.access(current);
+            break;
+        } catch {
+            topmostMissing = current;
+        }
+    }
+
+    if (!topmostMissing) {
+        return false;
+    }
+    await fs.mkdir(dir, { recursive: true });
+    operation.recordDirectory(topmostMissing);
+    return true;
+}
+
+/**
+ * Resolves a file path inside a validated directory, rejecting names that
+ * would escape the workspace (e.g. `../` segments or symlinks)
+ */
+export async function resolveFilePath(workspace: WorkspaceSandbox, dir: string, fileName: string): Promise<string> {
+    return workspace.resolve(path.join(dir, fileName));
+}
+
+/**
+ * Discovers the monorepo containing a directory, whose root must be in an allowed root too
+ */
+export async function discoverMonorepo(workspace: WorkspaceSandbox, dirPath: string): Promise<WorkspaceGraph> {
+    const graph = await discoverWorkspaces(await workspace.resolve(dirPath));
+    await workspace.resolve(graph.root);
+    return graph;
+}
+
+/**
+ * The directory a project tool operates on: `path`, or the named workspace of the
+ * monorepo containing it
+ */
+export async function resolveWorkspaceTarget(workspace: WorkspaceSandbox, args: { path: string; workspace?: string }): Promise<string> {
+    if (args.workspace === undefined) {
+        return args.path;
+    }
+    const graph = await discoverMonorepo(workspace, args.path);
+    return path.join(graph.root, findWorkspacePackage(graph, args.workspace).path);
+}
+
+/**
+ * Finds the workspaces affected since a git revision
+ * @throws McpError (InvalidParams) when git cannot compare against the revision
+ */
+export async function findAffected(
+    graph: WorkspaceGraph,
+    since: string,
+    recorder?: CommandRecorder,
+    signal?: AbortSignal
+): Promise<AffectedWorkspaces> {
+    try {
+        return await findAffectedWorkspaces(graph, since, recorder, signal);
+    } catch (error) {
+        if (error instanceof ProcessFailedError) {
+            throw new McpError(ErrorCode.InvalidParams, `Cannot list changes since ${since}: ${error.message}`);
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,165 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { describeExit, formatCommand, runProcess } from '../process.js';
+import { analyzeProject } from '../project-analysis.js';
+import {
+    buildTestCommand,
+    readTestReport,
+    SUPPORTED_TEST_RUNNERS,
+    SupportedTestRunner,
+} from '../test-runner.js';
+import { ToolContext, ToolDefinition, ToolHost, ToolPlugin } from '../tool-registry.js';
+import {
+    DEFAULT_MAX_OUTPUT_LENGTH,
+    DEFAULT_SCRIPT_TIMEOUT_MS,
+    resolveWorkspaceTarget,
+    WORKSPACE_PROPERTY,
+} from './shared.js';
+
+// Failures listed in full; the rest are only counted
+const MAX_REPORTED_FAILURES = 50;
+
+interface RunTestsArgs extends Record<string, unknown> {
+    path: string;
+    workspace?: string;
+    runner?: SupportedTestRunner;
+    pattern?: string;
+    testName?: string;
+    coverage?: boolean;
+    env?: Record<string, string>;
+    timeout?: number;
+    maxOutputLength?: number;
+}
+
+async function handleRunTests(host: ToolHost, args: RunTestsArgs, context: ToolContext) {
+    const projectPath = await host.workspace.resolve(await resolveWorkspaceTarget(host.workspace, args));
+    let runner = args.runner;
+    if (!runner) {
+        const detected = (await analyzeProject(projectPath, host.workspace.rootOf(projectPath))).testRunner?.name;
+        if (detected === 'ava') {
+            throw new McpError(ErrorCode.InvalidParams, `AVA is not supported; run its tests with run_script instead`);
+        }
+        if (!detected) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `No test runner detected in ${projectPath}. Pass runner: one of ${SUPPORTED_TEST_RUNNERS.join(', ')}`
+            );
+        }
+        runner = detected;
+    }
+
+    // The runner may be hoisted to the node_modules of the workspace root
+    const searchRoot = host.workspace.getRoots().find(root => projectPath === root || projectPath.startsWith(root + path.sep))
+        ?? projectPath;
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'omnibus-tests-'));
+    try {
+        const run = await buildTestCommand(runner, projectPath, searchRoot, workDir, args);
+        const timeout = args.timeout ?? DEFAULT_SCRIPT_TIMEOUT_MS;
+        const maxOutputLength = args.maxOutputLength ?? DEFAULT_MAX_OUTPUT_LENGTH;
+        const result = await runProcess(run.command, run.args, {
+            cwd: projectPath,
+            // CI mode keeps Jest and Vitest from writing new snapshots; colours would garble messages
+            env: { ...process.env, CI: 'true', FORCE_COLOR: '0', NO_COLOR: '1', ...args.env },
+            timeout,
+            maxBuffer: maxOutputLength,
+            signal: context.signal,
+            recorder: context.operation,
+            onProgress: context.progressToken === undefined
+                ? undefined
+                : (elapsedMs) => context.reportProgress(elapsedMs, timeout),
+        });
+
+        const report = await readTestReport(runner, projectPath, workDir);
+        const success = result.exitCode === 0 && report !== undefined && report.summary.failed === 0;
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: JSON.stringify({
+                        runner,
+                        command: formatCommand(run.command, run.args),
+                        status: describeExit(result, timeout),
+                        durationMs: result.durationMs,
+                        success,
+                        ...(report
+                            ? {
+                                summary: report.summary,
+                                failures: report.failures.slice(0, MAX_REPORTED_FAILURES),
+                                omittedFailures: Math.max(0, report.failures.length - MAX_REPORTED_FAILURES) || undefined,
+                                coverage: report.coverage,
+                            }
+                            : {
+                                // Without a report, the output is all there is to go on
+                                error: `${runner} wrote no test report`,
+                                stdout: result.stdout,
+                                stderr: result.stderr,
+                            }),
+                    }, null, 2),
+                },
+            ],
+            isError: !success,
+        };
+    } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+    }
+}
+
+export const testTools: ToolPlugin = {
+    name: 'tests',
+    tools: (host): ToolDefinition[] => [
+        {
+            name: 'run_tests',
+            description: 'Run a project\'s tests with Jest, Vitest, Mocha or node:test and report pass/fail counts, failures with their source locations, and optionally coverage',
+            annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: true },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    workspace: WORKSPACE_PROPERTY,
+                    runner: {
+                        type: 'string',
+                        enum: SUPPORTED_TEST_RUNNERS,
+                        description: 'Test runner to use; detected from dependencies, config files and scripts when omitted',
+                    },
+                    pattern: {
+                        type: 'string',
+                        description: 'Only run matching test files: a path regex for Jest, a path substring for Vitest, a spec glob for Mocha, a file path for node:test',
+                    },
+                    testName: {
+                        type: 'string',
+                        description: 'Only run tests whose full name matches this regular expression',
+                    },
+                    coverage: {
+                        type: 'boolean',
+                        description: 'Collect a coverage summary. Vitest needs a coverage provider such as @vitest/coverage-v8, and Mocha needs c8',
+                        default: false,
+                    },
+                    env: {
+                        type: 'object',
+                        description: 'Environment variable overrides',
+                        additionalProperties: { type: 'string' },
+                    },
+                    timeout: {
+                        type: 'number',
+                        description: 'Timeout in milliseconds',
+                        minimum: 1,
+                        default: DEFAULT_SCRIPT_TIMEOUT_MS,
+                    },
+                    maxOutputLength: {
+                        type: 'number',
+                        description: 'Maximum characters of stdout/stderr kept, returned when the runner writes no report',
+                        minimum: 1,
+                        default: DEFAULT_MAX_OUTPUT_LENGTH,
+                    },
+                },
+                required: ['path'],
+            },
+            handler: (args, context) => handleRunTests(host, args as RunTestsArgs, context),
+        },
+    ],
+};
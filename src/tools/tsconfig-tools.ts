@@ -0,0 +1,176 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { applyFileChanges, formatFileChangeResults, planFileChange, readExisting } from '../file-changes.js';
+import { JournalOperation } from '../journal.js';
+import { ToolDefinition, ToolHost, ToolPlugin } from '../tool-registry.js';
+import { DEFAULT_TSCONFIG, editTsConfig, readTsConfig, StringListEdit, validateCompilerOptions } from '../tsconfig.js';
+import {
+    DRY_RUN_PROPERTY,
+    FileWriteArgs,
+    OVERWRITE_PROPERTY,
+    resolveFilePath,
+    STRING_LIST_EDIT_PROPERTY,
+    validatePath,
+} from './shared.js';
+
+interface UpdateTsConfigArgs extends FileWriteArgs {
+    path: string;
+    file?: string;
+    options?: Record<string, unknown>;
+    paths?: Record<string, string[] | null>;
+    include?: StringListEdit;
+    exclude?: StringListEdit;
+    references?: StringListEdit;
+}
+
+interface InspectTsConfigArgs extends Record<string, unknown> {
+    path: string;
+    file?: string;
+}
+
+async function handleUpdateTsConfig(host: ToolHost, args: UpdateTsConfigArgs, operation: JournalOperation) {
+    if (!args.options && !args.paths && !args.include && !args.exclude && !args.references) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            'Specify at least one of options, paths, include, exclude or references'
+        );
+    }
+    const projectPath = await validatePath(host.workspace, args.path, !args.dryRun);
+
+    // Removals (null) need no validation
+    const setOptions = Object.fromEntries(Object.entries(args.options ?? {}).filter(([, value]) => value !== null));
+    const setPaths = Object.fromEntries(Object.entries(args.paths ?? {}).filter(([, targets]) => targets !== null));
+    if (Object.keys(setPaths).length > 0) {
+        setOptions.paths = setPaths;
+    }
+    const invalid = validateCompilerOptions(setOptions, projectPath);
+    if (invalid.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid compiler options:\n- ${invalid.join('\n- ')}`);
+    }
+
+    const tsconfigPath = await resolveFilePath(host.workspace, projectPath, args.file ?? 'tsconfig.json');
+    try {
+        const original = await readExisting(tsconfigPath);
+        let updated: string;
+        try {
+            updated = editTsConfig(original ?? DEFAULT_TSCONFIG, {
+                compilerOptions: args.options,
+                paths: args.paths,
+                include: args.include,
+                exclude: args.exclude,
+                references: args.references,
+            }, original === null ? {} : readTsConfig(tsconfigPath, host.workspace.rootOf(tsconfigPath)));
+        } catch (error) {
+            // Never replace a config we cannot parse; it may only have a typo
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Cannot edit ${tsconfigPath}, which was left unchanged: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+
+        // Edits keep the rest of the file, so they are not treated as overwriting it
+        const results = await applyFileChanges(
+            [await planFileChange(tsconfigPath, updated, false)],
+            { ...args, recorder: operation }
+        );
+        const problems = args.dryRun ? [] : readTsConfig(tsconfigPath, host.workspace.rootOf(tsconfigPath)).errors;
+
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: `${args.dryRun ? 'Dry run for TypeScript configuration: no files were written' : `Updated TypeScript configuration at ${tsconfigPath}`}
+${formatFileChangeResults(results, args.dryRun)}${problems.length > 0 ? `\n\nProblems in the effective configuration:\n- ${problems.join('\n- ')}` : ''}`,
+                },
+            ],
+        };
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to update TypeScript configuration: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+async function handleInspectTsConfig(host: ToolHost, args: InspectTsConfigArgs) {
+    const projectPath = await validatePath(host.workspace, args.path, false);
+    const tsconfigPath = await resolveFilePath(host.workspace, projectPath, args.file ?? 'tsconfig.json');
+    if (await readExisting(tsconfigPath) === null) {
+        throw new McpError(ErrorCode.InvalidParams, `No TypeScript configuration found at ${tsconfigPath}`);
+    }
+
+    return {
+        content: [
+            {
+                type: 'text',
+                text: JSON.stringify(readTsConfig(tsconfigPath, host.workspace.rootOf(tsconfigPath)), null, 2),
+            },
+        ],
+    };
+}
+
+export const tsconfigTools: ToolPlugin = {
+    name: 'tsconfig',
+    tools: (host): ToolDefinition[] => [
+        {
+            name: 'update_tsconfig',
+            description: 'Edit compiler options, paths, include, exclude and references in a tsconfig file, keeping its comments and formatting. Options are validated against the TypeScript compiler',
+            annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    file: {
+                        type: 'string',
+                        description: 'Config file relative to path',
+                        default: 'tsconfig.json',
+                    },
+                    options: {
+                        type: 'object',
+                        description: 'TypeScript compiler options to set; null removes an option',
+                        additionalProperties: true,
+                    },
+                    paths: {
+                        type: 'object',
+                        description: 'compilerOptions.paths aliases to set, e.g. {"@/*": ["src/*"]}; null removes an alias',
+                        additionalProperties: {
+                            type: ['array', 'null'],
+                            items: { type: 'string' },
+                        },
+                    },
+                    include: { ...STRING_LIST_EDIT_PROPERTY, description: 'Edit the include globs' },
+                    exclude: { ...STRING_LIST_EDIT_PROPERTY, description: 'Edit the exclude globs' },
+                    references: { ...STRING_LIST_EDIT_PROPERTY, description: 'Edit the project reference paths' },
+                    dryRun: DRY_RUN_PROPERTY,
+                    overwrite: OVERWRITE_PROPERTY,
+                },
+                required: ['path'],
+            },
+            handler: (args, { operation }) => handleUpdateTsConfig(host, args as UpdateTsConfigArgs, operation),
+        },
+        {
+            name: 'inspect_tsconfig',
+            description: 'Show the effective TypeScript configuration after resolving the extends chain, with the file each compiler option is set in and any invalid options, as JSON',
+            annotations: { readOnlyHint: true, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'Project directory path',
+                    },
+                    file: {
+                        type: 'string',
+                        description: 'Config file relative to path',
+                        default: 'tsconfig.json',
+                    },
+                },
+                required: ['path'],
+            },
+            handler: (args) => handleInspectTsConfig(host, args as InspectTsConfigArgs),
+        },
+    ],
+};
@@ -0,0 +1,218 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import { applyFileChanges, formatFileChangeResults, planFileChange, readExisting } from '../file-changes.js';
+import { JournalOperation } from '../journal.js';
+import { ToolDefinition, ToolHost, ToolPlugin } from '../tool-registry.js';
+import {
+    ensureZodImport,
+    findDeclaredNames,
+    findOpenApiComponent,
+    inferSchemaFromSample,
+    JsonSchema,
+    TypeGenerator,
+} from '../type-generation.js';
+import { DRY_RUN_PROPERTY, FileWriteArgs, OVERWRITE_PROPERTY, resolveFilePath, validatePath } from './shared.js';
+
+interface CreateTypeDefinitionArgs extends FileWriteArgs {
+    name: string;
+    path: string;
+    properties?: Record<string, string>;
+    schema?: JsonSchema;
+    sample?: unknown;
+    openapi?: { file: string; component: string };
+    zod?: boolean;
+    typeGuards?: boolean;
+    fileName?: string;
+    append?: boolean;
+}
+
+async function handleCreateTypeDefinition(host: ToolHost, args: CreateTypeDefinitionArgs, operation: JournalOperation) {
+    const sources = (['properties', 'schema', 'sample', 'openapi'] as const).filter(key => args[key] !== undefined);
+    if (sources.length !== 1) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            'Specify exactly one of properties, schema, sample or openapi'
+        );
+    }
+    if (args.properties && (args.zod || args.typeGuards)) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            'zod and typeGuards require a schema, sample or openapi source'
+        );
+    }
+
+    const typeDir = await validatePath(host.workspace, args.path, !args.dryRun);
+    const filePath = await resolveFilePath(host.workspace, typeDir, args.fileName ?? `${args.name}.ts`);
+
+    try {
+        const existing = args.append ? await readExisting(filePath) : null;
+        let typeContent: string;
+        let typeNames = [args.name];
+        let declaredNames = [args.name];
+        let usesZod = false;
+        if (args.properties) {
+            typeContent = `export interface ${args.name} {
+    ${Object.entries(args.properties)
+                        .map(([key, type]) => `${key}: ${type};`)
+                        .join('\n    ')}
+}
+`;
+        } else {
+            const generated = await generateTypes(host, args, existing ?? '');
+            typeContent = generated.code;
+            typeNames = generated.typeNames;
+            declaredNames = generated.declaredNames;
+            usesZod = generated.usesZod;
+        }
+        if (existing !== null) {
+            // Types, schemas and guards alike; nested types are already renamed around existing names
+            const existingNames = findDeclaredNames(existing);
+            const clashes = declaredNames.filter(name => existingNames.has(name));
+            if (clashes.length > 0) {
+                throw new McpError(
+                    ErrorCode.InvalidParams,
+                    `Cannot append to ${filePath}: ${clashes.join(', ')} ${clashes.length > 1 ? 'are' : 'is'} already declared there`
+                );
+            }
+        }
+
+        // Appending never counts as overwriting: the existing declarations are kept
+        const change = existing !== null
+            ? await planFileChange(filePath, `${(usesZod ? ensureZodImport(existing) : existing).trimEnd()}\n\n${typeContent}`, false)
+            : await planFileChange(filePath, usesZod ? ensureZodImport(typeContent) : typeContent);
+
+        const results = await applyFileChanges([change], { ...args, recorder: operation });
+        const declared = typeNames.length > 1 ? `types ${typeNames.join(', ')}` : `type definition ${args.name}`;
+        return {
+            content: [
+                {
+                    type: 'text',
+                    text: `${args.dryRun ? `Dry run for ${declared}: no files were written` : `Created ${declared} in ${filePath}`}
+${formatFileChangeResults(results, args.dryRun)}`,
+                },
+            ],
+        };
+    } catch (error) {
+        if (error instanceof McpError) throw error;
+        throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to create type definition: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+/**
+ * Converts the schema, sample or OpenAPI source to declarations that do not clash with `existing`
+ * @throws McpError (InvalidParams) when the source is unusable or a name is already declared
+ */
+async function generateTypes(host: ToolHost, args: CreateTypeDefinitionArgs, existing: string) {
+    let root: unknown = args.schema;
+    let schema: JsonSchema;
+    if (args.openapi) {
+        const documentPath = await host.workspace.resolve(args.openapi.file);
+        let document: Record<string, unknown>;
+        try {
+            document = JSON.parse(await fs.readFile(documentPath, 'utf-8'));
+        } catch (error) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Cannot read OpenAPI document ${args.openapi.file} (only JSON is supported): ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+        root = document;
+        try {
+            schema = findOpenApiComponent(document, args.openapi.component);
+        } catch (error) {
+            throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+        }
+    } else if (args.sample !== undefined) {
+        schema = inferSchemaFromSample(args.sample);
+    } else {
+        schema = args.schema!;
+    }
+
+    const generator = new TypeGenerator(root, findDeclaredNames(existing));
+    try {
+        generator.add(args.name, schema);
+        return generator.generate({ zod: args.zod, typeGuards: args.typeGuards });
+    } catch (error) {
+        throw new McpError(
+            ErrorCode.InvalidParams,
+            `Cannot generate ${args.name}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+export const typeTools: ToolPlugin = {
+    name: 'types',
+    tools: (host): ToolDefinition[] => [
+        {
+            name: 'create_type_definition',
+            description: 'Create TypeScript type definitions from a property map, a JSON Schema, a JSON sample or an OpenAPI component, optionally with Zod schemas and type guards',
+            annotations: { readOnlyHint: false, destructiveHint: false, openWorldHint: false },
+            inputSchema: {
+                type: 'object',
+                properties: {
+                    name: {
+                        type: 'string',
+                        description: 'Type name',
+                    },
+                    path: {
+                        type: 'string',
+                        description: 'Directory to write the file to',
+                    },
+                    properties: {
+                        type: 'object',
+                        description: 'Type properties and their types, for a flat interface',
+                        additionalProperties: { type: 'string' },
+                    },
+                    schema: {
+                        type: 'object',
+                        description: 'JSON Schema to convert; nested objects and local $refs become their own declarations',
+                    },
+                    sample: {
+                        description: 'Example JSON value to infer the types from',
+                    },
+                    openapi: {
+                        type: 'object',
+                        description: 'OpenAPI (JSON) component schema to convert',
+                        properties: {
+                            file: {
+                                type: 'string',
+                                description: 'Path to the OpenAPI or Swagger JSON document',
+                            },
+                            component: {
+                                type: 'string',
+                                description: 'Name under components.schemas (or definitions)',
+                            },
+                        },
+                        required: ['file', 'component'],
+                    },
+                    zod: {
+                        type: 'boolean',
+                        description: 'Also generate a Zod schema (<Name>Schema) for every type',
+                        default: false,
+                    },
+                    typeGuards: {
+                        type: 'boolean',
+                        description: 'Also generate an is<Name>(value) type guard for every type',
+                        default: false,
+                    },
+                    fileName: {
+                        type: 'string',
+                        description: 'File to write, relative to path (defaults to <name>.ts)',
+                    },
+                    append: {
+                        type: 'boolean',
+                        description: 'Append to the file instead of replacing it; fails if a generated name is already declared there',
+                        default: false,
+                    },
+                    dryRun: DRY_RUN_PROPERTY,
+                    overwrite: OVERWRITE_PROPERTY,
+                },
+                required: ['name', 'path'],
+            },
+            handler: (args, { operation }) => handleCreateTypeDefinition(host, args as CreateTypeDefinitionArgs, operation),
+        },
+    ],
+};
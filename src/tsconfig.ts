@@ -0,0 +1,264 @@
+import { realpathSync } from 'fs';
+import * as path from 'path';
+import ts from 'typescript';
+import { parseJsonc, setJsoncValue } from './jsonc.js';
+import { isWithin } from './workspace.js';
+
+export interface TsConfigSummary {
+    path: string;
+    /** Chain of configs pulled in through `extends` */
+    extends: string[];
+    /** Effective compiler options after `extends` are applied, as written in JSON */
+    compilerOptions: Record<string, unknown>;
+    /** Config file each effective compiler option is set in */
+    optionSources: Record<string, string>;
+    /** Own or inherited file specs, relative to this config's directory */
+    include?: string[];
+    exclude?: string[];
+    files?: string[];
+    references?: string[];
+    errors: string[];
+}
+
+/**
+ * Replaces, extends or prunes a list; `remove` applies after `set`, `add` last
+ */
+export interface StringListEdit {
+    set?: string[];
+    add?: string[];
+    remove?: string[];
+}
+
+export interface TsConfigEdits {
+    /** Compiler options to set; null removes an option */
+    compilerOptions?: Record<string, unknown>;
+    /** `compilerOptions.paths` aliases to set; null removes an alias */
+    paths?: Record<string, string[] | null>;
+    include?: StringListEdit;
+    exclude?: StringListEdit;
+    /** Project reference paths */
+    references?: StringListEdit;
+}
+
+/**
+ * Starting point when update_tsconfig is asked to edit a config that does not exist
+ */
+export const DEFAULT_TSCONFIG = `${JSON.stringify({
+    compilerOptions: {},
+    include: ['src/**/*'],
+    exclude: ['node_modules', 'dist'],
+}, null, 2)}\n`;
+
+type FileSpecKey = 'include' | 'exclude' | 'files';
+
+const FILE_SPEC_KEYS: FileSpecKey[] = ['include', 'exclude', 'files'];
+
+function toStringArray(value: unknown): string[] | undefined {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+}
+
+function formatDiagnostic(diagnostic: ts.Diagnostic): string {
+    return ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+}
+
+/**
+ * Checks option names and values against the installed TypeScript compiler
+ * @returns One message per unknown option or invalid value
+ */
+export function validateCompilerOptions(options: Record<string, unknown>, basePath: string): string[] {
+    return ts.convertCompilerOptionsFromJson(options, basePath).errors.map(formatDiagnostic);
+}
+
+/**
+ * Rewrites a file spec relative to another directory, as TypeScript does for
+ * include/exclude/files inherited through `extends`
+ */
+function rebaseFileSpec(spec: string, fromDir: string, toDir: string): string {
+    if (fromDir === toDir || path.isAbsolute(spec)) {
+        return spec;
+    }
+    return path.relative(toDir, path.resolve(fromDir, spec)).split(path.sep).join('/') || '.';
+}
+
+/**
+ * Reads a tsconfig.json with comments and trailing commas allowed, merging compiler
+ * options and file specs from its `extends` chain. Extended configs in node_modules
+ * are resolved the same way TypeScript resolves them, and every config's options are
+ * validated against the compiler.
+ * @param boundary Directory extended configs must lie in, usually the allowed root containing
+ * the config; the search for packages stops there too
+ */
+export function readTsConfig(configPath: string, boundary?: string): TsConfigSummary {
+    const errors: string[] = [];
+    const chain: string[] = [];
+    const configDir = path.dirname(configPath);
+
+    interface Layer {
+        compilerOptions: Record<string, unknown>;
+        optionSources: Record<string, string>;
+        fileSpecs: Partial<Record<FileSpecKey, string[]>>;
+    }
+
+    const load = (file: string, ancestors: Set<string>): Layer => {
+        const layer: Layer = { compilerOptions: {}, optionSources: {}, fileSpecs: {} };
+        if (ancestors.has(file)) {
+            errors.push(`Circular extends: ${file}`);
+            return layer;
+        }
+
+        const { config, error } = ts.readConfigFile(file, ts.sys.readFile);
+        if (error) {
+            errors.push(formatDiagnostic(error));
+            return layer;
+        }
+
+        const extendsValue: string[] = typeof config.extends === 'string'
+            ? [config.extends]
+            : toStringArray(config.extends) ?? [];
+        for (const base of extendsValue) {
+            const resolved = resolveExtends(base, path.dirname(file), boundedHost(boundary), boundary);
+            if (!resolved) {
+                errors.push(`Cannot resolve extended config "${base}" from ${file}`);
+                continue;
+            }
+            // Symlinks are followed, as they are when the config is read
+            if (boundary !== undefined && !(isWithin(boundary, resolved) && isWithin(boundary, realpathSync(resolved)))) {
+                errors.push(`Extended config ${resolved} is outside the allowed workspace roots`);
+                continue;
+            }
+            chain.push(resolved);
+            const inherited = load(resolved, new Set([...ancestors, file]));
+            Object.assign(layer.compilerOptions, inherited.compilerOptions);
+            Object.assign(layer.optionSources, inherited.optionSources);
+            Object.assign(layer.fileSpecs, inherited.fileSpecs);
+        }
+
+        const ownOptions: Record<string, unknown> = config.compilerOptions ?? {};
+        for (const message of validateCompilerOptions(ownOptions, path.dirname(file))) {
+            errors.push(file === configPath ? message : `${file}: ${message}`);
+        }
+        for (const [name, value] of Object.entries(ownOptions)) {
+            layer.compilerOptions[name] = value;
+            layer.optionSources[name] = file;
+        }
+        for (const key of FILE_SPEC_KEYS) {
+            const specs = toStringArray(config[key]);
+            if (specs) {
+                layer.fileSpecs[key] = specs.map(spec => rebaseFileSpec(spec, path.dirname(file), configDir));
+            }
+        }
+        return layer;
+    };
+
+    const { compilerOptions, optionSources, fileSpecs } = load(configPath, new Set());
+    const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+    return {
+        path: configPath,
+        extends: chain,
+        compilerOptions,
+        optionSources,
+        ...fileSpecs,
+        // References are never inherited
+        references: Array.isArray(config?.references)
+            ? config.references.map((reference: { path?: string }) => reference.path).filter(Boolean)
+            : undefined,
+        errors,
+    };
+}
+
+/**
+ * File system access for resolving extended configs, which sees nothing outside `boundary`
+ */
+function boundedHost(boundary?: string): ts.ModuleResolutionHost {
+    const allowed = (target: string) => boundary === undefined || isWithin(boundary, path.resolve(target));
+    return {
+        fileExists: file => allowed(file) && ts.sys.fileExists(file),
+        readFile: file => allowed(file) ? ts.sys.readFile(file) : undefined,
+        directoryExists: dir => allowed(dir) && ts.sys.directoryExists(dir),
+        realpath: ts.sys.realpath,
+        getCurrentDirectory: ts.sys.getCurrentDirectory,
+    };
+}
+
+function resolveExtends(specifier: string, fromDir: string, host: ts.ModuleResolutionHost, boundary?: string): string | undefined {
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+        const resolved = path.resolve(fromDir, specifier);
+        // Reported by the caller without looking outside the boundary
+        if (boundary !== undefined && !isWithin(boundary, resolved)) {
+            return resolved;
+        }
+        for (const candidate of [resolved, `${resolved}.json`]) {
+            if (host.fileExists(candidate)) {
+                return candidate;
+            }
+        }
+        return undefined;
+    }
+    // Package configs such as "@tsconfig/node20/tsconfig.json" or "@tsconfig/strictest"
+    const lookup = ts.nodeModuleNameResolver(
+        specifier,
+        path.join(fromDir, 'tsconfig.json'),
+        { moduleResolution: ts.ModuleResolutionKind.Node10, resolveJsonModule: true },
+        host
+    );
+    if (lookup.resolvedModule) {
+        return lookup.resolvedModule.resolvedFileName;
+    }
+    for (const candidate of [specifier, `${specifier}.json`, `${specifier}/tsconfig.json`]) {
+        const file = path.join(fromDir, 'node_modules', candidate);
+        if (host.fileExists(file)) {
+            return file;
+        }
+    }
+    const parent = path.dirname(fromDir);
+    return parent === fromDir || fromDir === boundary ? undefined : resolveExtends(specifier, parent, host, boundary);
+}
+
+function applyListEdit(current: string[], edit: StringListEdit): string[] {
+    const list = (edit.set ?? current).filter(item => !edit.remove?.includes(item));
+    for (const item of edit.add ?? []) {
+        if (!list.includes(item)) {
+            list.push(item);
+        }
+    }
+    return list;
+}
+
+/**
+ * Applies edits to the text of a tsconfig file, keeping its comments and formatting.
+ * List edits start from `inherited` include/exclude when the file has none of its own.
+ * @throws Error when the text is not a JSONC object
+ */
+export function editTsConfig(
+    text: string,
+    edits: TsConfigEdits,
+    inherited: Partial<Record<'include' | 'exclude', string[]>> = {}
+): string {
+    const config = parseJsonc(text, 'tsconfig.json');
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+        throw new Error('Expected a JSON object');
+    }
+    const current = config as Record<string, unknown>;
+
+    let result = text;
+    for (const [name, value] of Object.entries(edits.compilerOptions ?? {})) {
+        result = setJsoncValue(result, ['compilerOptions', name], value ?? undefined);
+    }
+    for (const [alias, targets] of Object.entries(edits.paths ?? {})) {
+        result = setJsoncValue(result, ['compilerOptions', 'paths', alias], targets ?? undefined);
+    }
+    for (const key of ['include', 'exclude'] as const) {
+        const edit = edits[key];
+        if (edit) {
+            result = setJsoncValue(result, [key], applyListEdit(toStringArray(current[key]) ?? inherited[key] ?? [], edit));
+        }
+    }
+    if (edits.references) {
+        // Keep other fields of surviving references, such as `prepend`
+        const references = (Array.isArray(current.references) ? current.references : []) as { path?: string }[];
+        const paths = applyListEdit(toStringArray(references.map(reference => reference.path)) ?? [], edits.references);
+        result = setJsoncValue(result, ['references'], paths.map(referencePath =>
+            references.find(reference => reference.path === referencePath) ?? { path: referencePath }));
+    }
+    return result;
+}
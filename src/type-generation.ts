@@ -0,0 +1,633 @@
+/**
+ * A JSON Schema (draft 4 through 2020-12, plus OpenAPI's `nullable`), loosely typed
+ */
+export interface JsonSchema {
+    type?: string | string[];
+    title?: string;
+    description?: string;
+    properties?: Record<string, JsonSchemaNode>;
+    required?: string[];
+    additionalProperties?: JsonSchemaNode;
+    items?: JsonSchemaNode | JsonSchemaNode[];
+    prefixItems?: JsonSchemaNode[];
+    enum?: unknown[];
+    const?: unknown;
+    oneOf?: JsonSchemaNode[];
+    anyOf?: JsonSchemaNode[];
+    allOf?: JsonSchemaNode[];
+    $ref?: string;
+    nullable?: boolean;
+    [keyword: string]: unknown;
+}
+
+/** Boolean schemas accept anything (true) or nothing (false) */
+export type JsonSchemaNode = JsonSchema | boolean;
+
+export interface TypeGenerationOptions {
+    /** Also emit a Zod schema named `<Type>Schema` for every declaration */
+    zod?: boolean;
+    /** Also emit an `is<Type>(value)` type guard for every declaration */
+    typeGuards?: boolean;
+}
+
+export interface GeneratedTypes {
+    /** Names of every declared type, top-level first */
+    typeNames: string[];
+    /** Every top-level name the code declares, including schemas and guards */
+    declaredNames: string[];
+    code: string;
+    usesZod: boolean;
+}
+
+interface Declaration {
+    name: string;
+    schema: JsonSchema;
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function toPascalCase(value: string): string {
+    const pascal = value
+        .replace(/[^A-Za-z0-9]+(.)?/g, (_, next: string | undefined) => next?.toUpperCase() ?? '')
+        .replace(/^./, first => first.toUpperCase());
+    return /^[0-9]/.test(pascal) ? `T${pascal}` : pascal || 'Type';
+}
+
+function literal(value: unknown): string {
+    if (typeof value === 'string') {
+        return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    }
+    return JSON.stringify(value);
+}
+
+function propertyKey(key: string): string {
+    return IDENTIFIER_PATTERN.test(key) ? key : literal(key);
+}
+
+function propertyAccess(object: string, key: string): string {
+    return IDENTIFIER_PATTERN.test(key) ? `${object}.${key}` : `${object}[${literal(key)}]`;
+}
+
+function jsDoc(description: unknown, indent: string): string {
+    if (typeof description !== 'string' || description.trim() === '') {
+        return '';
+    }
+    const lines = description.trim().split('\n');
+    return lines.length === 1
+        ? `${indent}/** ${lines[0].replace(/\*\//g, '*\\/')} */\n`
+        : `${indent}/**\n${lines.map(line => `${indent} * ${line.replace(/\*\//g, '*\\/')}`).join('\n')}\n${indent} */\n`;
+}
+
+function schemaTypes(schema: JsonSchema): string[] {
+    return Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+}
+
+/**
+ * Whether the schema allows null, through `nullable: true` (OpenAPI 3.0) or a `null` type alongside others
+ */
+function isNullable(schema: JsonSchema): boolean {
+    const types = schemaTypes(schema);
+    return schema.nullable === true || (types.includes('null') && types.length > 1);
+}
+
+/**
+ * Schema types other than null
+ */
+function valueTypes(schema: JsonSchema): string[] {
+    const types = schemaTypes(schema);
+    return types.length === 1 ? types : types.filter(type => type !== 'null');
+}
+
+function isObjectSchema(schema: JsonSchema): boolean {
+    const types = valueTypes(schema);
+    return (types.length === 1 && types[0] === 'object') || (types.length === 0 && schema.properties !== undefined);
+}
+
+function hasProperties(schema: JsonSchema): boolean {
+    return isObjectSchema(schema) && Object.keys(schema.properties ?? {}).length > 0;
+}
+
+/**
+ * Infers a JSON Schema from a sample value. Objects found in the same array are
+ * merged, with properties missing from some of them made optional.
+ */
+export function inferSchemaFromSample(value: unknown): JsonSchema {
+    if (value === null) {
+        return { type: 'null' };
+    }
+    if (Array.isArray(value)) {
+        return value.length > 0 ? { type: 'array', items: mergeSchemas(value.map(inferSchemaFromSample)) } : { type: 'array' };
+    }
+    if (typeof value === 'object') {
+        const entries = Object.entries(value as Record<string, unknown>);
+        return {
+            type: 'object',
+            properties: Object.fromEntries(entries.map(([key, item]) => [key, inferSchemaFromSample(item)])),
+            required: entries.map(([key]) => key),
+        };
+    }
+    return { type: typeof value === 'number' || typeof value === 'boolean' ? typeof value : 'string' };
+}
+
+function mergeSchemas(schemas: JsonSchema[]): JsonSchema {
+    const objects = schemas.filter(schema => schema.type === 'object');
+    const arrays = schemas.filter(schema => schema.type === 'array');
+    const others = schemas.filter(schema => schema.type !== 'object' && schema.type !== 'array');
+
+    const variants: JsonSchema[] = [];
+    if (objects.length > 0) {
+        const keys = Array.from(new Set(objects.flatMap(schema => Object.keys(schema.properties ?? {}))));
+        variants.push({
+            type: 'object',
+            properties: Object.fromEntries(keys.map(key => [
+                key,
+                mergeSchemas(objects.flatMap(schema => schema.properties?.[key] ? [schema.properties[key] as JsonSchema] : [])),
+            ])),
+            required: keys.filter(key => objects.every(schema => schema.required?.includes(key))),
+        });
+    }
+    if (arrays.length > 0) {
+        const items = arrays.flatMap(schema => schema.items ? [schema.items as JsonSchema] : []);
+        variants.push(items.length > 0 ? { type: 'array', items: mergeSchemas(items) } : { type: 'array' });
+    }
+    const seen = new Set<string>();
+    for (const schema of others) {
+        if (!seen.has(String(schema.type))) {
+            seen.add(String(schema.type));
+            variants.push(schema);
+        }
+    }
+    return variants.length === 1 ? variants[0] : { anyOf: variants };
+}
+
+/**
+ * Converts JSON Schemas to TypeScript declarations, with optional Zod schemas and
+ * type guards built from the same declarations.
+ *
+ * Object schemas with properties become interfaces; nested ones are named after their
+ * parent and property (`User` + `address` = `UserAddress`). Local `$ref`s
+ * (`#/definitions/X`, `#/$defs/X`, `#/components/schemas/X`) become declarations
+ * named after their target.
+ */
+export class TypeGenerator {
+    private readonly names = new Map<JsonSchema, string>();
+    private readonly declarations: Declaration[] = [];
+    private readonly usedNames: Set<string>;
+
+    /**
+     * @param root Document `$ref` pointers are resolved against
+     * @param reservedNames Names already declared in the target file
+     */
+    constructor(private readonly root: unknown = {}, reservedNames: Iterable<string> = []) {
+        this.usedNames = new Set(reservedNames);
+    }
+
+    /**
+     * Registers a top-level declaration
+     * @throws Error when the name is already declared or a `$ref` cannot be resolved
+     */
+    add(name: string, schema: JsonSchemaNode): void {
+        if (this.usedNames.has(name)) {
+            throw new Error(`${name} is already declared`);
+        }
+        const node = typeof schema === 'boolean' ? {} : schema;
+        this.usedNames.add(name);
+        if (typeof node.$ref !== 'string') {
+            this.names.set(node, name);
+        }
+        // A top-level $ref becomes an alias of its target's declaration
+        this.collect(node, name, true);
+        this.declarations.push({ name, schema: node });
+    }
+
+    generate(options: TypeGenerationOptions = {}): GeneratedTypes {
+        // Declarations are collected children first; types read better parents first
+        const typeOrder = [...this.declarations].reverse();
+        const sections = [typeOrder.map(declaration => this.renderType(declaration)).join('\n')];
+        const declaredNames = typeOrder.map(declaration => declaration.name);
+
+        if (options.zod) {
+            sections.push(this.declarations.map((declaration, index) => this.renderZod(declaration, index)).join('\n'));
+            declaredNames.push(...typeOrder.map(declaration => `${declaration.name}Schema`));
+        }
+        if (options.typeGuards) {
+            sections.push(typeOrder.map(declaration => this.renderGuard(declaration, Boolean(options.zod))).join('\n'));
+            declaredNames.push(...typeOrder.map(declaration => `is${declaration.name}`));
+        }
+
+        return {
+            typeNames: typeOrder.map(declaration => declaration.name),
+            declaredNames,
+            code: sections.join('\n'),
+            usesZod: Boolean(options.zod),
+        };
+    }
+
+    private uniqueName(base: string): string {
+        let name = toPascalCase(base);
+        for (let i = 2; this.usedNames.has(name); i++) {
+            name = `${toPascalCase(base)}${i}`;
+        }
+        this.usedNames.add(name);
+        return name;
+    }
+
+    /**
+     * Follows `$ref` chains to the schema they point at
+     */
+    private resolve(schema: JsonSchema, seen = new Set<string>()): JsonSchema {
+        if (typeof schema.$ref !== 'string') {
+            return schema;
+        }
+        const ref = schema.$ref;
+        if (!ref.startsWith('#')) {
+            throw new Error(`Only local $ref pointers are supported, got ${ref}`);
+        }
+        if (seen.has(ref)) {
+            throw new Error(`Circular $ref alias ${ref}`);
+        }
+        seen.add(ref);
+
+        let target: unknown = this.root;
+        for (const segment of ref.slice(1).split('/').filter(Boolean)) {
+            const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+            target = target && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+        }
+        if (target === undefined) {
+            throw new Error(`Cannot resolve $ref ${ref}`);
+        }
+        return this.resolve(typeof target === 'boolean' ? {} : target as JsonSchema, seen);
+    }
+
+    private refName(schema: JsonSchema): string | undefined {
+        return this.names.get(this.resolve(schema));
+    }
+
+    /**
+     * Walks a schema, naming the object schemas and `$ref` targets that need declarations
+     */
+    private collect(node: JsonSchemaNode | undefined, hint: string, isDeclaration = false): void {
+        if (node === undefined || typeof node === 'boolean') {
+            return;
+        }
+
+        if (typeof node.$ref === 'string') {
+            const target = this.resolve(node);
+            if (!this.names.has(target)) {
+                const segments = node.$ref.split('/');
+                const name = this.uniqueName(String(target.title ?? segments[segments.length - 1]));
+                this.names.set(target, name);
+                this.collect(target, name, true);
+                this.declarations.push({ name, schema: target });
+            }
+            return;
+        }
+
+        if (!isDeclaration && hasProperties(node)) {
+            const name = this.uniqueName(hint);
+            this.names.set(node, name);
+            this.collect(node, name, true);
+            this.declarations.push({ name, schema: node });
+            return;
+        }
+
+        for (const [key, property] of Object.entries(node.properties ?? {})) {
+            this.collect(property, `${hint}${toPascalCase(key)}`);
+        }
+        if (typeof node.additionalProperties === 'object') {
+            this.collect(node.additionalProperties, `${hint}Value`);
+        }
+        if (Array.isArray(node.items)) {
+            node.items.forEach((item, index) => this.collect(item, `${hint}Item${index + 1}`));
+        } else {
+            this.collect(node.items, `${hint}Item`);
+        }
+        node.prefixItems?.forEach((item, index) => this.collect(item, `${hint}Item${index + 1}`));
+        for (const keyword of ['oneOf', 'anyOf', 'allOf'] as const) {
+            node[keyword]?.forEach((member, index) => this.collect(member, `${hint}Option${index + 1}`));
+        }
+    }
+
+    /**
+     * The declaration name a schema is referenced by, unless it is the declaration being rendered
+     */
+    private declaredName(node: JsonSchema, isDeclaration: boolean): string | undefined {
+        if (node.$ref) {
+            return this.refName(node);
+        }
+        return isDeclaration ? undefined : this.names.get(node);
+    }
+
+    private tsType(node: JsonSchemaNode | undefined, isDeclaration = false): string {
+        if (node === undefined || node === true) {
+            return 'unknown';
+        }
+        if (node === false) {
+            return 'never';
+        }
+        const type = this.declaredName(node, isDeclaration) ?? this.tsBaseType(node);
+        return isNullable(node) ? this.union([type, 'null']) : type;
+    }
+
+    private tsBaseType(node: JsonSchema): string {
+        if (node.const !== undefined) {
+            return literal(node.const);
+        }
+        if (node.enum) {
+            return this.union(node.enum.map(literal));
+        }
+        if (node.allOf) {
+            return node.allOf.map(member => this.wrap(this.tsType(member))).join(' & ');
+        }
+        if (node.oneOf || node.anyOf) {
+            return this.union((node.oneOf ?? node.anyOf)!.map(member => this.tsType(member)));
+        }
+
+        const types = valueTypes(node);
+        if (types.length > 1) {
+            return this.union(types.map(type => this.tsBaseType({ ...node, type })));
+        }
+        switch (types[0]) {
+            case 'string':
+                return 'string';
+            case 'number':
+            case 'integer':
+                return 'number';
+            case 'boolean':
+                return 'boolean';
+            case 'null':
+                return 'null';
+            case 'array':
+                return this.tsArrayType(node);
+        }
+        if (isObjectSchema(node)) {
+            if (hasProperties(node)) {
+                return `{ ${Object.entries(node.properties!).map(([key, property]) =>
+                    `${propertyKey(key)}${node.required?.includes(key) ? '' : '?'}: ${this.tsType(property)};`).join(' ')} }`;
+            }
+            return `Record<string, ${typeof node.additionalProperties === 'object' ? this.tsType(node.additionalProperties) : 'unknown'}>`;
+        }
+        return 'unknown';
+    }
+
+    private tsArrayType(node: JsonSchema): string {
+        const tuple = node.prefixItems ?? (Array.isArray(node.items) ? node.items : undefined);
+        if (tuple) {
+            return `[${tuple.map(item => this.tsType(item)).join(', ')}]`;
+        }
+        return `${this.wrap(this.tsType(node.items as JsonSchemaNode | undefined))}[]`;
+    }
+
+    private union(members: string[]): string {
+        const unique = Array.from(new Set(members));
+        return unique.length === 0 ? 'never' : unique.join(' | ');
+    }
+
+    private wrap(type: string): string {
+        return /[|&\s]/.test(type) && !/^[{[]/.test(type) ? `(${type})` : type;
+    }
+
+    /**
+     * Whether a declaration renders as an interface rather than a type alias
+     */
+    private isInterface(schema: JsonSchema): boolean {
+        return hasProperties(schema) && !schema.allOf && !schema.oneOf && !schema.anyOf && !isNullable(schema);
+    }
+
+    private renderType(declaration: Declaration): string {
+        const { name, schema } = declaration;
+        const doc = jsDoc(schema.description, '');
+        if (!this.isInterface(schema)) {
+            return `${doc}export type ${name} = ${this.tsType(schema, true)};\n`;
+        }
+
+        const lines = Object.entries(schema.properties!).map(([key, property]) => {
+            const description = typeof property === 'object' ? property.description : undefined;
+            return `${jsDoc(description, '    ')}    ${propertyKey(key)}${schema.required?.includes(key) ? '' : '?'}: ${this.tsType(property)};`;
+        });
+        if (schema.additionalProperties === true || typeof schema.additionalProperties === 'object') {
+            lines.push('    [key: string]: unknown;');
+        }
+        return `${doc}export interface ${name} {\n${lines.join('\n')}\n}\n`;
+    }
+
+    private zodType(node: JsonSchemaNode | undefined, context: { index: number; lazy: boolean }, isDeclaration = false): string {
+        if (node === undefined || node === true) {
+            return 'z.unknown()';
+        }
+        if (node === false) {
+            return 'z.never()';
+        }
+
+        let type: string;
+        const named = this.declaredName(node, isDeclaration);
+        if (named) {
+            // Schemas declared later (cycles) must be referenced lazily
+            const declaredAt = this.declarations.findIndex(declaration => declaration.name === named);
+            if (declaredAt >= context.index) {
+                context.lazy = true;
+                type = `z.lazy(() => ${named}Schema)`;
+            } else {
+                type = `${named}Schema`;
+            }
+        } else {
+            type = this.zodBaseType(node, context);
+        }
+        return isNullable(node) ? `${type}.nullable()` : type;
+    }
+
+    private zodBaseType(node: JsonSchema, context: { index: number; lazy: boolean }): string {
+        if (node.const !== undefined) {
+            return `z.literal(${literal(node.const)})`;
+        }
+        if (node.enum) {
+            return node.enum.every(value => typeof value === 'string')
+                ? `z.enum([${node.enum.map(literal).join(', ')}])`
+                : this.zodUnion(node.enum.map(value => value === null ? 'z.null()' : `z.literal(${literal(value)})`));
+        }
+        if (node.allOf) {
+            const [first, ...rest] = node.allOf.map(member => this.zodType(member, context));
+            return rest.reduce((combined, member) => `z.intersection(${combined}, ${member})`, first ?? 'z.unknown()');
+        }
+        if (node.oneOf || node.anyOf) {
+            return this.zodUnion((node.oneOf ?? node.anyOf)!.map(member => this.zodType(member, context)));
+        }
+
+        const types = valueTypes(node);
+        if (types.length > 1) {
+            return this.zodUnion(types.map(type => this.zodBaseType({ ...node, type }, context)));
+        }
+        switch (types[0]) {
+            case 'string':
+                return 'z.string()';
+            case 'number':
+                return 'z.number()';
+            case 'integer':
+                return 'z.number().int()';
+            case 'boolean':
+                return 'z.boolean()';
+            case 'null':
+                return 'z.null()';
+            case 'array': {
+                const tuple = node.prefixItems ?? (Array.isArray(node.items) ? node.items : undefined);
+                if (tuple) {
+                    return `z.tuple([${tuple.map(item => this.zodType(item, context)).join(', ')}])`;
+                }
+                return `z.array(${this.zodType(node.items as JsonSchemaNode | undefined, context)})`;
+            }
+        }
+        if (isObjectSchema(node)) {
+            const additional = node.additionalProperties;
+            if (!hasProperties(node)) {
+                return `z.record(z.string(), ${typeof additional === 'object' ? this.zodType(additional, context) : 'z.unknown()'})`;
+            }
+            const properties = Object.entries(node.properties!).map(([key, property]) =>
+                `    ${propertyKey(key)}: ${this.zodType(property, context)}${node.required?.includes(key) ? '' : '.optional()'},`);
+            const catchall = additional === true || typeof additional === 'object' ? '.passthrough()' : '';
+            return `z.object({\n${properties.join('\n')}\n})${catchall}`;
+        }
+        return 'z.unknown()';
+    }
+
+    private zodUnion(members: string[]): string {
+        const unique = Array.from(new Set(members));
+        return unique.length === 1 ? unique[0] : `z.union([${unique.join(', ')}])`;
+    }
+
+    private renderZod(declaration: Declaration, index: number): string {
+        const context = { index, lazy: false };
+        const body = this.zodType(declaration.schema, context, true);
+        // Recursive schemas need an explicit type for inference to terminate
+        const annotation = context.lazy ? `: z.ZodType<${declaration.name}>` : '';
+        return `export const ${declaration.name}Schema${annotation} = ${body};\n`;
+    }
+
+    private guardExpression(node: JsonSchemaNode | undefined, value: string, depth: number, isDeclaration = false): string {
+        if (node === undefined || node === true) {
+            return 'true';
+        }
+        if (node === false) {
+            return 'false';
+        }
+        const named = this.declaredName(node, isDeclaration);
+        const check = named ? `is${named}(${value})` : this.guardBaseExpression(node, value, depth);
+        return isNullable(node) && check !== 'true' ? `(${value} === null || ${check})` : check;
+    }
+
+    private guardBaseExpression(node: JsonSchema, value: string, depth: number): string {
+        if (node.const !== undefined) {
+            return `${value} === ${literal(node.const)}`;
+        }
+        if (node.enum) {
+            return `(${node.enum.map(option => `${value} === ${literal(option)}`).join(' || ')})`;
+        }
+        if (node.allOf) {
+            return `(${node.allOf.map(member => this.guardExpression(member, value, depth)).join(' && ')})`;
+        }
+        if (node.oneOf || node.anyOf) {
+            return `(${(node.oneOf ?? node.anyOf)!.map(member => this.guardExpression(member, value, depth)).join(' || ')})`;
+        }
+
+        const types = valueTypes(node);
+        if (types.length > 1) {
+            return `(${types.map(type => this.guardBaseExpression({ ...node, type }, value, depth)).join(' || ')})`;
+        }
+        switch (types[0]) {
+            case 'string':
+            case 'number':
+            case 'boolean':
+                return `typeof ${value} === '${types[0]}'`;
+            case 'integer':
+                return `Number.isInteger(${value})`;
+            case 'null':
+                return `${value} === null`;
+            case 'array': {
+                const tuple = node.prefixItems ?? (Array.isArray(node.items) ? node.items : undefined);
+                if (tuple) {
+                    return `(Array.isArray(${value}) && ${value}.length === ${tuple.length}${tuple.map((item, index) =>
+                        ` && ${this.guardExpression(item, `${value}[${index}]`, depth + 1)}`).join('')})`;
+                }
+                const item = `item${depth > 0 ? depth : ''}`;
+                const check = this.guardExpression(node.items as JsonSchemaNode | undefined, item, depth + 1);
+                return check === 'true'
+                    ? `Array.isArray(${value})`
+                    : `(Array.isArray(${value}) && ${value}.every((${item}: unknown) => ${check}))`;
+            }
+        }
+        if (isObjectSchema(node)) {
+            return `(typeof ${value} === 'object' && ${value} !== null && !Array.isArray(${value}))`;
+        }
+        return 'true';
+    }
+
+    private renderGuard(declaration: Declaration, useZod: boolean): string {
+        const { name, schema } = declaration;
+        const signature = `export function is${name}(value: unknown): value is ${name}`;
+        if (useZod) {
+            return `${signature} {\n    return ${name}Schema.safeParse(value).success;\n}\n`;
+        }
+        if (!this.isInterface(schema)) {
+            return `${signature} {\n    return ${this.guardExpression(schema, 'value', 0, true)};\n}\n`;
+        }
+
+        const checks = Object.entries(schema.properties!).map(([key, property]) => {
+            const access = propertyAccess('record', key);
+            const check = this.guardExpression(property, access, 1);
+            if (schema.required?.includes(key)) {
+                return check === 'true' ? `${literal(key)} in record` : check;
+            }
+            return check === 'true' ? undefined : `(${access} === undefined || ${check})`;
+        }).filter((check): check is string => check !== undefined);
+
+        return `${signature} {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return false;
+    }
+    const record = value as Record<string, unknown>;
+    return ${checks.length > 0 ? checks.join('\n        && ') : 'true'};
+}
+`;
+    }
+}
+
+/**
+ * Finds a schema in an OpenAPI 3 (`components.schemas`) or Swagger 2 (`definitions`) document
+ * @throws Error when the component does not exist
+ */
+export function findOpenApiComponent(document: Record<string, unknown>, component: string): JsonSchema {
+    const components = (document.components as Record<string, unknown> | undefined)?.schemas as Record<string, JsonSchema> | undefined;
+    if (components?.[component]) {
+        return components[component];
+    }
+    const definitions = document.definitions as Record<string, JsonSchema> | undefined;
+    if (definitions?.[component]) {
+        return definitions[component];
+    }
+    const available = Object.keys(components ?? definitions ?? {});
+    throw new Error(`Component ${component} not found${available.length > 0 ? `; available: ${available.join(', ')}` : ''}`);
+}
+
+/**
+ * Lists names declared at the top level of a TypeScript source file
+ */
+export function findDeclaredNames(source: string): Set<string> {
+    const pattern = /^\s*(?:export\s+)?(?:declare\s+)?(?:default\s+)?(?:interface|type|const|let|var|function|class|enum)\s+([A-Za-z_$][A-Za-z0-9_$]*)/gm;
+    return new Set(Array.from(source.matchAll(pattern), match => match[1]));
+}
+
+/**
+ * Adds `import { z } from 'zod'` after the existing imports unless zod is already imported
+ */
+export function ensureZodImport(source: string): string {
+    if (/import\s+(?:\{[^}]*\bz\b[^}]*\}|\*\s+as\s+z)\s+from\s+['"]zod['"]/.test(source)) {
+        return source;
+    }
+    const importLine = "import { z } from 'zod';\n";
+    const imports = Array.from(source.matchAll(/^import[\s\S]*?from\s+['"][^'"]+['"];?[^\S\n]*\n/gm));
+    if (imports.length === 0) {
+        return source ? `${importLine}\n${source}` : importLine;
+    }
+    const last = imports[imports.length - 1];
+    const end = last.index! + last[0].length;
+    return `${source.slice(0, end)}${importLine}${source.slice(end)}`;
+}
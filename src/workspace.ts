@@ -0,0 +1,102 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { realpathSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Whether a path is a directory or lies below it
+ */
+export function isWithin(dir: string, target: string): boolean {
+    const relative = path.relative(dir, target);
+    return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+}
+
+/**
+ * Confines tool paths to a fixed set of workspace roots.
+ *
+ * Paths are compared after resolving symlinks, so a link inside a root that
+ * points elsewhere on disk is treated as outside the workspace.
+ */
+export class WorkspaceSandbox {
+    private readonly roots: string[];
+
+    /**
+     * @param roots Absolute directories that tools may operate in
+     * @param reservedFiles Files the server itself keeps, such as the audit log; tools may
+     * not touch them even when they lie inside a root
+     * @throws Error if a root does not exist
+     */
+    constructor(roots: string[], private readonly reservedFiles: string[] = []) {
+        if (roots.length === 0) {
+            throw new Error('At least one allowed workspace root is required');
+        }
+        this.roots = roots.map(root => {
+            try {
+                return realpathSync(root);
+            } catch {
+                throw new Error(`Allowed workspace root does not exist: ${root}`);
+            }
+        });
+    }
+
+    getRoots(): string[] {
+        return [...this.roots];
+    }
+
+    /**
+     * The outermost allowed root containing a path returned by `resolve`. Searches up the
+     * directory tree, e.g. for lockfiles or extended configs, stop there.
+     */
+    rootOf(resolved: string): string | undefined {
+        return this.roots
+            .filter(root => isWithin(root, resolved))
+            .sort((a, b) => a.length - b.length)[0];
+    }
+
+    /**
+     * Resolves a caller-supplied path and verifies it lies inside an allowed root
+     * @param target File or directory path, which does not need to exist yet
+     * @returns The absolute path with symlinks in its existing portion resolved
+     * @throws McpError (InvalidParams) if the path escapes every allowed root or is a reserved file
+     */
+    async resolve(target: string): Promise<string> {
+        const resolved = await this.realpathOfNearestAncestor(path.resolve(target));
+
+        if (!this.roots.some(root => isWithin(root, resolved))) {
+            throw new McpError(
+                ErrorCode.InvalidParams,
+                `Path ${target} is outside the allowed workspace roots: ${this.roots.join(', ')}`
+            );
+        }
+        for (const file of this.reservedFiles) {
+            if (resolved === await this.realpathOfNearestAncestor(path.resolve(file))) {
+                throw new McpError(ErrorCode.InvalidParams, `Path ${target} is reserved by the server`);
+            }
+        }
+
+        return resolved;
+    }
+
+    /**
+     * Resolves symlinks for the deepest existing ancestor of a path and
+     * re-appends the segments that do not exist yet
+     */
+    private async realpathOfNearestAncestor(absolutePath: string): Promise<string> {
+        const pending: string[] = [];
+        let current = absolutePath;
+
+        while (true) {
+            try {
+                const real = await fs.realpath(current);
+                return pending.length > 0 ? path.join(real, ...pending.reverse()) : real;
+            } catch {
+                const parent = path.dirname(current);
+                if (parent === current) {
+                    return absolutePath;
+                }
+                pending.push(path.basename(current));
+                current = parent;
+            }
+        }
+    }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { validateArguments } from '../src/argument-validation.js';
+import { JsonSchema } from '../src/type-generation.js';
+
+const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+        script: { type: 'string' },
+        timeout: { type: 'integer', minimum: 1, default: 60000 },
+        mode: { type: 'string', enum: ['dev', 'prod'] },
+        args: { type: 'array', items: { type: 'string' } },
+        env: { type: 'object', additionalProperties: { type: 'string' } },
+        dryRun: { type: ['boolean', 'null'] },
+    },
+    required: ['script'],
+};
+
+describe('validateArguments', () => {
+    it('accepts valid arguments and fills in defaults', () => {
+        const result = validateArguments(schema, { script: 'build', args: ['--watch'], env: { CI: '1' }, dryRun: null });
+        expect(result.errors).toEqual([]);
+        expect(result.value).toEqual({ script: 'build', timeout: 60000, args: ['--watch'], env: { CI: '1' }, dryRun: null });
+    });
+
+    it('gives each call its own copy of a default', () => {
+        const withList: JsonSchema = { type: 'object', properties: { list: { type: 'array', default: [] } } };
+        const first = validateArguments(withList, {}).value as { list: string[] };
+        first.list.push('changed');
+        expect(validateArguments(withList, {}).value).toEqual({ list: [] });
+    });
+
+    it('reports missing required properties', () => {
+        expect(validateArguments(schema, {}).errors).toEqual(['script: is required']);
+    });
+
+    it('reports wrong types with the path of the field', () => {
+        const { errors } = validateArguments(schema, { script: 1, args: ['a', 2], env: { CI: true }, dryRun: 'yes' });
+        expect(errors).toEqual([
+            'script: expected string, got integer',
+            'args[1]: expected string, got integer',
+            'env.CI: expected string, got boolean',
+            'dryRun: expected boolean or null, got string',
+        ]);
+    });
+
+    it('rejects non-integers, values below the minimum and values outside the enum', () => {
+        expect(validateArguments(schema, { script: 'a', timeout: 1.5 }).errors).toEqual(['timeout: expected integer, got number']);
+        expect(validateArguments(schema, { script: 'a', timeout: 0 }).errors).toEqual(['timeout: must be at least 1, got 0']);
+        expect(validateArguments(schema, { script: 'a', mode: 'test' }).errors)
+            .toEqual(['mode: expected one of: dev, prod, got "test"']);
+    });
+
+    it('rejects a non-object argument list', () => {
+        expect(validateArguments(schema, []).errors).toEqual(['arguments: expected object, got array']);
+    });
+
+    it('rejects additional properties when they are not allowed', () => {
+        const closed: JsonSchema = { type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false };
+        expect(validateArguments(closed, { a: 'x', b: 1 }).errors).toEqual(['b: is not allowed']);
+    });
+
+    it('treats inherited object keys as additional properties, not declared ones', () => {
+        const closed: JsonSchema = { type: 'object', properties: {}, additionalProperties: false };
+        expect(validateArguments(closed, JSON.parse('{"constructor": 1}')).errors).toEqual(['constructor: is not allowed']);
+    });
+});
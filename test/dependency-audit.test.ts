@@ -0,0 +1,53 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { auditDependencies } from '../src/dependency-audit.js';
+
+let dir: string;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'omnibus-audit-'));
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('auditDependencies', () => {
+    it('lists duplicates with versions from file: and git sources after the semver ones', async () => {
+        await fs.writeFile(path.join(dir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { a: '^2.0.0' } }));
+        await fs.writeFile(path.join(dir, 'package-lock.json'), JSON.stringify({
+            lockfileVersion: 3,
+            packages: {
+                '': { name: 'app' },
+                'node_modules/a': { version: '2.0.0' },
+                'node_modules/b/node_modules/a': { version: 'github:example/a#abc123' },
+                'node_modules/c/node_modules/a': { version: 'file:../a' },
+                'node_modules/d/node_modules/a': { version: '1.0.0' },
+            },
+        }));
+
+        const audit = await auditDependencies(dir, { registry: dir }, { checks: ['duplicates'] });
+        expect(audit.duplicates).toEqual([{
+            name: 'a',
+            versions: [
+                { version: '1.0.0', locations: ['node_modules/d/node_modules/a'] },
+                { version: '2.0.0', locations: ['node_modules/a'] },
+                { version: 'file:../a', locations: ['node_modules/c/node_modules/a'] },
+                { version: 'github:example/a#abc123', locations: ['node_modules/b/node_modules/a'] },
+            ],
+        }]);
+    });
+
+    it('does not use a lockfile above the boundary', async () => {
+        await fs.writeFile(path.join(dir, 'package-lock.json'), JSON.stringify({ lockfileVersion: 3, packages: {} }));
+        const root = path.join(dir, 'root');
+        await fs.mkdir(path.join(root, 'app'), { recursive: true });
+        await fs.writeFile(path.join(root, 'app', 'package.json'), JSON.stringify({ name: 'app' }));
+
+        const audit = await auditDependencies(path.join(root, 'app'), { registry: dir }, { checks: ['duplicates'], boundary: root });
+        expect(audit.lockfile).toBeUndefined();
+        expect(audit.errors).toEqual(['No lockfile found; the installed tree was read from node_modules']);
+    });
+});
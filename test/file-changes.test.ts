@@ -0,0 +1,138 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+    applyFileChanges,
+    createDiff,
+    FileChange,
+    formatFileChangeResults,
+    planFileChange,
+} from '../src/file-changes.js';
+
+let dir: string;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'omnibus-file-changes-'));
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function read(file: string): Promise<string | null> {
+    return fs.readFile(file, 'utf-8').catch(() => null);
+}
+
+/**
+ * Plans writing `new` to a new file, `after` over an existing `before` file and
+ * the same contents to a `same` file
+ */
+async function planChanges(): Promise<FileChange[]> {
+    await fs.writeFile(path.join(dir, 'existing.txt'), 'before\n');
+    await fs.writeFile(path.join(dir, 'same.txt'), 'same\n');
+    return Promise.all([
+        planFileChange(path.join(dir, 'nested', 'new.txt'), 'new\n'),
+        planFileChange(path.join(dir, 'existing.txt'), 'after\n'),
+        planFileChange(path.join(dir, 'same.txt'), 'same\n'),
+    ]);
+}
+
+describe('applyFileChanges', () => {
+    it('reports conflicts on a dry run and writes nothing', async () => {
+        const results = await applyFileChanges(await planChanges(), { dryRun: true });
+
+        expect(results.map(result => result.outcome)).toEqual(['created', 'conflict', 'unchanged']);
+        expect(results[1].diff).toContain('-before\n+after');
+        expect(results[2].diff).toBe('');
+        expect(await read(path.join(dir, 'nested', 'new.txt'))).toBeNull();
+        expect(await read(path.join(dir, 'existing.txt'))).toBe('before\n');
+    });
+
+    it('fails before writing anything when a change would overwrite existing content', async () => {
+        const error = await applyFileChanges(await planChanges()).catch((caught: unknown) => caught);
+
+        expect(error).toBeInstanceOf(McpError);
+        expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+        expect((error as McpError).message).toContain(`Refusing to overwrite existing content in ${path.join(dir, 'existing.txt')}`);
+        expect(await read(path.join(dir, 'nested', 'new.txt'))).toBeNull();
+    });
+
+    it('keeps existing content under the skip policy and writes the rest', async () => {
+        const results = await applyFileChanges(await planChanges(), { overwrite: 'skip' });
+
+        expect(results.map(result => result.outcome)).toEqual(['created', 'skipped', 'unchanged']);
+        expect(await read(path.join(dir, 'nested', 'new.txt'))).toBe('new\n');
+        expect(await read(path.join(dir, 'existing.txt'))).toBe('before\n');
+    });
+
+    it('replaces existing content under the overwrite policy', async () => {
+        const results = await applyFileChanges(await planChanges(), { overwrite: 'overwrite' });
+
+        expect(results.map(result => result.outcome)).toEqual(['created', 'updated', 'unchanged']);
+        expect(await read(path.join(dir, 'existing.txt'))).toBe('after\n');
+    });
+
+    it('backs up existing content without replacing earlier backups', async () => {
+        const file = path.join(dir, 'existing.txt');
+        await fs.writeFile(`${file}.bak`, 'older\n');
+        const [change] = (await planChanges()).slice(1);
+        const [result] = await applyFileChanges([change], { overwrite: 'backup' });
+
+        expect(result).toMatchObject({ outcome: 'backed-up', backupPath: `${file}.1.bak` });
+        expect(await read(`${file}.1.bak`)).toBe('before\n');
+        expect(await read(`${file}.bak`)).toBe('older\n');
+        expect(await read(file)).toBe('after\n');
+    });
+
+    it('lets the caller decide what counts as a conflict', async () => {
+        const file = path.join(dir, 'barrel.ts');
+        await fs.writeFile(file, 'export * from "./a";\n');
+        const [result] = await applyFileChanges([await planFileChange(file, 'export * from "./a";\nexport * from "./b";\n', false)]);
+
+        expect(result.outcome).toBe('updated');
+        const [forced] = await applyFileChanges([await planFileChange(path.join(dir, 'new.ts'), '', true)], { dryRun: true });
+        expect(forced.outcome).toBe('conflict');
+    });
+
+    it('notifies the recorder of every file before writing it', async () => {
+        const recorded: [string, string | null][] = [];
+        const recorder = { recordFile: (file: string, before: string | null) => void recorded.push([file, before]) };
+        await applyFileChanges(await planChanges(), { overwrite: 'backup', recorder });
+
+        const file = path.join(dir, 'existing.txt');
+        expect(recorded).toEqual([
+            [path.join(dir, 'nested', 'new.txt'), null],
+            [`${file}.bak`, null],
+            [file, 'before\n'],
+        ]);
+    });
+});
+
+describe('createDiff', () => {
+    it('diffs new files against /dev/null', () => {
+        const diff = createDiff({ path: 'src/a.ts', before: null, after: 'export {};\n' });
+        expect(diff).toContain('--- /dev/null');
+        expect(diff).toContain('+++ src/a.ts');
+        expect(diff).toContain('+export {};');
+    });
+});
+
+describe('formatFileChangeResults', () => {
+    it('lists outcomes and backups', () => {
+        expect(formatFileChangeResults([
+            { path: 'a.txt', outcome: 'created', diff: '' },
+            { path: 'b.txt', outcome: 'backed-up', backupPath: 'b.txt.bak', diff: '' },
+        ])).toBe('- a.txt: created\n- b.txt: overwritten (backup at b.txt.bak)');
+    });
+
+    it('appends the diffs of a dry run in a fence longer than any backtick run in them', async () => {
+        const change = await planFileChange(path.join(dir, 'README.md'), '```sh\nnpm test\n```\n');
+        const results = await applyFileChanges([change], { dryRun: true });
+        const text = formatFileChangeResults(results, true);
+
+        expect(text.startsWith(`- ${change.path}: would create\n\n\`\`\`\`diff\n`)).toBe(true);
+        expect(text.endsWith('\n````')).toBe(true);
+    });
+});
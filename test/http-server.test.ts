@@ -0,0 +1,139 @@
+import { request } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { afterEach, describe, expect, it } from 'vitest';
+import { HttpServerOptions, McpHttpServer } from '../src/http-server.js';
+import { logger } from '../src/logger.js';
+
+interface Response {
+    status: number;
+    headers: Record<string, string | string[] | undefined>;
+    body: { error?: { message: string } };
+}
+
+// Rejected requests are logged as warnings
+logger.setLevel('error');
+
+let server: McpHttpServer | undefined;
+
+afterEach(async () => {
+    await server?.close();
+    server = undefined;
+});
+
+async function start(authToken?: string, options: Partial<HttpServerOptions> = {}): Promise<URL> {
+    server = new McpHttpServer({
+        host: '127.0.0.1',
+        port: 0,
+        authToken,
+        connect: async () => {
+            throw new Error('No session expected');
+        },
+        ...options,
+    });
+    return new URL(await server.listen());
+}
+
+/**
+ * Sends a request with exactly the given headers; fetch would not allow overriding Host
+ */
+function send(base: URL, pathname: string, headers: Record<string, string>): Promise<Response> {
+    return new Promise((resolve, reject) => {
+        const req = request({ host: base.hostname, port: base.port, path: pathname, method: 'GET', headers }, res => {
+            let text = '';
+            res.setEncoding('utf8');
+            res.on('data', chunk => text += chunk);
+            res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: JSON.parse(text) }));
+        });
+        req.on('error', reject);
+        req.end();
+    });
+}
+
+describe('McpHttpServer authentication', () => {
+    it('rejects requests without a bearer token', async () => {
+        const base = await start('secret');
+        const response = await send(base, '/mcp', { host: base.host });
+
+        expect(response.status).toBe(401);
+        expect(response.headers['www-authenticate']).toBe('Bearer');
+        expect(response.body.error?.message).toBe('Missing or invalid bearer token');
+    });
+
+    it('rejects requests with a wrong bearer token', async () => {
+        const base = await start('secret');
+        for (const authorization of ['Bearer secret2', 'Bearer secre', 'Basic secret', 'Bearer']) {
+            const response = await send(base, '/mcp', { host: base.host, authorization });
+            expect(response.status, authorization).toBe(401);
+        }
+    });
+
+    it('accepts the right bearer token from any host', async () => {
+        const base = await start('secret');
+        const response = await send(base, '/unknown', { host: 'mcp.example.com', authorization: 'Bearer secret' });
+
+        // Past authentication, the request reaches routing
+        expect(response.status).toBe(404);
+        expect(response.body.error?.message).toBe('No MCP endpoint at GET /unknown');
+    });
+
+    it('rejects a non-loopback Host header when no token is configured', async () => {
+        const base = await start();
+        for (const host of ['evil.example.com', `evil.example.com:${base.port}`]) {
+            const response = await send(base, '/mcp', { host });
+            expect(response.status, host).toBe(403);
+            expect(response.body.error?.message).toBe('Host header must name a loopback address');
+        }
+    });
+
+    it('accepts loopback Host headers when no token is configured', async () => {
+        const base = await start();
+        for (const host of [base.host, `localhost:${base.port}`, `[::1]:${base.port}`]) {
+            const response = await send(base, '/unknown', { host });
+            expect(response.status, host).toBe(404);
+        }
+    });
+});
+
+describe('McpHttpServer sessions', () => {
+    function post(base: URL, message: object, sessionId?: string) {
+        return fetch(new URL('/mcp', base), {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Accept': 'application/json, text/event-stream',
+                ...(sessionId ? { 'Mcp-Session-Id': sessionId } : {}),
+            },
+            body: JSON.stringify({ jsonrpc: '2.0', ...message }),
+        });
+    }
+
+    it('closes streamable sessions that stay idle', async () => {
+        let closed = false;
+        const base = await start(undefined, {
+            sessionIdleTimeoutMs: 50,
+            connect: async transport => {
+                const mcp = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+                mcp.onclose = () => closed = true;
+                await mcp.connect(transport);
+            },
+        });
+
+        const initialized = await post(base, {
+            id: 1,
+            method: 'initialize',
+            params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+        });
+        const sessionId = initialized.headers.get('mcp-session-id')!;
+        await initialized.text();
+        expect(initialized.status).toBe(200);
+
+        const ping = await post(base, { id: 2, method: 'ping' }, sessionId);
+        await ping.text();
+        expect(ping.status).toBe(200);
+
+        await new Promise(resolve => setTimeout(resolve, 300));
+        const expired = await post(base, { id: 3, method: 'ping' }, sessionId);
+        expect(expired.status).toBe(404);
+        expect(closed).toBe(true);
+    });
+});
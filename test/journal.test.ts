@@ -0,0 +1,183 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ChangeJournal, JournalOperation } from '../src/journal.js';
+
+let dir: string;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'omnibus-journal-'));
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+/**
+ * Writes a file the way the tools do: snapshot first, then write
+ */
+async function write(operation: JournalOperation, file: string, content: string): Promise<void> {
+    await operation.snapshot(file);
+    await fs.writeFile(file, content);
+}
+
+async function read(file: string): Promise<string | null> {
+    return fs.readFile(file, 'utf-8').catch(() => null);
+}
+
+describe('ChangeJournal', () => {
+    it('lists operations that changed something and describes their changes', async () => {
+        const journal = new ChangeJournal();
+        const existing = path.join(dir, 'existing.txt');
+        await fs.writeFile(existing, 'old');
+
+        const operation = journal.begin('write_files', { count: 2 });
+        await write(operation, existing, 'new');
+        await write(operation, path.join(dir, 'created.txt'), 'hello');
+        await operation.snapshot(path.join(dir, 'untouched.txt'));
+        await operation.finish();
+        const empty = journal.begin('read_file', {});
+        await empty.finish();
+
+        const [listed, ...rest] = journal.list();
+        expect(rest).toEqual([]);
+        expect(listed).toMatchObject({ id: 1, tool: 'write_files', arguments: { count: 2 }, undone: false });
+        expect(listed.changes).toEqual([
+            { path: existing, change: 'modified' },
+            { path: path.join(dir, 'created.txt'), change: 'created' },
+        ]);
+    });
+
+    it('restores modified files, deletes created ones and removes created directories', async () => {
+        const journal = new ChangeJournal();
+        const existing = path.join(dir, 'existing.txt');
+        await fs.writeFile(existing, 'old');
+        const created = path.join(dir, 'src');
+
+        const operation = journal.begin('scaffold', {});
+        await write(operation, existing, 'new');
+        operation.recordDirectory(created);
+        await fs.mkdir(created);
+        await write(operation, path.join(created, 'index.ts'), 'export {};');
+        await operation.finish();
+
+        const [result] = await journal.undo({ operationId: operation.id });
+        expect(result.reverted.map(change => change.action)).toEqual(['deleted', 'removed directory', 'restored']);
+        expect(await read(existing)).toBe('old');
+        await expect(fs.stat(created)).rejects.toThrow();
+        expect(journal.list()).toEqual([]);
+        expect(journal.list(true)).toHaveLength(1);
+    });
+
+    it('changes nothing on a dry run', async () => {
+        const journal = new ChangeJournal();
+        const file = path.join(dir, 'a.txt');
+        const operation = journal.begin('write', {});
+        await write(operation, file, 'a');
+        await operation.finish();
+
+        const [result] = await journal.undo({ dryRun: true });
+        expect(result.reverted).toEqual([{ path: file, action: 'deleted' }]);
+        expect(await read(file)).toBe('a');
+        expect(journal.list()).toHaveLength(1);
+    });
+
+    it('undoes every operation newest first, back to the original contents', async () => {
+        const journal = new ChangeJournal();
+        const file = path.join(dir, 'a.txt');
+        await fs.writeFile(file, 'v0');
+
+        for (const content of ['v1', 'v2']) {
+            const operation = journal.begin('write', { content });
+            await write(operation, file, content);
+            await operation.finish();
+        }
+
+        const results = await journal.undo();
+        expect(results.map(result => result.operationId)).toEqual([2, 1]);
+        expect(await read(file)).toBe('v0');
+    });
+
+    it('refuses to undo an operation whose file a later operation changed', async () => {
+        const journal = new ChangeJournal();
+        const file = path.join(dir, 'a.txt');
+        const first = journal.begin('write', {});
+        await write(first, file, 'v1');
+        await first.finish();
+        const second = journal.begin('edit', {});
+        await write(second, file, 'v2');
+        await second.finish();
+
+        await expect(journal.undo({ operationId: first.id })).rejects.toThrow('was changed again by operation 2 (edit)');
+        expect(await read(file)).toBe('v2');
+
+        await journal.undo({ operationId: first.id, force: true });
+        expect(await read(file)).toBeNull();
+    });
+
+    it('refuses to undo a file modified outside the server unless forced', async () => {
+        const journal = new ChangeJournal();
+        const file = path.join(dir, 'a.txt');
+        await fs.writeFile(file, 'v0');
+        const operation = journal.begin('write', {});
+        await write(operation, file, 'v1');
+        await operation.finish();
+        await fs.writeFile(file, 'edited by hand');
+
+        await expect(journal.undo()).rejects.toThrow('has been modified since');
+        await journal.undo({ force: true });
+        expect(await read(file)).toBe('v0');
+    });
+
+    it('refuses to remove a created directory holding files added since unless forced', async () => {
+        const journal = new ChangeJournal();
+        const created = path.join(dir, 'project');
+        const operation = journal.begin('create_project', {});
+        operation.recordDirectory(created);
+        await fs.mkdir(path.join(created, 'src'), { recursive: true });
+        await write(operation, path.join(created, 'src', 'index.ts'), 'export {};');
+        await operation.finish();
+
+        const added = path.join(created, 'src', 'notes.md');
+        await fs.writeFile(added, 'mine');
+        await expect(journal.undo()).rejects.toThrow(`removing ${created} would delete files added or changed since: ${added}.`);
+        expect(await read(added)).toBe('mine');
+
+        await fs.rm(added);
+        await journal.undo({ dryRun: true });
+        await journal.undo({ force: true });
+        await expect(fs.stat(created)).rejects.toThrow();
+    });
+
+    it('removes a created directory along with files later operations undone with it added', async () => {
+        const journal = new ChangeJournal();
+        const created = path.join(dir, 'project');
+        const first = journal.begin('create_project', {});
+        first.recordDirectory(created);
+        await fs.mkdir(created);
+        await first.finish();
+        const second = journal.begin('write', {});
+        await write(second, path.join(created, 'a.txt'), 'a');
+        await second.finish();
+
+        const results = await journal.undo();
+        expect(results.map(result => result.operationId)).toEqual([2, 1]);
+        await expect(fs.stat(created)).rejects.toThrow();
+    });
+
+    it('rejects unknown and already undone operations', async () => {
+        const journal = new ChangeJournal();
+        const operation = journal.begin('write', {});
+        await write(operation, path.join(dir, 'a.txt'), 'a');
+        await operation.finish();
+        await journal.undo({ operationId: operation.id });
+
+        for (const operationId of [operation.id, 99]) {
+            const error = await journal.undo({ operationId }).catch((caught: unknown) => caught);
+            expect(error).toBeInstanceOf(McpError);
+            expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+        }
+    });
+});
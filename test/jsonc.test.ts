@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { detectIndent, parseJsonc, setJsoncValue } from '../src/jsonc.js';
+
+describe('parseJsonc', () => {
+    it('accepts comments and trailing commas', () => {
+        expect(parseJsonc('{\n  // note\n  "a": [1, 2,], /* b */\n}')).toEqual({ a: [1, 2] });
+    });
+
+    it('throws on invalid JSON', () => {
+        expect(() => parseJsonc('{ "a": }')).toThrow();
+    });
+});
+
+describe('detectIndent', () => {
+    it('uses the first indented line', () => {
+        expect(detectIndent('{\n    "a": 1\n}')).toBe('    ');
+        expect(detectIndent('{\n\t"a": 1\n}')).toBe('\t');
+    });
+
+    it('defaults to two spaces', () => {
+        expect(detectIndent('{}')).toBe('  ');
+    });
+});
+
+describe('setJsoncValue', () => {
+    it('replaces a value in place, keeping comments', () => {
+        const text = '{\n    // target\n    "target": "es2017", // old\n    "strict": false\n}\n';
+        expect(setJsoncValue(text, ['target'], 'es2022'))
+            .toBe('{\n    // target\n    "target": "es2022", // old\n    "strict": false\n}\n');
+    });
+
+    it('inserts after the last property and its line comment', () => {
+        expect(setJsoncValue('{\n  "a": 1, // x\n  "b": 2\n}', ['c'], 3))
+            .toBe('{\n  "a": 1, // x\n  "b": 2,\n  "c": 3\n}');
+    });
+
+    it('inserts after a trailing block comment instead of before it', () => {
+        expect(setJsoncValue('{\n  "a": 1 /* c */\n}', ['b'], 2)).toBe('{\n  "a": 1, /* c */\n  "b": 2\n}');
+    });
+
+    it('keeps a trailing comma style', () => {
+        expect(setJsoncValue('{\n  "a": 1,\n}', ['b'], 2)).toBe('{\n  "a": 1,\n  "b": 2,\n}');
+    });
+
+    it('keeps single-line objects on one line', () => {
+        expect(setJsoncValue('{ "a": 1 }', ['b'], true)).toBe('{ "a": 1, "b": true }');
+    });
+
+    it('fills an empty object using the document indentation', () => {
+        expect(setJsoncValue('{}', ['a'], 1)).toBe('{\n  "a": 1\n}');
+        expect(setJsoncValue('{\n    "o": {}\n}', ['o', 'k'], 'v')).toBe('{\n    "o": {\n        "k": "v"\n    }\n}');
+    });
+
+    it('creates missing parent objects', () => {
+        expect(setJsoncValue('{\n  "a": 1\n}', ['compilerOptions', 'paths', '@/*'], ['src/*']))
+            .toBe('{\n  "a": 1,\n  "compilerOptions": {\n    "paths": {\n      "@/*": ["src/*"]\n    }\n  }\n}');
+    });
+
+    it('removes a property line and the comma left dangling before it', () => {
+        expect(setJsoncValue('{\n  "a": 1,\n  "b": 2\n}', ['b'], undefined)).toBe('{\n  "a": 1\n}');
+        expect(setJsoncValue('{\n  "a": 1,\n  "b": 2\n}', ['a'], undefined)).toBe('{\n  "b": 2\n}');
+        expect(setJsoncValue('{ "a": 1, "b": 2, "c": 3 }', ['b'], undefined)).toBe('{ "a": 1, "c": 3 }');
+    });
+
+    it('removes the block comments leading a removed property', () => {
+        const text = '{\n    "target": "es2017", // trailing\n    /* block */ "strict": true\n}\n';
+        expect(setJsoncValue(text, ['strict'], undefined)).toBe('{\n    "target": "es2017" // trailing\n}\n');
+        expect(setJsoncValue('{ "a": 1, /* x */ "b": 2 }', ['b'], undefined)).toBe('{ "a": 1 }');
+    });
+
+    it('keeps line comments above a removed property and comments of its neighbours', () => {
+        expect(setJsoncValue('{\n  // keep\n  "a": 1,\n  "b": 2\n}', ['a'], undefined)).toBe('{\n  // keep\n  "b": 2\n}');
+        expect(setJsoncValue('{\n  "a": 1, /* a */\n  "b": 2 /* b */\n}', ['b'], undefined)).toBe('{\n  "a": 1 /* a */\n}');
+    });
+
+    it('leaves the text alone when removing a missing property', () => {
+        const text = '{\n  "a": 1\n}';
+        expect(setJsoncValue(text, ['b'], undefined)).toBe(text);
+        expect(setJsoncValue(text, ['b', 'c'], undefined)).toBe(text);
+    });
+
+    it('rejects a document that is not an object', () => {
+        expect(() => setJsoncValue('[1]', ['a'], 1)).toThrow('Expected a JSON object');
+    });
+});
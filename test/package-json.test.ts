@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { applyPackageJsonEdits } from '../src/package-json.js';
+
+describe('applyPackageJsonEdits', () => {
+    it('treats inherited object properties as absent fields', () => {
+        const packageJson = { name: 'app' };
+        const summary = applyPackageJsonEdits(packageJson, { fields: { toString: null, constructor: 'custom' } });
+
+        expect(summary).toEqual(['Added constructor: "custom"']);
+        expect(Object.hasOwn(packageJson, 'toString')).toBe(false);
+    });
+});
@@ -0,0 +1,97 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { detectPackageManager, installCommand, runScriptCommand, uninstallCommand } from '../src/package-manager.js';
+
+let dir: string;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'omnibus-pm-'));
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+async function write(file: string, content: unknown = ''): Promise<void> {
+    const target = path.join(dir, file);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, typeof content === 'string' ? content : JSON.stringify(content));
+}
+
+describe('detectPackageManager', () => {
+    it('prefers an explicit override', async () => {
+        await write('pnpm-lock.yaml');
+        expect(await detectPackageManager(dir, 'bun')).toEqual({ name: 'bun', source: 'override' });
+    });
+
+    it('reads the packageManager field before lockfiles', async () => {
+        await write('package.json', { packageManager: 'pnpm@9.1.0+sha512.abc' });
+        await write('yarn.lock');
+        expect(await detectPackageManager(dir)).toEqual({ name: 'pnpm', version: '9.1.0', source: 'packageManager', root: dir });
+    });
+
+    it('ignores an unknown packageManager field', async () => {
+        await write('package.json', { packageManager: 'deno@2.0.0' });
+        await write('bun.lock');
+        expect(await detectPackageManager(dir)).toEqual({ name: 'bun', source: 'lockfile', root: dir });
+    });
+
+    it.each([
+        ['pnpm-lock.yaml', 'pnpm'],
+        ['yarn.lock', 'yarn'],
+        ['bun.lockb', 'bun'],
+        ['package-lock.json', 'npm'],
+    ])('detects %s', async (lockfile, name) => {
+        await write('package.json', {});
+        await write(lockfile);
+        expect(await detectPackageManager(dir)).toEqual({ name, source: 'lockfile', root: dir });
+    });
+
+    it('inherits the choice of the workspace root', async () => {
+        await write('package.json', { workspaces: ['packages/*'] });
+        await write('yarn.lock');
+        await write('packages/app/package.json', { name: 'app' });
+        expect(await detectPackageManager(path.join(dir, 'packages/app'))).toEqual({ name: 'yarn', source: 'lockfile', root: dir });
+    });
+
+    it('lets a package declare its own package manager', async () => {
+        await write('yarn.lock');
+        await write('packages/app/package.json', { packageManager: 'npm@10.2.0' });
+        const app = path.join(dir, 'packages/app');
+        expect(await detectPackageManager(app)).toEqual({ name: 'npm', version: '10.2.0', source: 'packageManager', root: app });
+    });
+
+    it('stops searching parents at the boundary', async () => {
+        await write('yarn.lock');
+        await write('root/app/package.json', { name: 'app' });
+        const root = path.join(dir, 'root');
+        expect(await detectPackageManager(path.join(root, 'app'), undefined, root)).toEqual({ name: 'npm', source: 'default' });
+    });
+
+    it('falls back to npm', async () => {
+        await write('package.json', {});
+        expect(await detectPackageManager(dir)).toEqual({ name: 'npm', source: 'default' });
+    });
+});
+
+describe('package manager commands', () => {
+    it('keeps npm specifiers from being read as options', () => {
+        expect(installCommand('npm', ['react'], { dev: true, exact: true }))
+            .toEqual({ command: 'npm', args: ['install', '--save-dev', '--save-exact', '--', 'react'] });
+        expect(uninstallCommand('npm', ['react'])).toEqual({ command: 'npm', args: ['uninstall', '--', 'react'] });
+    });
+
+    it('uses add and remove with each manager\'s save flags', () => {
+        expect(installCommand('pnpm', ['react'], { peer: true })).toEqual({ command: 'pnpm', args: ['add', '--save-peer', 'react'] });
+        expect(installCommand('yarn', ['react'], { dev: true })).toEqual({ command: 'yarn', args: ['add', '--dev', 'react'] });
+        expect(uninstallCommand('bun', ['react'])).toEqual({ command: 'bun', args: ['remove', 'react'] });
+    });
+
+    it('forwards script arguments', () => {
+        expect(runScriptCommand('npm', 'test', ['--watch'])).toEqual({ command: 'npm', args: ['run', 'test', '--', '--watch'] });
+        expect(runScriptCommand('npm', 'build')).toEqual({ command: 'npm', args: ['run', 'build'] });
+        expect(runScriptCommand('yarn', 'test', ['--watch'])).toEqual({ command: 'yarn', args: ['run', 'test', '--watch'] });
+    });
+});
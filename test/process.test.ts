@@ -0,0 +1,110 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import * as os from 'os';
+import { describe, expect, it } from 'vitest';
+import { isValidVersionRange, killRunningProcesses, runProcess, validatePackageSpecifier } from '../src/process.js';
+
+function rejection(specifier: string): McpError | undefined {
+    try {
+        validatePackageSpecifier(specifier);
+        return undefined;
+    } catch (error) {
+        return error as McpError;
+    }
+}
+
+describe('isValidVersionRange', () => {
+    it.each([
+        '',
+        '*',
+        '1',
+        '1.2.x',
+        '^1.2.0',
+        '~1.2.3-beta.1+build.5',
+        '>=1 <2 || 3.x',
+        '>= 1.2',
+        '1.2.3 - 2.3.4',
+        'v1.0.0',
+    ])('accepts %j', range => {
+        expect(isValidVersionRange(range)).toBe(true);
+    });
+
+    it.each([
+        'latest',
+        '^1.2.3; rm -rf /',
+        '$(whoami)',
+        '1.2.3.4',
+        '>=1 <2 |',
+        'git+https://example.com/repo.git',
+    ])('rejects %j', range => {
+        expect(isValidVersionRange(range)).toBe(false);
+    });
+});
+
+describe('validatePackageSpecifier', () => {
+    it.each([
+        'react',
+        'lodash.merge',
+        'React',
+        '@types/node',
+        '@types/node@^20.10.0',
+        'typescript@5.3.2',
+        'next@canary',
+        'semver@>=7 <8',
+    ])('accepts %j', specifier => {
+        expect(() => validatePackageSpecifier(specifier)).not.toThrow();
+    });
+
+    it.each([
+        '',
+        '.hidden',
+        '_private',
+        '-flag',
+        '--registry=https://evil.example',
+        '@scope',
+        '@Scope/pkg',
+        'a b',
+        'file:../local',
+        'https://example.com/pkg.tgz',
+        'a'.repeat(215),
+    ])('rejects the name %j', specifier => {
+        const error = rejection(specifier);
+        expect(error).toBeInstanceOf(McpError);
+        expect(error?.code).toBe(ErrorCode.InvalidParams);
+        expect(error?.message).toContain('Invalid package name');
+    });
+
+    it.each([
+        'react@$(whoami)',
+        'react@1.2.3 && echo',
+        '@types/node@--save',
+    ])('rejects the version of %j', specifier => {
+        const error = rejection(specifier);
+        expect(error).toBeInstanceOf(McpError);
+        expect(error?.code).toBe(ErrorCode.InvalidParams);
+        expect(error?.message).toContain('Invalid version range');
+    });
+});
+
+describe('runProcess', () => {
+    // Keeps running until killed, ignoring SIGTERM
+    const stubborn = ['-e', "process.on('SIGTERM', () => {}); setInterval(() => {}, 1000);"];
+
+    it('terminates the process when the signal is aborted', async () => {
+        const controller = new AbortController();
+        const run = runProcess(process.execPath, ['-e', 'setInterval(() => {}, 1000);'], { cwd: os.tmpdir(), signal: controller.signal });
+        controller.abort();
+
+        const result = await run;
+        expect(result.aborted).toBe(true);
+        expect(result.exitSignal).toBe('SIGTERM');
+    });
+
+    it('kills every running process tree on request', async () => {
+        const runs = [runProcess(process.execPath, stubborn, { cwd: os.tmpdir() }), runProcess(process.execPath, stubborn, { cwd: os.tmpdir() })];
+        killRunningProcesses();
+
+        for (const result of await Promise.all(runs)) {
+            expect(result.exitSignal).toBe('SIGKILL');
+        }
+    });
+});
@@ -0,0 +1,210 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import reporter from '../src/node-test-reporter.js';
+import { readTestReport, SupportedTestRunner } from '../src/test-runner.js';
+
+const FIXTURES = fileURLToPath(new URL('./fixtures/test-reports/', import.meta.url));
+const PROJECT = '/project';
+
+let workDir: string;
+
+beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'omnibus-test-report-'));
+});
+
+afterEach(async () => {
+    await fs.rm(workDir, { recursive: true, force: true });
+});
+
+/**
+ * Places a fixture where the runner's reporter would have written it
+ */
+async function useFixture(fixture: string, coverage = false): Promise<void> {
+    await fs.copyFile(path.join(FIXTURES, fixture), path.join(workDir, 'report.json'));
+    if (coverage) {
+        await fs.mkdir(path.join(workDir, 'coverage'));
+        await fs.copyFile(path.join(FIXTURES, 'coverage-summary.json'), path.join(workDir, 'coverage', 'coverage-summary.json'));
+    }
+}
+
+describe('readTestReport', () => {
+    it('reads Jest results, locating failures in the test file', async () => {
+        await useFixture('jest.json');
+        expect(await readTestReport('jest', PROJECT, workDir)).toEqual({
+            summary: { total: 4, passed: 1, failed: 2, skipped: 1 },
+            failures: [
+                {
+                    name: 'sum subtracts',
+                    file: '/project/src/sum.test.js',
+                    line: 8,
+                    column: 19,
+                    message: 'Error: expect(received).toBe(expected)\n\nExpected: 1\nReceived: 2',
+                },
+                {
+                    name: '/project/src/broken.test.js',
+                    file: '/project/src/broken.test.js',
+                    line: 1,
+                    column: 1,
+                    message: "● Test suite failed to run\n\n    Cannot find module './missing' from 'src/broken.test.js'",
+                },
+                {
+                    name: 'throws a string',
+                    file: '/project/src/strings.test.js',
+                    line: 2,
+                    column: 1,
+                    message: 'thrown: "oops"',
+                },
+            ],
+            coverage: undefined,
+        });
+    });
+
+    it('reads an Istanbul coverage summary, counting an unknown percentage as full', async () => {
+        await useFixture('jest.json', true);
+        const report = await readTestReport('jest', PROJECT, workDir);
+        expect(report?.coverage).toEqual({
+            lines: { total: 10, covered: 8, pct: 80 },
+            statements: { total: 12, covered: 9, pct: 75 },
+            functions: { total: 4, covered: 4, pct: 100 },
+            branches: { total: 0, covered: 0, pct: 100 },
+        });
+    });
+
+    it('reads Vitest results, counting todo tests as skipped', async () => {
+        await useFixture('vitest.json');
+        const report = await readTestReport('vitest', PROJECT, workDir);
+        expect(report?.summary).toEqual({ total: 3, passed: 1, failed: 1, skipped: 1 });
+        expect(report?.failures).toEqual([{
+            name: 'sum subtracts',
+            file: '/project/src/sum.test.ts',
+            line: 8,
+            column: 23,
+            message: 'AssertionError: expected 2 to be 1 // Object.is equality',
+        }]);
+    });
+
+    it('reads Mocha results, including hook failures without a stack', async () => {
+        await useFixture('mocha.json');
+        const report = await readTestReport('mocha', PROJECT, workDir);
+        expect(report?.summary).toEqual({ total: 3, passed: 1, failed: 1, skipped: 1 });
+        expect(report?.failures).toEqual([
+            {
+                name: 'sum subtracts',
+                file: '/project/test/sum.spec.js',
+                line: 9,
+                column: 12,
+                message: 'AssertionError: expected 2 to equal 1',
+            },
+            {
+                name: 'db "before all" hook in "db"',
+                message: 'connect ECONNREFUSED 127.0.0.1:5432',
+            },
+        ]);
+    });
+
+    it('reads node:test events, explaining crashed files with their output', async () => {
+        await useFixture('node-test.jsonl');
+        expect(await readTestReport('node:test', PROJECT, workDir)).toEqual({
+            summary: { total: 4, passed: 1, failed: 2, skipped: 1 },
+            failures: [
+                {
+                    name: 'sum > subtracts',
+                    file: '/project/test/sum.test.js',
+                    line: 9,
+                    column: 12,
+                    message: 'AssertionError [ERR_ASSERTION]: Expected values to be strictly equal:\n\n2 !== 1',
+                },
+                {
+                    name: '/project/test/crash.test.js',
+                    file: '/project/test/crash.test.js',
+                    line: 1,
+                    column: 1,
+                    message: "file:///project/test/crash.test.js:1\nimport missing from './missing.js';\n\n" +
+                        "Error [ERR_MODULE_NOT_FOUND]: Cannot find module '/project/test/missing.js'",
+                },
+            ],
+            coverage: {
+                lines: { total: 20, covered: 15, pct: 75 },
+                functions: { total: 3, covered: 2, pct: 66.67 },
+                branches: { total: 4, covered: 3, pct: 75 },
+            },
+        });
+    });
+
+    it.each<SupportedTestRunner>(['jest', 'vitest', 'mocha', 'node:test'])('returns nothing when %s wrote no report', async runner => {
+        expect(await readTestReport(runner, PROJECT, workDir)).toBeUndefined();
+        await fs.writeFile(path.join(workDir, 'report.json'), '\n');
+        expect(await readTestReport(runner, PROJECT, workDir)).toBeUndefined();
+    });
+
+    it.each<SupportedTestRunner>(['jest', 'mocha'])('rejects a truncated %s report', async runner => {
+        await fs.writeFile(path.join(workDir, 'report.json'), '{"numTotalTests": 4, "testResults": [');
+        await expect(readTestReport(runner, PROJECT, workDir)).rejects.toThrow(/^Cannot parse test report .*report\.json/);
+    });
+
+    it('rejects node:test output with a line that is not an event', async () => {
+        const events = await fs.readFile(path.join(FIXTURES, 'node-test.jsonl'), 'utf-8');
+        await fs.writeFile(path.join(workDir, 'report.json'), `${events}TAP version 13\n`);
+        await expect(readTestReport('node:test', PROJECT, workDir)).rejects.toThrow('Cannot parse test report');
+    });
+});
+
+type ReporterEvent = Parameters<typeof reporter>[0] extends AsyncIterable<infer T> ? T : never;
+
+async function report(events: ReporterEvent[]): Promise<unknown[]> {
+    async function* source() {
+        yield* events;
+    }
+    const lines: unknown[] = [];
+    for await (const line of reporter(source())) {
+        lines.push(JSON.parse(line));
+    }
+    return lines;
+}
+
+describe('node:test reporter', () => {
+    const file = '/project/test/sum.test.js';
+
+    it('writes one result per test with the names of its suites', async () => {
+        const stack = 'AssertionError [ERR_ASSERTION]: 2 !== 1\n    at TestContext.<anonymous> (file:///project/test/sum.test.js:9:12)';
+        expect(await report([
+            { type: 'test:start', data: { name: 'sum', nesting: 0, file } },
+            { type: 'test:start', data: { name: 'adds', nesting: 1, file } },
+            { type: 'test:pass', data: { name: 'adds', nesting: 1, file, line: 4, column: 3, details: { type: 'test' } } },
+            { type: 'test:start', data: { name: 'subtracts', nesting: 1, file } },
+            {
+                type: 'test:fail',
+                data: {
+                    name: 'subtracts', nesting: 1, file, line: 8, column: 3,
+                    details: { type: 'test', error: { message: 'test failed', failureType: 'testCodeFailure', cause: { message: '2 !== 1', stack } } },
+                },
+            },
+            { type: 'test:pass', data: { name: 'sum', nesting: 0, file, details: { type: 'suite' } } },
+            { type: 'test:start', data: { name: 'later', nesting: 0, file } },
+            { type: 'test:pass', data: { name: 'later', nesting: 0, file, line: 12, column: 1, todo: 'not yet', details: { type: 'test' } } },
+        ])).toEqual([
+            { event: 'result', name: 'adds', ancestors: ['sum'], file, line: 4, column: 3, status: 'passed' },
+            {
+                event: 'result', name: 'subtracts', ancestors: ['sum'], file, line: 8, column: 3, status: 'failed',
+                error: { message: '2 !== 1', stack },
+            },
+            { event: 'result', name: 'later', ancestors: [], file, line: 12, column: 1, status: 'todo' },
+        ]);
+    });
+
+    it('reports a file failing outside any test, with its output', async () => {
+        expect(await report([
+            { type: 'test:stderr', data: { file, message: 'SyntaxError: Unexpected token\n' } },
+            { type: 'test:pass', data: { name: file, nesting: 0, file } },
+            { type: 'test:fail', data: { name: file, nesting: 0, file, details: { error: { message: 'test failed', cause: 'boom' } } } },
+            { type: 'test:coverage', data: { summary: { totals: { totalLineCount: 1 } } } },
+        ])).toEqual([
+            { event: 'stderr', file, message: 'SyntaxError: Unexpected token\n' },
+            { event: 'result', name: file, ancestors: [], file, status: 'failed', error: { message: 'boom' } },
+            { event: 'coverage', totals: { totalLineCount: 1 } },
+        ]);
+    });
+});
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { editTsConfig, readTsConfig } from '../src/tsconfig.js';
+
+let dir: string;
+
+function write(file: string, content: unknown) {
+    const target = path.join(dir, file);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, typeof content === 'string' ? content : JSON.stringify(content));
+    return target;
+}
+
+beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'omnibus-tsconfig-')));
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('readTsConfig', () => {
+    it('merges compiler options along the extends chain, own options last', () => {
+        const base = write('configs/base.json', { compilerOptions: { strict: true, target: 'es2017' } });
+        const config = write('tsconfig.json', '{\n  // comment\n  "extends": "./configs/base",\n  "compilerOptions": { "target": "es2022", },\n}');
+
+        const summary = readTsConfig(config);
+        expect(summary.extends).toEqual([base]);
+        expect(summary.compilerOptions).toEqual({ strict: true, target: 'es2022' });
+        expect(summary.optionSources).toEqual({ strict: base, target: config });
+        expect(summary.errors).toEqual([]);
+    });
+
+    it('applies an extends array in order and rebases inherited file specs', () => {
+        write('configs/a.json', { compilerOptions: { module: 'commonjs' }, include: ['../src'] });
+        write('configs/b.json', { compilerOptions: { module: 'esnext' }, exclude: ['dist'] });
+        const config = write('tsconfig.json', { extends: ['./configs/a.json', './configs/b.json'] });
+
+        const summary = readTsConfig(config);
+        expect(summary.compilerOptions).toEqual({ module: 'esnext' });
+        expect(summary.include).toEqual(['src']);
+        expect(summary.exclude).toEqual(['configs/dist']);
+    });
+
+    it('resolves configs extended from packages in node_modules', () => {
+        const base = write('node_modules/@tsconfig/node20/tsconfig.json', { compilerOptions: { lib: ['es2023'] } });
+        write('node_modules/@tsconfig/node20/package.json', { name: '@tsconfig/node20', version: '1.0.0' });
+        const config = write('packages/app/tsconfig.json', { extends: '@tsconfig/node20/tsconfig.json' });
+
+        const summary = readTsConfig(config);
+        expect(summary.extends).toEqual([base]);
+        expect(summary.compilerOptions).toEqual({ lib: ['es2023'] });
+    });
+
+    it('does not read extended configs outside the boundary', () => {
+        const outside = write('base.json', { compilerOptions: { strict: true } });
+        write('node_modules/@tsconfig/node20/tsconfig.json', { compilerOptions: { lib: ['es2023'] } });
+        const config = write('root/tsconfig.json', { extends: ['../base.json', '@tsconfig/node20/tsconfig.json'] });
+
+        const summary = readTsConfig(config, path.join(dir, 'root'));
+        expect(summary.compilerOptions).toEqual({});
+        expect(summary.errors).toEqual([
+            `Extended config ${outside} is outside the allowed workspace roots`,
+            `Cannot resolve extended config "@tsconfig/node20/tsconfig.json" from ${config}`,
+        ]);
+    });
+
+    it('reports unresolvable and circular extends and invalid options', () => {
+        write('a.json', { extends: './tsconfig.json' });
+        const config = write('tsconfig.json', { extends: ['./a.json', './missing.json'], compilerOptions: { target: 'es1' } });
+
+        const { errors } = readTsConfig(config);
+        expect(errors).toContainEqual(expect.stringContaining('Circular extends'));
+        expect(errors).toContainEqual(expect.stringContaining('Cannot resolve extended config "./missing.json"'));
+        expect(errors.some(error => error.includes('target'))).toBe(true);
+    });
+});
+
+describe('editTsConfig', () => {
+    it('sets and removes options and aliases, keeping comments', () => {
+        const text = '{\n  "compilerOptions": {\n    "strict": false, // loosened\n    "outDir": "dist"\n  }\n}\n';
+        const result = editTsConfig(text, { compilerOptions: { strict: true, outDir: null }, paths: { '@/*': ['src/*'] } });
+        expect(result).toBe('{\n  "compilerOptions": {\n    "strict": true, // loosened\n    "paths": {\n      "@/*": ["src/*"]\n    }\n  }\n}\n');
+    });
+
+    it('starts list edits from inherited specs when the file has none', () => {
+        const result = editTsConfig('{}', { include: { add: ['test'] } }, { include: ['src'] });
+        expect(JSON.parse(result)).toEqual({ include: ['src', 'test'] });
+    });
+
+    it('keeps other fields of surviving references', () => {
+        const text = JSON.stringify({ references: [{ path: '../a', prepend: true }, { path: '../b' }] });
+        const result = editTsConfig(text, { references: { remove: ['../b'], add: ['../c'] } });
+        expect(JSON.parse(result).references).toEqual([{ path: '../a', prepend: true }, { path: '../c' }]);
+    });
+});
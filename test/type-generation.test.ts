@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import {
+    ensureZodImport,
+    findDeclaredNames,
+    findOpenApiComponent,
+    inferSchemaFromSample,
+    JsonSchema,
+    TypeGenerator,
+} from '../src/type-generation.js';
+
+const user: JsonSchema = {
+    type: 'object',
+    properties: {
+        id: { type: 'integer', description: 'Id' },
+        'full-name': { type: 'string' },
+        address: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] },
+        role: { enum: ['admin', 'user'] },
+        nick: { type: ['string', 'null'] },
+    },
+    required: ['id'],
+};
+
+describe('TypeGenerator', () => {
+    it('declares interfaces for object schemas, naming nested ones after their parent', () => {
+        const generator = new TypeGenerator();
+        generator.add('User', user);
+        const result = generator.generate();
+
+        expect(result.typeNames).toEqual(['User', 'UserAddress']);
+        expect(result.declaredNames).toEqual(['User', 'UserAddress']);
+        expect(result.usesZod).toBe(false);
+        expect(result.code).toContain(`export interface User {
+    /** Id */
+    id: number;
+    'full-name'?: string;
+    address?: UserAddress;
+    role?: 'admin' | 'user';
+    nick?: string | null;
+}`);
+        expect(result.code).toContain(`export interface UserAddress {
+    city: string;
+}`);
+    });
+
+    it('emits Zod schemas and guards built on them', () => {
+        const generator = new TypeGenerator();
+        generator.add('User', user);
+        const result = generator.generate({ zod: true, typeGuards: true });
+
+        expect(result.usesZod).toBe(true);
+        expect(result.declaredNames).toEqual(['User', 'UserAddress', 'UserSchema', 'UserAddressSchema', 'isUser', 'isUserAddress']);
+        // Nested schemas are declared before the schemas that use them
+        expect(result.code.indexOf('const UserAddressSchema')).toBeLessThan(result.code.indexOf('const UserSchema'));
+        expect(result.code).toContain(`    id: z.number().int(),
+    'full-name': z.string().optional(),
+    address: UserAddressSchema.optional(),
+    role: z.enum(['admin', 'user']).optional(),
+    nick: z.string().nullable().optional(),`);
+        expect(result.code).toContain(`export function isUser(value: unknown): value is User {
+    return UserSchema.safeParse(value).success;
+}`);
+    });
+
+    it('emits standalone guards without Zod', () => {
+        const generator = new TypeGenerator();
+        generator.add('Point', { type: 'object', properties: { x: { type: 'number' } }, required: ['x'] });
+        const result = generator.generate({ typeGuards: true });
+
+        expect(result.usesZod).toBe(false);
+        expect(result.declaredNames).toEqual(['Point', 'isPoint']);
+        expect(result.code).toContain('export function isPoint(value: unknown): value is Point {');
+        expect(result.code).not.toContain('z.');
+    });
+
+    it('declares local $ref targets under their own names', () => {
+        const root = { definitions: { Pet: { type: 'object', properties: { name: { type: 'string' } } } } };
+        const generator = new TypeGenerator(root);
+        generator.add('Owner', { type: 'object', properties: { pets: { type: 'array', items: { $ref: '#/definitions/Pet' } } } });
+        const result = generator.generate();
+
+        expect(result.typeNames).toEqual(['Owner', 'Pet']);
+        expect(result.code).toContain('pets?: Pet[];');
+    });
+
+    it('refuses names that are already declared', () => {
+        const generator = new TypeGenerator({}, ['User']);
+        expect(() => generator.add('User', user)).toThrow('User is already declared');
+    });
+
+    it('picks another name for a nested type that would clash', () => {
+        const generator = new TypeGenerator({}, ['UserAddress']);
+        generator.add('User', user);
+        const { typeNames } = generator.generate();
+        expect(typeNames).toHaveLength(2);
+        expect(typeNames[1]).not.toBe('UserAddress');
+    });
+});
+
+describe('inferSchemaFromSample', () => {
+    it('merges objects in an array, making properties missing from some optional', () => {
+        expect(inferSchemaFromSample([{ a: 1, b: 'x' }, { a: 2 }])).toEqual({
+            type: 'array',
+            items: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'string' } }, required: ['a'] },
+        });
+    });
+
+    it('unions the distinct types of mixed arrays', () => {
+        expect(inferSchemaFromSample([1, 'a', 2, null])).toEqual({
+            type: 'array',
+            items: { anyOf: [{ type: 'number' }, { type: 'string' }, { type: 'null' }] },
+        });
+    });
+});
+
+describe('findOpenApiComponent', () => {
+    it('finds OpenAPI 3 and Swagger 2 components', () => {
+        const pet = { type: 'object' };
+        expect(findOpenApiComponent({ components: { schemas: { Pet: pet } } }, 'Pet')).toBe(pet);
+        expect(findOpenApiComponent({ definitions: { Pet: pet } }, 'Pet')).toBe(pet);
+    });
+
+    it('lists the available components when one is missing', () => {
+        expect(() => findOpenApiComponent({ components: { schemas: { Pet: {} } } }, 'Dog')).toThrow('Component Dog not found; available: Pet');
+    });
+});
+
+describe('findDeclaredNames', () => {
+    it('lists top-level declarations of every kind', () => {
+        const source = `import { z } from 'zod';
+export interface User {}
+type Id = string;
+export const UserSchema = z.object({});
+export function isUser() {}
+declare enum Role {}
+export default class Store {}
+`;
+        expect([...findDeclaredNames(source)]).toEqual(['User', 'Id', 'UserSchema', 'isUser', 'Role', 'Store']);
+    });
+});
+
+describe('ensureZodImport', () => {
+    it('adds the import after the existing imports', () => {
+        expect(ensureZodImport("import a from 'a';\nimport { b } from 'b';\n\nexport type A = 1;\n"))
+            .toBe("import a from 'a';\nimport { b } from 'b';\nimport { z } from 'zod';\n\nexport type A = 1;\n");
+    });
+
+    it('starts a file without imports with it', () => {
+        expect(ensureZodImport('export type A = 1;\n')).toBe("import { z } from 'zod';\n\nexport type A = 1;\n");
+        expect(ensureZodImport('')).toBe("import { z } from 'zod';\n");
+    });
+
+    it('leaves a file that already imports zod alone', () => {
+        const source = "import * as z from 'zod';\n";
+        expect(ensureZodImport(source)).toBe(source);
+    });
+});